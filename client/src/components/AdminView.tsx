@@ -8,7 +8,7 @@ import { GlobalDispatchContext, GlobalStateContext } from "@/context/GlobalConte
 import { ErrorType } from "@/context/types";
 
 // utils
-import { backendAPI, setErrorMessage } from "@/utils";
+import { apiClient, setErrorMessage } from "@/utils";
 
 export const AdminView = () => {
   const dispatch = useContext(GlobalDispatchContext);
@@ -25,10 +25,10 @@ export const AdminView = () => {
   const handleDropAsset = async () => {
     setAreButtonsDisabled(true);
 
-    backendAPI
-      .post("/dropped-asset")
+    apiClient
+      .dropAsset()
       .then(() => {
-        backendAPI.put("/world/fire-toast", { title: "Asset successfully dropped!" });
+        apiClient.fireToast({ body: { title: "Asset successfully dropped!" } });
       })
       .catch((error) => setErrorMessage(dispatch, error as ErrorType))
       .finally(() => {
@@ -39,12 +39,14 @@ export const AdminView = () => {
   const handleRemoveDroppedAssets = async () => {
     setAreButtonsDisabled(true);
 
-    backendAPI
-      .post("/remove-dropped-assets")
+    apiClient
+      .removeDroppedAssets()
       .then(() => {
-        backendAPI.put("/world/fire-toast", {
-          title: "Dropped assets successfully removed!",
-          text: "All dropped assets with matching unique name have been removed from this world.",
+        apiClient.fireToast({
+          body: {
+            title: "Dropped assets successfully removed!",
+            text: "All dropped assets with matching unique name have been removed from this world.",
+          },
         });
       })
       .catch((error) => setErrorMessage(dispatch, error as ErrorType))
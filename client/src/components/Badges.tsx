@@ -0,0 +1,45 @@
+import { useContext, useEffect, useState } from "react";
+
+// context
+import { GlobalDispatchContext, GlobalStateContext } from "@/context/GlobalContext";
+import { ErrorType } from "@/context/types";
+import { BadgeDTO } from "@shared/types/Badge";
+
+// utils
+import { apiClient, setErrorMessage } from "@/utils";
+
+export const Badges = () => {
+  const dispatch = useContext(GlobalDispatchContext);
+  const { visitorData } = useContext(GlobalStateContext);
+
+  const [badges, setBadges] = useState<BadgeDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // fetched again whenever the visitor's data changes, e.g. after completing the task, to show new badges
+  useEffect(() => {
+    apiClient
+      .getBadges()
+      .then((response) => setBadges(response.badges))
+      .catch((error) => setErrorMessage(dispatch, error as ErrorType))
+      .finally(() => setIsLoading(false));
+  }, [dispatch, visitorData]);
+
+  if (isLoading || badges.length === 0) return null;
+
+  return (
+    <div className="w-full mt-4">
+      <h4 className="h4 mb-2">Badges</h4>
+      <div className="grid grid-cols-3 gap-4">
+        {badges.map(({ name, description, icon, earned }) => (
+          <div className="tooltip flex flex-col items-center" key={name}>
+            <span className="tooltip-content">{description}</span>
+            {icon && <img src={icon} alt={name} style={{ width: "64px", filter: earned ? "none" : "grayscale(1)" }} />}
+            <p className={earned ? "p2" : "p2 opacity-50"}>{name}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Badges;
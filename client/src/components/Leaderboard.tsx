@@ -0,0 +1,56 @@
+import { useContext, useEffect, useState } from "react";
+
+// context
+import { GlobalDispatchContext } from "@/context/GlobalContext";
+import { ErrorType } from "@/context/types";
+import { LeaderboardEntry } from "@shared/types/Leaderboard";
+
+// utils
+import { apiClient, setErrorMessage } from "@/utils";
+
+export const Leaderboard = ({ limit = 10 }: { limit?: number }) => {
+  const dispatch = useContext(GlobalDispatchContext);
+
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    apiClient
+      .getLeaderboard({ query: { limit } })
+      .then((response) => setLeaderboard(response.leaderboard))
+      .catch((error) => setErrorMessage(dispatch, error as ErrorType))
+      .finally(() => setIsLoading(false));
+  }, [dispatch, limit]);
+
+  if (isLoading) return null;
+
+  return (
+    <div className="w-full mt-4">
+      <h4 className="h4 mb-2">Leaderboard</h4>
+      {leaderboard.length === 0 ? (
+        <p className="p2">No results yet.</p>
+      ) : (
+        <table className="table w-full">
+          <thead>
+            <tr>
+              <th className="h5">#</th>
+              <th className="h5">Name</th>
+              <th className="h5">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {leaderboard.map(({ rank, profileId, displayName, score }) => (
+              <tr key={profileId}>
+                <td className="p2">{rank}</td>
+                <td className="p2">{displayName}</td>
+                <td className="p2">{score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -1,7 +1,9 @@
 export * from "./Accordion.js";
 export * from "./AdminView.js";
 export * from "./AdminIconButton.js";
+export * from "./Badges.js";
 export * from "./ConfirmationModal.js";
+export * from "./Leaderboard.js";
 export * from "./Loading.js";
 export * from "./PageContainer.js";
 export * from "./PageFooter.js";
@@ -11,15 +11,19 @@ const globalReducer = (state: InitialState, action: ActionType) => {
     case SET_GAME_STATE:
       return {
         ...state,
-        isAdmin: payload.isAdmin,
-        visitorData: payload.visitorData,
-        droppedAsset: payload.droppedAsset,
+        // broadcasts from /api/events only include shared state, so keep per-visitor values they omit
+        isAdmin: payload.isAdmin ?? state.isAdmin,
+        isLeaderboardEnabled: payload.isLeaderboardEnabled ?? state.isLeaderboardEnabled,
+        visitorData: payload.visitorData ?? state.visitorData,
+        droppedAsset: payload.droppedAsset ?? state.droppedAsset,
         error: "",
+        errorCode: undefined,
       };
     case SET_ERROR:
       return {
         ...state,
         error: payload.error,
+        errorCode: payload.errorCode,
       };
 
     default: {
@@ -1,4 +1,5 @@
-import { DroppedAssetInterface } from "@rtsdk/topia";
+import { ErrorCode } from "@shared/types/ApiError";
+import { DroppedAssetDTO } from "@shared/types/DroppedAsset";
 import { VisitorDataObject } from "@shared/types/VisitorData";
 
 export const SET_HAS_INTERACTIVE_PARAMS = "SET_HAS_INTERACTIVE_PARAMS";
@@ -21,10 +22,12 @@ export type InteractiveParams = {
 
 export interface InitialState {
   isAdmin?: boolean;
+  isLeaderboardEnabled?: boolean;
   error?: string;
+  errorCode?: ErrorCode;
   hasInteractiveParams?: boolean;
   visitorData?: VisitorDataObject;
-  droppedAsset?: DroppedAssetInterface;
+  droppedAsset?: DroppedAssetDTO;
 }
 
 export type ActionType = {
@@ -36,5 +39,12 @@ export type ErrorType =
   | string
   | {
       message?: string;
-      response?: { data?: { error?: { message?: string }; message?: string } };
+      response?: {
+        data?: {
+          code?: ErrorCode;
+          error?: { code?: ErrorCode; message?: string };
+          message?: string;
+          retryAfter?: number;
+        };
+      };
     };
@@ -0,0 +1,2 @@
+export * from "./useCountdown.js";
+export * from "./useGameEvents.js";
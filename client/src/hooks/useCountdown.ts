@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Counts down from `seconds` once per second, e.g. to show a server's `retryAfter`.
+ * Restarts whenever `seconds` changes; returns 0 when idle or finished.
+ */
+export const useCountdown = (seconds: number) => {
+  const [remaining, setRemaining] = useState(seconds);
+
+  useEffect(() => {
+    setRemaining(seconds);
+    if (seconds <= 0) return;
+
+    const interval = setInterval(() => {
+      setRemaining((prev) => {
+        if (prev <= 1) clearInterval(interval);
+        return Math.max(prev - 1, 0);
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [seconds]);
+
+  return remaining;
+};
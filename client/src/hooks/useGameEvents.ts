@@ -0,0 +1,50 @@
+import { Dispatch, useEffect } from "react";
+
+import { ActionType } from "@/context/types";
+import { setGameState } from "@/utils";
+import { apiRoutes } from "@shared/contract";
+import { GameEvent } from "@shared/types/GameEvent";
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/**
+ * Subscribes to GET /api/events for the current key asset and dispatches SET_GAME_STATE whenever the
+ * server broadcasts a change. Reconnects with exponential backoff (1s, 2s, 4s, ... up to 30s).
+ */
+export const useGameEvents = (dispatch: Dispatch<ActionType> | null, enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let eventSource: EventSource | undefined;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+
+    const connect = () => {
+      // the interactive params the iframe was opened with are the same ones the server needs to authenticate
+      eventSource = new EventSource(`/api${apiRoutes.getEvents.path}${window.location.search}`);
+
+      eventSource.onopen = () => {
+        attempts = 0;
+      };
+
+      eventSource.onmessage = (message) => {
+        const event: GameEvent = JSON.parse(message.data);
+        if (event.type === "game-state") setGameState(dispatch, event.gameState);
+      };
+
+      eventSource.onerror = () => {
+        eventSource?.close();
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts += 1;
+        reconnectTimeout = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(reconnectTimeout);
+      eventSource?.close();
+    };
+  }, [dispatch, enabled]);
+};
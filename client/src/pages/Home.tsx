@@ -1,42 +1,88 @@
-import { useContext, useEffect, useState } from "react";
+import { useCallback, useContext, useEffect, useState } from "react";
 
 // components
-import { PageContainer } from "@/components";
+import { Badges, Leaderboard, PageContainer } from "@/components";
 
 // context
 import { GlobalDispatchContext, GlobalStateContext } from "@/context/GlobalContext";
 import { ErrorType } from "@/context/types";
 
+// hooks
+import { useCountdown, useGameEvents } from "@/hooks";
+
 // utils
-import { backendAPI, setErrorMessage, setGameState } from "@/utils";
+import { apiClient, setErrorMessage, setGameState } from "@/utils";
 
 export const Home = () => {
   const dispatch = useContext(GlobalDispatchContext);
-  const { droppedAsset, hasInteractiveParams } = useContext(GlobalStateContext);
+  const { droppedAsset, hasInteractiveParams, isLeaderboardEnabled } = useContext(GlobalStateContext);
   const imgSrc = droppedAsset?.topLayerURL || droppedAsset?.bottomLayerURL;
 
   const [isLoading, setIsLoading] = useState(true);
+  const [isCompleting, setIsCompleting] = useState(false);
+  const [retryAfter, setRetryAfter] = useState(0);
+  const secondsUntilRetry = useCountdown(retryAfter);
+
+  useGameEvents(dispatch, !!hasInteractiveParams);
+
+  const getGameState = useCallback(() => {
+    apiClient
+      .getGameState()
+      .then((gameState) => {
+        setRetryAfter(0);
+        setGameState(dispatch, gameState);
+      })
+      .catch((error) => {
+        if (setErrorMessage(dispatch, error as ErrorType) === "RATE_LIMITED") {
+          setRetryAfter(error.response?.data?.retryAfter || 0);
+        }
+      })
+      .finally(() => setIsLoading(false));
+  }, [dispatch]);
+
+  const handleCompleteTask = () => {
+    setIsCompleting(true);
+
+    apiClient
+      .completeTask()
+      .then(({ visitorData }) => setGameState(dispatch, { visitorData }))
+      .catch((error) => setErrorMessage(dispatch, error as ErrorType))
+      .finally(() => setIsCompleting(false));
+  };
 
   useEffect(() => {
-    if (hasInteractiveParams) {
-      backendAPI
-        .get("/game-state")
-        .then((response) => {
-          setGameState(dispatch, response.data);
-        })
-        .catch((error) => setErrorMessage(dispatch, error as ErrorType))
-        .finally(() => setIsLoading(false));
-    }
-  }, [hasInteractiveParams]);
+    if (hasInteractiveParams) getGameState();
+  }, [getGameState, hasInteractiveParams]);
+
+  useEffect(() => {
+    if (retryAfter <= 0) return;
+
+    // try again automatically once the rate limit window has passed. Resetting retryAfter first means
+    // another 429 with the same retryAfter still schedules the next attempt
+    const timeout = setTimeout(() => {
+      setRetryAfter(0);
+      getGameState();
+    }, retryAfter * 1000);
+
+    return () => clearTimeout(timeout);
+  }, [getGameState, retryAfter]);
 
   return (
     <PageContainer isLoading={isLoading} headerText="Server side example using interactive parameters">
+      {secondsUntilRetry > 0 && (
+        <p className="p2 mt-4">You're doing that too often. Trying again in {secondsUntilRetry}s...</p>
+      )}
       {droppedAsset?.id && (
         <div className="flex flex-col w-full items-start">
           <p className="mt-4 mb-2">
             You have successfully retrieved the dropped asset details for {droppedAsset.assetName}!
           </p>
           {imgSrc && <img className="w-96 h-96 object-cover rounded-2xl my-4" alt="preview" src={imgSrc} />}
+          <button className="btn" disabled={isCompleting} onClick={handleCompleteTask}>
+            Complete Task
+          </button>
+          <Badges />
+          {isLeaderboardEnabled && <Leaderboard />}
         </div>
       )}
     </PageContainer>
@@ -0,0 +1,39 @@
+import { apiRoutes, ApiRoutes, JsonRouteName, RequestArgs, ResponseOf } from "@shared/contract";
+import { backendAPI } from "./backendAPI";
+
+type ApiClient = {
+  [K in JsonRouteName]: (...args: RequestArgs<ApiRoutes[K]>) => Promise<ResponseOf<ApiRoutes[K]>>;
+};
+
+/**
+ * Typed wrapper around backendAPI with one method per route in the shared contract, e.g.
+ * `apiClient.fireToast({ body: { title: "Hi" } })`. Responses are validated against the contract so
+ * a server change that breaks the shape fails loudly here instead of deep inside a component.
+ */
+// fromEntries only knows string keys, and its index signature stops overlapping ApiClient once routes differ in
+// which inputs they require, hence the cast through unknown
+export const apiClient = Object.fromEntries(
+  Object.entries(apiRoutes)
+    .filter(([, route]) => !("stream" in route))
+    .map(([name, route]) => [
+      name,
+      async ({
+        params,
+        query,
+        body,
+      }: { params?: Record<string, string | number>; query?: object; body?: object } = {}) => {
+        const url = route.path.replace(/:(\w+)/g, (_, name) => encodeURIComponent(String(params?.[name])));
+
+        // read backendAPI on every call since setupBackendAPI replaces it once interactive params are known
+        const response = await backendAPI.request({ method: route.method, url, params: query, data: body });
+
+        const result = route.response.parse(response.data);
+        if (!result.success) {
+          throw new Error(
+            `Unexpected response from ${route.path}: ${result.issues.map(({ message }) => message).join(", ")}`,
+          );
+        }
+        return result.data;
+      },
+    ]),
+) as unknown as ApiClient;
@@ -27,6 +27,8 @@ const setupBackendAPI = async (interactiveParams: InteractiveParams) => {
       config.params["urlSlug"] = interactiveParams.urlSlug;
       config.params["username"] = interactiveParams.username;
       config.params["visitorId"] = interactiveParams.visitorId;
+      // daily limits and streaks roll over at the visitor's midnight, not the server's
+      config.params["timezone"] = Intl.DateTimeFormat().resolvedOptions().timeZone;
       return config;
     });
   }
@@ -1,3 +1,4 @@
+export * from "./apiClient.js";
 export * from "./backendAPI.js";
 export * from "./setErrorMessage.js";
 export * from "./setGameState.js";
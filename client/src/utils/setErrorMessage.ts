@@ -1,27 +1,28 @@
-import { ActionType, SET_ERROR } from "@/context/types";
+import { ActionType, ErrorType, SET_ERROR } from "@/context/types";
+import { ErrorCode } from "@shared/types/ApiError";
 import { Dispatch } from "react";
 
-export const setErrorMessage = (
-  dispatch: Dispatch<ActionType> | null,
-  error:
-    | string
-    | {
-        message?: string;
-        response?: { data?: { error?: { message?: string }; message?: string } };
-      },
-) => {
+/**
+ * Dispatches a readable error message and returns the server's error code (if any)
+ * so callers can branch on it, e.g. `if (code === "FORBIDDEN") ...`
+ */
+export const setErrorMessage = (dispatch: Dispatch<ActionType> | null, error: ErrorType): ErrorCode | undefined => {
   console.error(error);
 
-  if (!dispatch) return;
-
   let message = error;
+  let errorCode: ErrorCode | undefined;
 
   if (typeof error !== "string") {
     message = error.response?.data?.error?.message || error.response?.data?.message || error.message || error;
+    errorCode = error.response?.data?.code || error.response?.data?.error?.code;
   }
 
+  if (!dispatch) return errorCode;
+
   dispatch({
     type: SET_ERROR,
-    payload: { error: error === "" ? error : `Error: ${JSON.stringify(message)}` },
+    payload: { error: error === "" ? error : `Error: ${JSON.stringify(message)}`, errorCode },
   });
+
+  return errorCode;
 };
@@ -0,0 +1,70 @@
+/**
+ * Measures what the Topia read cache saves on the reads behind an admin-checked GET /api/game-state,
+ * against the offline simulator with a simulated round trip to Topia.
+ *
+ *   npm run benchmark:cache                 # 50 requests, 25ms per round trip
+ *   npm run benchmark:cache -- 200 40       # 200 requests, 40ms per round trip
+ */
+
+// must be set before topiaInit is loaded, so the factories are backed by the simulator
+process.env.TOPIA_SIMULATOR = "true";
+
+async function main() {
+  const [requestCount = 50, latencyMs = 25] = process.argv.slice(2).map(Number);
+
+  const { getDroppedAsset, getVisitor, runWithTopiaCacheScope, topiaCache, topiaCacheConfig, Visitor } = await import(
+    "../server/utils/index.js"
+  );
+  const { SIMULATOR_KEY_ASSET_ID, SIMULATOR_VISITOR_ID, SIMULATOR_WORLD_SLUG, topiaSimulator } = await import(
+    "../server/utils/topiaSimulator/index.js"
+  );
+
+  const urlSlug = process.env.DEVELOPMENT_WORLD_SLUG || SIMULATOR_WORLD_SLUG;
+  const credentials = {
+    assetId: SIMULATOR_KEY_ASSET_ID,
+    interactiveNonce: "benchmark",
+    interactivePublicKey: process.env.INTERACTIVE_KEY!,
+    urlSlug,
+    visitorId: SIMULATOR_VISITOR_ID,
+  } as Parameters<typeof getVisitor>[0];
+
+  // the same reads requireAdmin and handleGetGameState make
+  const readGameState = () =>
+    runWithTopiaCacheScope(async () => {
+      await Visitor.get(credentials.visitorId, urlSlug, { credentials });
+      await getDroppedAsset(credentials);
+      await getVisitor(credentials);
+    });
+
+  const run = async (enabled: boolean) => {
+    topiaCacheConfig.enabled = enabled;
+    topiaCache.clear();
+    topiaSimulator.latencyMs = latencyMs;
+    topiaSimulator.reads = 0;
+
+    const start = performance.now();
+    for (let i = 0; i < requestCount; i++) await readGameState();
+    const elapsedMs = performance.now() - start;
+
+    return {
+      "cache": enabled ? "on" : "off",
+      "ms per request": Number((elapsedMs / requestCount).toFixed(1)),
+      "round trips per request": Number((topiaSimulator.reads / requestCount).toFixed(2)),
+      ...(enabled && topiaCache.getStats()),
+    };
+  };
+
+  const results = [await run(false), await run(true)];
+
+  console.log(`\n${requestCount} requests with ${latencyMs}ms per round trip:\n`);
+  console.table(results);
+
+  const [uncached, cached] = results;
+  const saved = 1 - cached["ms per request"] / uncached["ms per request"];
+  console.log(`\nThe cache cuts the time per request by ${Math.round(saved * 100)}%.\n`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+/**
+ * Applies a world seed manifest to DEVELOPMENT_WORLD_SLUG.
+ *
+ *   npm run seed -- scripts/world-seed.example.yaml             # create or update the manifest's assets
+ *   npm run seed -- scripts/world-seed.example.yaml --dry-run   # print the plan without changing the world
+ *   npm run seed -- scripts/world-seed.example.yaml --teardown  # remove every asset the manifest created
+ */
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { getDevCredentials } from "../server/utils/getDevCredentials.js";
+import {
+  applyWorldSeedChanges,
+  fetchExistingSeededAssets,
+  formatWorldSeedPlan,
+  parseWorldSeedManifest,
+  planWorldSeed,
+  planWorldTeardown,
+} from "../server/utils/worldSeed/index.js";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const manifestPath = args.find((arg) => !arg.startsWith("--"));
+  const isDryRun = args.includes("--dry-run");
+  const isTeardown = args.includes("--teardown");
+
+  if (!manifestPath) {
+    console.error("Usage: npm run seed -- <manifest.yaml|manifest.json> [--dry-run] [--teardown]");
+    process.exit(1);
+  }
+
+  // npm runs this from server/, so relative paths are resolved against where the command was typed
+  const fullPath = resolve(process.env.INIT_CWD || process.cwd(), manifestPath);
+  const manifest = parseWorldSeedManifest(readFileSync(fullPath, "utf-8"), fullPath);
+
+  const credentials = getDevCredentials();
+  const existing = await fetchExistingSeededAssets(manifest, credentials);
+  const changes = isTeardown ? planWorldTeardown(manifest, existing) : planWorldSeed(manifest, existing);
+
+  console.log(`\n${isTeardown ? "Teardown" : "Seed"} plan for ${credentials.urlSlug}:\n`);
+  console.log(changes.length > 0 ? formatWorldSeedPlan(changes) : "Nothing to do.");
+
+  if (isDryRun) {
+    console.log("\nDry run, nothing was changed.");
+    return;
+  }
+
+  await applyWorldSeedChanges(changes, credentials);
+  console.log("\n✅ Done.");
+}
+
+main().catch((error) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+// Embeds the app version, commit and build time into the compiled server so /api/system/ready
+// can report them no matter which directory the server is started from.
+
+import { execSync } from "child_process";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = resolve(__dirname, "..");
+
+// tsc keeps the repo layout under dist because the server also compiles ../shared
+const candidates = [
+  resolve(ROOT, "server/dist/server/utils/buildInfo.js"),
+  resolve(ROOT, "server/dist/utils/buildInfo.js"),
+];
+const target = candidates.find((path) => existsSync(path));
+
+if (!target) {
+  console.error("❌ Compiled buildInfo.js not found. Run this after `tsc`.");
+  process.exit(1);
+}
+
+function getCommit() {
+  if (process.env.GIT_COMMIT) return process.env.GIT_COMMIT;
+  try {
+    return execSync("git rev-parse --short HEAD", { cwd: ROOT, stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch {
+    return "";
+  }
+}
+
+const { version } = JSON.parse(readFileSync(resolve(ROOT, "package.json"), "utf-8"));
+const buildInfo = { version, commit: getCommit(), builtAt: new Date().toISOString() };
+
+writeFileSync(target, `export const buildInfo = ${JSON.stringify(buildInfo, null, 2)};\n`);
+console.log(`✅ Embedded build info in ${target}: ${version} ${buildInfo.commit}`);
@@ -0,0 +1,27 @@
+import { Request, Response } from "express";
+import { errorHandler, DroppedAsset, invalidateDroppedAsset } from "../../utils/index.js";
+import { getDevCredentials } from "../../utils/getDevCredentials.js";
+
+export const handleDevDeleteDroppedAsset = async (req: Request, res: Response) => {
+  try {
+    const credentials = getDevCredentials();
+    const { urlSlug } = credentials;
+
+    const { droppedAssetId } = req.params;
+
+    // fetched first so a wrong id is a 404 rather than a silent no-op
+    const droppedAsset = await DroppedAsset.get(droppedAssetId, urlSlug, { credentials });
+    await droppedAsset.deleteDroppedAsset();
+    invalidateDroppedAsset(urlSlug, droppedAssetId);
+
+    return res.json({ success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleDevDeleteDroppedAsset",
+      message: "Error deleting dropped asset in dev world",
+      req,
+      res,
+    });
+  }
+};
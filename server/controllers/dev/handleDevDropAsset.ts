@@ -1,5 +1,5 @@
 import { Request, Response } from "express";
-import { errorHandler, Asset, DroppedAsset } from "../../utils/index.js";
+import { errorHandler, serializeDroppedAsset, Asset, DroppedAsset } from "../../utils/index.js";
 import { getDevCredentials } from "../../utils/getDevCredentials.js";
 
 export const handleDevDropAsset = async (req: Request, res: Response) => {
@@ -7,15 +7,9 @@ export const handleDevDropAsset = async (req: Request, res: Response) => {
     const credentials = getDevCredentials();
     const { urlSlug } = credentials;
 
+    // validated by validateRequest(devApiRoutes.dropAsset)
     const { position, layer0, layer1, uniqueName, clickableLink, sceneDropId } = req.body;
 
-    if (!position || typeof position.x !== "number" || typeof position.y !== "number") {
-      return res.status(400).json({
-        success: false,
-        message: "position.x and position.y (numbers) are required.",
-      });
-    }
-
     const asset = await Asset.create("webImageAsset", { credentials });
 
     const droppedAsset = await DroppedAsset.drop(asset, {
@@ -32,11 +26,7 @@ export const handleDevDropAsset = async (req: Request, res: Response) => {
 
     return res.json({
       success: true,
-      droppedAsset: {
-        id: (droppedAsset as any).id,
-        position: (droppedAsset as any).position,
-        uniqueName: (droppedAsset as any).uniqueName,
-      },
+      droppedAsset: serializeDroppedAsset(droppedAsset),
     });
   } catch (error) {
     return errorHandler({
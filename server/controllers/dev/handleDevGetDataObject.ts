@@ -0,0 +1,25 @@
+import { Request, Response } from "express";
+import { errorHandler, getDataObjectEntity, DataObjectOwner } from "../../utils/index.js";
+import { getDevCredentials } from "../../utils/getDevCredentials.js";
+
+export const handleDevGetDataObject = async (req: Request, res: Response) => {
+  try {
+    const credentials = getDevCredentials();
+
+    // validated by validateRequest(devApiRoutes.getDataObject)
+    const { entityType, entityId } = req.params as { entityType: DataObjectOwner; entityId: string };
+
+    const entity = getDataObjectEntity(entityType, entityId, credentials);
+    await entity.fetchDataObject();
+
+    return res.json({ success: true, dataObject: entity.dataObject || {} });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleDevGetDataObject",
+      message: "Error fetching data object",
+      req,
+      res,
+    });
+  }
+};
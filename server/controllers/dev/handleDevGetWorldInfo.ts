@@ -1,5 +1,5 @@
 import { Request, Response } from "express";
-import { errorHandler, World } from "../../utils/index.js";
+import { errorHandler, serializeWorld, World } from "../../utils/index.js";
 import { getDevCredentials } from "../../utils/getDevCredentials.js";
 
 export const handleDevGetWorldInfo = async (req: Request, res: Response) => {
@@ -12,11 +12,7 @@ export const handleDevGetWorldInfo = async (req: Request, res: Response) => {
 
     return res.json({
       success: true,
-      world: {
-        name: (world as any).name,
-        urlSlug: (world as any).urlSlug,
-        description: (world as any).description,
-      },
+      world: serializeWorld(world),
     });
   } catch (error) {
     return errorHandler({
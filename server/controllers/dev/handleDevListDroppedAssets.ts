@@ -0,0 +1,36 @@
+import { Request, Response } from "express";
+import { DroppedAssetInterface } from "@rtsdk/topia";
+import { errorHandler, serializeDroppedAsset, World } from "../../utils/index.js";
+import { getDevCredentials } from "../../utils/getDevCredentials.js";
+
+export const handleDevListDroppedAssets = async (req: Request, res: Response) => {
+  try {
+    const credentials = getDevCredentials();
+    const { urlSlug } = credentials;
+
+    const { isPartial, uniqueName } = req.query as { isPartial?: boolean; uniqueName?: string };
+
+    const world = World.create(urlSlug, { credentials });
+
+    let droppedAssets: DroppedAssetInterface[];
+    if (uniqueName) {
+      droppedAssets = await world.fetchDroppedAssetsWithUniqueName({ uniqueName, isPartial: Boolean(isPartial) });
+    } else {
+      await world.fetchDroppedAssets();
+      droppedAssets = Object.values(world.droppedAssets || {});
+    }
+
+    return res.json({
+      success: true,
+      droppedAssets: droppedAssets.map(serializeDroppedAsset),
+    });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleDevListDroppedAssets",
+      message: "Error listing dropped assets in dev world",
+      req,
+      res,
+    });
+  }
+};
@@ -0,0 +1,27 @@
+import { Request, Response } from "express";
+import { VisitorInterface } from "@rtsdk/topia";
+import { errorHandler, serializeVisitor, WorldActivity } from "../../utils/index.js";
+import { getDevCredentials } from "../../utils/getDevCredentials.js";
+
+export const handleDevListVisitors = async (req: Request, res: Response) => {
+  try {
+    const credentials = getDevCredentials();
+    const { urlSlug } = credentials;
+
+    const worldActivity = WorldActivity.create(urlSlug, { credentials });
+    const visitors: { [visitorId: string]: VisitorInterface } = await worldActivity.currentVisitors();
+
+    return res.json({
+      success: true,
+      visitors: Object.values(visitors).map(serializeVisitor),
+    });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleDevListVisitors",
+      message: "Error listing visitors in dev world",
+      req,
+      res,
+    });
+  }
+};
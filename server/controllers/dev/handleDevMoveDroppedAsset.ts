@@ -0,0 +1,32 @@
+import { Request, Response } from "express";
+import { errorHandler, serializeDroppedAsset, DroppedAsset, invalidateDroppedAsset } from "../../utils/index.js";
+import { getDevCredentials } from "../../utils/getDevCredentials.js";
+
+export const handleDevMoveDroppedAsset = async (req: Request, res: Response) => {
+  try {
+    const credentials = getDevCredentials();
+    const { urlSlug } = credentials;
+
+    // validated by validateRequest(devApiRoutes.moveDroppedAsset)
+    const { droppedAssetId } = req.params;
+    const { x, y } = req.body;
+
+    const droppedAsset = await DroppedAsset.get(droppedAssetId, urlSlug, { credentials });
+    await droppedAsset.updatePosition(x, y);
+    invalidateDroppedAsset(urlSlug, droppedAssetId);
+    await droppedAsset.fetchDroppedAssetById();
+
+    return res.json({
+      success: true,
+      droppedAsset: serializeDroppedAsset(droppedAsset),
+    });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleDevMoveDroppedAsset",
+      message: "Error moving dropped asset in dev world",
+      req,
+      res,
+    });
+  }
+};
@@ -0,0 +1,30 @@
+import { Request, Response } from "express";
+import { errorHandler, getDataObjectEntity, DataObjectOwner } from "../../utils/index.js";
+import { getDevCredentials } from "../../utils/getDevCredentials.js";
+
+export const handleDevSetDataObject = async (req: Request, res: Response) => {
+  try {
+    const credentials = getDevCredentials();
+
+    // validated by validateRequest(devApiRoutes.setDataObject)
+    const { entityType, entityId } = req.params as { entityType: DataObjectOwner; entityId: string };
+    const { dataObject } = req.body;
+
+    const entity = getDataObjectEntity(entityType, entityId, credentials);
+
+    // fetched first so a wrong id is a 404 rather than creating a data object for nothing
+    await entity.fetchDataObject();
+    await entity.setDataObject(dataObject);
+    await entity.fetchDataObject();
+
+    return res.json({ success: true, dataObject: entity.dataObject || {} });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleDevSetDataObject",
+      message: "Error overwriting data object",
+      req,
+      res,
+    });
+  }
+};
@@ -1,2 +1,8 @@
+export * from "./handleDevDeleteDroppedAsset.js";
 export * from "./handleDevDropAsset.js";
+export * from "./handleDevGetDataObject.js";
 export * from "./handleDevGetWorldInfo.js";
+export * from "./handleDevListDroppedAssets.js";
+export * from "./handleDevListVisitors.js";
+export * from "./handleDevMoveDroppedAsset.js";
+export * from "./handleDevSetDataObject.js";
@@ -0,0 +1,20 @@
+import { Request, Response } from "express";
+import { errorHandler, getCredentials, getScheduler, serializeScheduledJob } from "../utils/index.js";
+
+export const handleCancelScheduledJob = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+
+    const job = await getScheduler().cancelJob(credentials, req.params.jobId);
+
+    return res.json({ job: serializeScheduledJob(job), success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleCancelScheduledJob",
+      message: "Error cancelling scheduled job",
+      req,
+      res,
+    });
+  }
+};
@@ -0,0 +1,48 @@
+import { Request, Response } from "express";
+import { Credentials, IVisitor } from "../types/index.js";
+import { errorHandler, evaluateBadges, grantXp, trackEvent, withAnalytics, World } from "../utils/index.js";
+
+export const handleCompleteTask = async (req: Request, res: Response) => {
+  try {
+    // dailyLimit has already counted the completion towards the visitor's day and streak
+    const credentials: Credentials = res.locals.credentials;
+    const visitor: IVisitor = res.locals.visitor;
+
+    await trackEvent("players", { credentials });
+    await trackEvent("completions", { credentials });
+    await visitor.incrementDataObjectValue("completedCount", 1, withAnalytics());
+    const { leveledUp } = await grantXp({ action: "task-completed", credentials, visitor });
+
+    await evaluateBadges({ credentials, visitor, event: { type: "task-completed" } }).catch((error) =>
+      errorHandler({
+        error,
+        functionName: "handleCompleteTask",
+        message: "Error awarding badges",
+      }),
+    );
+
+    // grantXp already toasted the level up, so the world only hears about one of them
+    if (!leveledUp) {
+      const world = World.create(credentials.urlSlug, { credentials });
+      await world
+        .fireToast({ title: "Nice Work!", text: "You've successfully completed the task!" })
+        .catch((error: any) =>
+          errorHandler({
+            error,
+            functionName: "handleCompleteTask",
+            message: "Error firing toast in world",
+          }),
+        );
+    }
+
+    return res.json({ visitorData: visitor.dataObject, success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleCompleteTask",
+      message: "Error completing task",
+      req,
+      res,
+    });
+  }
+};
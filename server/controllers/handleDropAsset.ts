@@ -0,0 +1,53 @@
+import { Request, Response } from "express";
+import {
+  errorHandler,
+  getCredentials,
+  getDroppedAsset,
+  publishGameState,
+  serializeDroppedAsset,
+  Asset,
+  DroppedAsset,
+} from "../utils/index.js";
+
+export const handleDropAsset = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+    const { assetId, interactivePublicKey, sceneDropId, urlSlug } = credentials;
+
+    const droppedAsset = await getDroppedAsset(credentials);
+    const { position, uniqueName } = droppedAsset;
+
+    // create an asset instance from the same asset the key asset was dropped from
+    const asset = await Asset.create(droppedAsset.assetId!, { credentials });
+
+    // copies share the key asset's uniqueName (or fall back to its id) so they can be removed together later
+    const newDroppedAsset = await DroppedAsset.drop(asset, {
+      isInteractive: true,
+      interactivePublicKey,
+      layer0: droppedAsset.bottomLayerURL,
+      layer1: droppedAsset.topLayerURL,
+      position: {
+        x: (position?.x || 0) + Math.floor(Math.random() * 400) - 200,
+        y: (position?.y || 0) + Math.floor(Math.random() * 400) - 200,
+      },
+      ...(sceneDropId && { sceneDropId }),
+      uniqueName: uniqueName || assetId,
+      urlSlug,
+    });
+
+    await droppedAsset.incrementDataObjectValue("droppedAssetCount", 1);
+
+    await droppedAsset.fetchDataObject();
+    await publishGameState(credentials, { droppedAsset: serializeDroppedAsset(droppedAsset) });
+
+    return res.json({ droppedAsset: serializeDroppedAsset(newDroppedAsset), success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleDropAsset",
+      message: "Error dropping asset",
+      req,
+      res,
+    });
+  }
+};
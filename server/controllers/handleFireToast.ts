@@ -0,0 +1,25 @@
+import { Request, Response } from "express";
+import { errorHandler, getCredentials, World } from "../utils/index.js";
+
+export const handleFireToast = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+    const { urlSlug } = credentials;
+
+    // validated by validateRequest(apiRoutes.fireToast)
+    const { groupId, title, text } = req.body;
+
+    const world = World.create(urlSlug, { credentials });
+    await world.fireToast({ ...(groupId && { groupId }), title, text: text || "" });
+
+    return res.json({ success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleFireToast",
+      message: "Error firing toast in world",
+      req,
+      res,
+    });
+  }
+};
@@ -0,0 +1,22 @@
+import { Request, Response } from "express";
+import { errorHandler, getCredentials, listBadges, Visitor } from "../utils/index.js";
+
+export const handleGetBadges = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+    const { urlSlug, visitorId } = credentials;
+
+    const visitor = Visitor.create(visitorId, urlSlug, { credentials });
+    const badges = await listBadges(credentials, visitor);
+
+    return res.json({ badges, success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleGetBadges",
+      message: "Error getting badges",
+      req,
+      res,
+    });
+  }
+};
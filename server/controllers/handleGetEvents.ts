@@ -0,0 +1,62 @@
+import { Request, Response } from "express";
+import { GameEvent } from "../types/index.js";
+import { errorHandler, getCredentials, getEventBus, getEventChannel, Visitor } from "../utils/index.js";
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export const handleGetEvents = async (req: Request, res: Response) => {
+  let isClosed = false;
+  let heartbeat: NodeJS.Timeout | undefined;
+  let unsubscribe: (() => Promise<void>) | undefined;
+
+  const release = (unsubscribe: () => Promise<void>) =>
+    unsubscribe().catch((error) =>
+      errorHandler({
+        error,
+        functionName: "handleGetEvents",
+        message: "Error unsubscribing from game events",
+      }),
+    );
+
+  // registered before anything is awaited, so a client that leaves mid-subscribe isn't left subscribed
+  req.on("close", () => {
+    isClosed = true;
+    clearInterval(heartbeat);
+    if (unsubscribe) release(unsubscribe);
+  });
+
+  try {
+    // validated by validateRequest(apiRoutes.getEvents), so assetId is present
+    const credentials = getCredentials(req.query);
+    const { urlSlug, visitorId } = credentials;
+
+    // the public key alone proves nothing, so the visitor and nonce are confirmed with Topia before subscribing.
+    // Visitor reads aren't cached across requests, so this always reaches Topia
+    await Visitor.get(visitorId, urlSlug, { credentials });
+
+    const send = (event: GameEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+    const subscription = await getEventBus().subscribe(getEventChannel(credentials), send);
+    if (isClosed) return release(subscription);
+    unsubscribe = subscription;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      // stops nginx and similar proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    send({ type: "connected", timestamp: Date.now() });
+
+    // comments keep idle connections from being closed by proxies and load balancers
+    heartbeat = setInterval(() => res.write(":heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleGetEvents",
+      message: "Error subscribing to game events",
+      req,
+      res,
+    });
+  }
+};
@@ -1,12 +1,22 @@
 import { Request, Response } from "express";
-import { errorHandler, getCredentials, getDroppedAsset, Visitor, World } from "../utils/index.js";
-import { VisitorInterface } from "@rtsdk/topia";
-import axios from "axios";
+import {
+  errorHandler,
+  getCredentials,
+  getDroppedAsset,
+  getScheduler,
+  getVisitor,
+  leaderboardClient,
+  serializeDroppedAsset,
+  World,
+} from "../utils/index.js";
 
 export const handleGetGameState = async (req: Request, res: Response) => {
   try {
     const credentials = getCredentials(req.query);
-    const { assetId, displayName, interactiveNonce, interactivePublicKey, profileId, urlSlug, visitorId } = credentials;
+    const { urlSlug } = credentials;
+
+    // after a restart, the scheduler only finds a world's jobs again once the world is in use
+    getScheduler().watchWorld(credentials);
 
     const droppedAsset = await getDroppedAsset(credentials);
 
@@ -19,37 +29,16 @@ export const handleGetGameState = async (req: Request, res: Response) => {
       }),
     );
 
-    const visitor: VisitorInterface = await Visitor.get(visitorId, urlSlug, { credentials });
+    const visitor = await getVisitor(credentials);
     const { isAdmin } = visitor;
 
-    try {
-      await axios.post(
-        `${process.env.LEADERBOARD_BASE_URL || "http://v2lboard0-prod-topia.topia-rtsdk.com"}/api/dropped-asset/increment-player-stats?assetId=${assetId}&displayName=${displayName}&interactiveNonce=${interactiveNonce}&interactivePublicKey=${interactivePublicKey}&profileId=${profileId}&urlSlug=${urlSlug}&visitorId=${visitorId}`,
-        {
-          publicKey: interactivePublicKey,
-          secret: process.env.INTERACTIVE_SECRET,
-          profileId,
-          displayName,
-          incrementBy: 1,
-        },
-      );
-    } catch (error) {
-      errorHandler({
-        error,
-        functionName: "handleGetGameState",
-        message: "Error posting player stats to Leaderboard",
-      });
-    }
-
-    await world.fireToast({ title: "Nice Work!", text: "You've successfully completed the task!" }).catch((error) =>
-      errorHandler({
-        error,
-        functionName: "handleGetGameState",
-        message: "Error firing toast in world",
-      }),
-    );
-
-    return res.json({ droppedAsset, isAdmin, success: true });
+    return res.json({
+      droppedAsset: serializeDroppedAsset(droppedAsset),
+      isAdmin,
+      isLeaderboardEnabled: leaderboardClient.isConfigured,
+      visitorData: visitor.dataObject,
+      success: true,
+    });
   } catch (error) {
     return errorHandler({
       error,
@@ -0,0 +1,23 @@
+import { Request, Response } from "express";
+import { errorHandler, getCredentials, leaderboardClient } from "../utils/index.js";
+
+export const handleGetLeaderboard = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+
+    // validateRequest(apiRoutes.getLeaderboard) has already coerced limit to a positive integer
+    const limit = Math.min(Number(req.query.limit) || 10, 100);
+
+    const leaderboard = await leaderboardClient.getTopPlayers({ credentials, limit });
+
+    return res.json({ leaderboard, success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleGetLeaderboard",
+      message: "Error getting leaderboard",
+      req,
+      res,
+    });
+  }
+};
@@ -0,0 +1,18 @@
+import { Request, Response } from "express";
+import { checkReadiness, errorHandler } from "../utils/index.js";
+
+export const handleGetReadiness = async (req: Request, res: Response) => {
+  try {
+    const report = await checkReadiness();
+
+    return res.status(report.status === "ready" ? 200 : 503).json(report);
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleGetReadiness",
+      message: "Error checking readiness",
+      req,
+      res,
+    });
+  }
+};
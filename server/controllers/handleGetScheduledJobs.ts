@@ -0,0 +1,20 @@
+import { Request, Response } from "express";
+import { errorHandler, getCredentials, getScheduler, serializeScheduledJob } from "../utils/index.js";
+
+export const handleGetScheduledJobs = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+
+    const jobs = await getScheduler().listJobs(credentials);
+
+    return res.json({ jobs: jobs.map(serializeScheduledJob), success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleGetScheduledJobs",
+      message: "Error getting scheduled jobs",
+      req,
+      res,
+    });
+  }
+};
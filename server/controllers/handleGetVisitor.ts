@@ -0,0 +1,20 @@
+import { Request, Response } from "express";
+import { errorHandler, getCredentials, getVisitor, serializeVisitor } from "../utils/index.js";
+
+export const handleGetVisitor = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+
+    const visitor = await getVisitor(credentials);
+
+    return res.json({ visitor: serializeVisitor(visitor), visitorData: visitor.dataObject, success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleGetVisitor",
+      message: "Error getting visitor",
+      req,
+      res,
+    });
+  }
+};
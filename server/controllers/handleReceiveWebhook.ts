@@ -0,0 +1,26 @@
+import { Request, Response } from "express";
+import { dispatchWebhookEvent, errorHandler, parseWebhookEvent, verifyWebhookCredentials } from "../utils/index.js";
+import { WebhookEventType } from "../types/index.js";
+
+export const handleReceiveWebhook = async (req: Request, res: Response) => {
+  try {
+    // validated by validateRequest(webhookRoutes.receiveWebhook), so only declared fields are present
+    const event = parseWebhookEvent(req.params.event as WebhookEventType, req.body);
+    res.locals.credentials = event.credentials;
+
+    // no handler runs for credentials Topia hasn't confirmed
+    await verifyWebhookCredentials(event.credentials);
+
+    const { duplicate, handlerCount } = await dispatchWebhookEvent(event);
+
+    return res.json({ duplicate, handlerCount, success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleReceiveWebhook",
+      message: `Error handling ${req.params.event} webhook`,
+      req,
+      res,
+    });
+  }
+};
@@ -0,0 +1,52 @@
+import { Request, Response } from "express";
+import { DroppedAssetInterface } from "@rtsdk/topia";
+import {
+  errorHandler,
+  getCredentials,
+  getDroppedAsset,
+  invalidateDroppedAsset,
+  publishGameState,
+  serializeDroppedAsset,
+  World,
+} from "../utils/index.js";
+
+export const handleRemoveDroppedAssetsByUniqueName = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+    const { assetId, urlSlug } = credentials;
+
+    const droppedAsset = await getDroppedAsset(credentials);
+    const uniqueName = droppedAsset.uniqueName || assetId;
+
+    const world = World.create(urlSlug, { credentials });
+    const droppedAssets: DroppedAssetInterface[] = await world.fetchDroppedAssetsWithUniqueName({
+      uniqueName,
+      isPartial: false,
+    });
+
+    // never remove the key asset that opens the app
+    const droppedAssetIds = droppedAssets
+      .map(({ id }) => id)
+      .filter((id): id is string => typeof id === "string" && id !== assetId);
+
+    if (droppedAssetIds.length > 0) {
+      await World.deleteDroppedAssets(urlSlug, droppedAssetIds, process.env.INTERACTIVE_SECRET!, credentials);
+      droppedAssetIds.forEach((id) => invalidateDroppedAsset(urlSlug, id));
+    }
+
+    await droppedAsset.updateDataObject({ droppedAssetCount: 0 });
+
+    await droppedAsset.fetchDataObject();
+    await publishGameState(credentials, { droppedAsset: serializeDroppedAsset(droppedAsset) });
+
+    return res.json({ removedCount: droppedAssetIds.length, success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleRemoveDroppedAssetsByUniqueName",
+      message: "Error removing dropped assets",
+      req,
+      res,
+    });
+  }
+};
@@ -0,0 +1,41 @@
+import { Request, Response } from "express";
+import { errorHandler, evaluateBadges, getCredentials, getVisitor } from "../utils/index.js";
+import { ValidationError } from "../utils/errors.js";
+import { VisitorDataObject } from "../types/index.js";
+
+export const handleUpdateVisitor = async (req: Request, res: Response) => {
+  try {
+    const credentials = getCredentials(req.query);
+
+    // validated by validateRequest(apiRoutes.updateVisitor), so only known fields are present
+    const updates: Partial<VisitorDataObject> = req.body;
+    if (Object.keys(updates).length === 0) throw new ValidationError("At least one field to update is required");
+
+    const visitor = await getVisitor(credentials);
+
+    await visitor.updateDataObject(updates);
+    await visitor.fetchDataObject();
+
+    await evaluateBadges({
+      credentials,
+      visitor,
+      event: { type: "visitor-updated", fields: Object.keys(updates) },
+    }).catch((error) =>
+      errorHandler({
+        error,
+        functionName: "handleUpdateVisitor",
+        message: "Error awarding badges",
+      }),
+    );
+
+    return res.json({ visitorData: visitor.dataObject, success: true });
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "handleUpdateVisitor",
+      message: "Error updating visitor data",
+      req,
+      res,
+    });
+  }
+};
@@ -1 +1,14 @@
+export * from "./handleCancelScheduledJob.js";
+export * from "./handleCompleteTask.js";
+export * from "./handleDropAsset.js";
+export * from "./handleFireToast.js";
+export * from "./handleGetBadges.js";
+export * from "./handleGetEvents.js";
 export * from "./handleGetGameState.js";
+export * from "./handleGetLeaderboard.js";
+export * from "./handleGetReadiness.js";
+export * from "./handleGetScheduledJobs.js";
+export * from "./handleGetVisitor.js";
+export * from "./handleReceiveWebhook.js";
+export * from "./handleRemoveDroppedAssetsByUniqueName.js";
+export * from "./handleUpdateVisitor.js";
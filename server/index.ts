@@ -3,25 +3,35 @@ import cors from "cors";
 import dotenv from "dotenv";
 import router from "./routes.js";
 import path from "path";
-import { cleanReturnPayload } from "./utils/cleanReturnPayload.js";
+import { logger } from "./utils/logger.js";
+import { requestId } from "./middleware/requestId.js";
+import { getScheduler } from "./utils/scheduler/index.js";
+import { captureRawBody } from "./utils/webhooks/index.js";
+import { isTopiaSimulatorEnabled } from "./utils/topiaSimulator/index.js";
 import { fileURLToPath } from "url";
 
 dotenv.config({ path: "../.env" });
 
 function checkEnvVariables() {
+  if (process.env.TOPIA_SIMULATOR === "true" && process.env.NODE_ENV === "production") {
+    throw new Error("TOPIA_SIMULATOR can't be enabled with NODE_ENV=production. Remove it from the .env file.");
+  }
+
   const requiredEnvVariables = ["INTERACTIVE_KEY", "INTERACTIVE_SECRET"];
   const missingVariables = requiredEnvVariables.filter((variable) => !process.env[variable]);
 
   if (missingVariables.length > 0) {
-    if (process.env.NODE_ENV === "development" && process.env.API_KEY) {
-      console.warn(
-        `⚠️  Missing interactive credentials (${missingVariables.join(", ")}). Dev routes will work, but interactive auth will not.`,
-      );
+    if (isTopiaSimulatorEnabled()) {
+      logger.warn("Missing interactive credentials. Running against the Topia simulator.", { missingVariables });
+    } else if (process.env.NODE_ENV === "development" && process.env.API_KEY) {
+      logger.warn("Missing interactive credentials. Dev routes will work, but interactive auth will not.", {
+        missingVariables,
+      });
     } else {
       throw new Error(`Missing required environment variables in the .env file: ${missingVariables.join(", ")}`);
     }
   } else {
-    console.log("All required environment variables provided.");
+    logger.info("All required environment variables provided.");
   }
 }
 checkEnvVariables();
@@ -29,8 +39,9 @@ checkEnvVariables();
 const PORT = process.env.PORT || 3000;
 const app = express();
 
+app.use(requestId);
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: false }));
 app.use("/api", router);
 
@@ -53,24 +64,7 @@ if (process.env.NODE_ENV === "development") {
   });
 }
 
-app.use(function (req, res, next) {
-  const ogSend = res.send;
-  // @ts-ignore
-  res.send = function (data) {
-    if (data) {
-      try {
-        const cleanData = cleanReturnPayload(typeof data === "string" ? JSON.parse(data) : data);
-        res.send = ogSend;
-        return res.send(cleanData);
-      } catch (error) {
-        console.error(error);
-        next();
-      }
-    }
-  };
-  next();
-});
-
 app.listen(PORT, () => {
-  console.log(`Server is running on port: ${PORT}`);
+  logger.info("Server is running", { port: PORT });
+  getScheduler().start();
 });
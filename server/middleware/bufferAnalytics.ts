@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from "express";
+import { TrackedAnalytic } from "../types/index.js";
+import { flushAnalytics, runWithAnalyticsBuffer } from "../utils/analytics/index.js";
+
+/**
+ * Gives each request its own analytics buffer, so trackEvent calls anywhere in the request can ride
+ * along with a data object write via withAnalytics. Events left in the buffer are sent once the
+ * response has ended, whether it succeeded or not.
+ */
+export const bufferAnalytics = (req: Request, res: Response, next: NextFunction) => {
+  const buffer: TrackedAnalytic[] = [];
+  res.on("close", () => void flushAnalytics(buffer.splice(0)));
+  runWithAnalyticsBuffer(buffer, next);
+};
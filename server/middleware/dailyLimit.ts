@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from "express";
+import { errorHandler, getCredentials, getTimezone, getVisitor, recordDailyAction } from "../utils/index.js";
+
+type DailyLimitOptions = {
+  /** Name of the limited action, also the key its count is stored under in the visitor data object */
+  action: string;
+  /** Times the action is allowed per calendar day in the visitor's timezone */
+  limit: number;
+  graceDays?: number;
+  now?: () => number;
+};
+
+/**
+ * Caps how many times a visitor can perform an action per day and keeps their streak up to date.
+ * Days follow the `timezone` the client sends with every request. The result, including the streak,
+ * is left in `res.locals.dailyAction` and the visitor in `res.locals.visitor` for the handler.
+ *
+ * router.post("/collect", dailyLimit({ action: "collect", limit: 10 }), handleCollect);
+ */
+export const dailyLimit = ({ action, limit, graceDays, now }: DailyLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const credentials = res.locals.credentials || getCredentials(req.query);
+      res.locals.credentials = credentials;
+
+      const visitor = res.locals.visitor || (await getVisitor(credentials));
+      res.locals.visitor = visitor;
+
+      res.locals.dailyAction = await recordDailyAction({
+        action,
+        credentials,
+        graceDays,
+        limit,
+        now,
+        timezone: getTimezone(req.query),
+        visitor,
+      });
+
+      next();
+    } catch (error) {
+      return errorHandler({
+        error,
+        functionName: "dailyLimit",
+        message: "Error recording daily action",
+        req,
+        res,
+      });
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from "express";
+import { errorHandler, getCredentials } from "../utils/index.js";
+import { RateLimitError } from "../utils/errors.js";
+import { getRateLimitStore, RateLimitStore } from "../utils/rateLimit/index.js";
+
+type RateLimitOptions = {
+  /** Name of the limited action, part of the key so each action has its own counter */
+  action: string;
+  /** Requests allowed per window. Defaults to 1, which makes the window a cooldown */
+  limit?: number;
+  windowMs: number;
+  store?: RateLimitStore;
+};
+
+/**
+ * Limits how often a visitor can hit a route, keyed on profileId + urlSlug + action. Rejected
+ * requests get a 429 with `retryAfter` (seconds) in the body and a Retry-After header.
+ *
+ * router.post("/feed", rateLimit({ action: "feed", windowMs: 30 * 60 * 1000 }), handleFeed);
+ */
+export const rateLimit = ({ action, limit = 1, windowMs, store }: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const credentials = res.locals.credentials || getCredentials(req.query);
+      res.locals.credentials = credentials;
+      const { profileId, urlSlug, visitorId } = credentials;
+
+      // visitors without a profile (e.g. guests) fall back to their per-world visitorId
+      const key = `${profileId || `visitor-${visitorId}`}:${urlSlug}:${action}`;
+      const { count, resetAt } = await (store || getRateLimitStore()).increment(key, windowMs);
+
+      if (count > limit) {
+        const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+        throw new RateLimitError(`Too many ${action} requests. Try again in ${retryAfter}s.`, retryAfter, {
+          details: { action, limit, windowMs },
+        });
+      }
+
+      next();
+    } catch (error) {
+      return errorHandler({
+        error,
+        functionName: "rateLimit",
+        message: "Too many requests",
+        req,
+        res,
+      });
+    }
+  };
+};
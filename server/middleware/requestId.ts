@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { runWithRequestContext } from "../utils/index.js";
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  // propagate an upstream request ID when it is safe to log, otherwise assign a new one
+  const incomingId = req.get(REQUEST_ID_HEADER);
+  const id = incomingId && VALID_REQUEST_ID.test(incomingId) ? incomingId : randomUUID();
+
+  req.id = id;
+  res.setHeader(REQUEST_ID_HEADER, id);
+
+  const { urlSlug, visitorId } = req.query;
+
+  runWithRequestContext(
+    {
+      requestId: id,
+      ...(typeof urlSlug === "string" && { urlSlug }),
+      ...(typeof visitorId === "string" && { visitorId }),
+    },
+    next,
+  );
+};
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from "express";
+import { VisitorInterface } from "@rtsdk/topia";
+import { errorHandler, getCredentials, Visitor } from "../utils/index.js";
+import { ForbiddenError } from "../utils/errors.js";
+
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const credentials = res.locals.credentials || getCredentials(req.query);
+    const { urlSlug, visitorId } = credentials;
+
+    // the visitor is cached on res.locals so controllers (and stacked middleware) don't fetch it again
+    const visitor: VisitorInterface = res.locals.visitor || (await Visitor.get(visitorId, urlSlug, { credentials }));
+    res.locals.credentials = credentials;
+    res.locals.visitor = visitor;
+
+    if (!visitor.isAdmin) throw new ForbiddenError("Admin privileges required");
+
+    next();
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "requireAdmin",
+      message: "Error checking admin status",
+      req,
+      res,
+    });
+  }
+};
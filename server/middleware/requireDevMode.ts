@@ -1,13 +1,15 @@
 import { Request, Response, NextFunction } from "express";
+import { isTopiaSimulatorEnabled } from "../utils/topiaSimulator/index.js";
 
 export const requireDevMode = (req: Request, res: Response, next: NextFunction) => {
   if (process.env.NODE_ENV !== "development") {
     return res.status(404).json({ message: "Not found" });
   }
 
-  if (!process.env.API_KEY) {
+  if (!process.env.API_KEY && !isTopiaSimulatorEnabled()) {
     return res.status(503).json({
-      message: "Dev routes require API_KEY. Run `npm run setup` or add API_KEY to your .env file.",
+      message:
+        "Dev routes require API_KEY. Run `npm run setup`, add API_KEY to your .env file or set TOPIA_SIMULATOR=true.",
     });
   }
 
@@ -0,0 +1,10 @@
+import { Request, Response, NextFunction } from "express";
+import { runWithTopiaCacheScope } from "../utils/topiaCache/index.js";
+
+/**
+ * Gives each request its own read scope, so the same dropped asset, visitor or world details are only
+ * fetched once per request however many middleware and helpers ask for them.
+ */
+export const scopeTopiaCache = (req: Request, res: Response, next: NextFunction) => {
+  runWithTopiaCacheScope(next);
+};
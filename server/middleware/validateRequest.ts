@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import { RouteDefinition, ValidationIssue } from "../../shared/contract/index.js";
+import { errorHandler } from "../utils/index.js";
+import { ValidationError } from "../utils/errors.js";
+
+/**
+ * Validates the path params, query and body against a route from the shared contract and responds with a 400
+ * listing every issue. On success the parsed values replace `req.body` and are merged into `req.query`,
+ * so handlers see coerced types and no undeclared body fields.
+ *
+ * router.put(apiRoutes.fireToast.path, validateRequest(apiRoutes.fireToast), handleFireToast);
+ */
+export const validateRequest = (route: RouteDefinition) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: ValidationIssue[] = [];
+
+    if (route.params) {
+      const result = route.params.parse(req.params, "params");
+      if (result.success) req.params = { ...req.params, ...result.data } as Request["params"];
+      else issues.push(...result.issues);
+    }
+
+    if (route.query) {
+      const result = route.query.parse(req.query, "query");
+      if (result.success) req.query = { ...req.query, ...result.data } as Request["query"];
+      else issues.push(...result.issues);
+    }
+
+    if (route.body) {
+      const result = route.body.parse(req.body ?? {}, "body");
+      if (result.success) req.body = result.data;
+      else issues.push(...result.issues);
+    }
+
+    if (issues.length > 0) {
+      const error = new ValidationError(`Invalid request: ${issues.map(({ message }) => message).join(", ")}`, {
+        details: { issues },
+      });
+      // the issue list is the useful part for the client, so it is also the top-level message
+      return errorHandler({ error, functionName: "validateRequest", message: error.message, req, res });
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from "express";
+import { errorHandler, isValidWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from "../utils/index.js";
+import { AuthError } from "../utils/errors.js";
+
+/**
+ * Topia sends webhooks with the interactive credentials in the body, which handleReceiveWebhook confirms
+ * with Topia before any handler runs. When WEBHOOK_SIGNING_SECRET is set, for a sender that signs its requests,
+ * webhooks must also carry an X-Webhook-Signature that is an HMAC of the raw body made with it.
+ * Needs `express.json({ verify: captureRawBody })`, otherwise the raw body is gone by the time this runs.
+ *
+ * webhookRouter.post(webhookRoutes.receiveWebhook.path, verifyWebhookSignature, handleReceiveWebhook);
+ */
+export const verifyWebhookSignature = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const secret = process.env.WEBHOOK_SIGNING_SECRET;
+    if (!secret) return next();
+
+    if (!req.rawBody) throw new Error("Raw body not captured. Use express.json({ verify: captureRawBody }).");
+
+    if (!isValidWebhookSignature(req.rawBody, req.get(WEBHOOK_SIGNATURE_HEADER), secret)) {
+      throw new AuthError("Invalid webhook signature");
+    }
+
+    next();
+  } catch (error) {
+    return errorHandler({
+      error,
+      functionName: "verifyWebhookSignature",
+      message: "Error verifying webhook signature",
+      req,
+      res,
+    });
+  }
+};
@@ -1,38 +1,44 @@
-export const fireToast = jest.fn().mockResolvedValue({ success: true });
-
-export class Topia {
-  constructor(_opts: any) {}
-}
-
-export class AssetFactory {
-  constructor(_topia: any) {}
-}
+// Jest maps @rtsdk/topia here (see jest.config.ts), so every test runs against the in-memory simulator.
+// Seed worlds, dropped assets and visitors with `__mock.simulator` and assert on its recorded toasts and particles.
+import { resetCircuitBreakers } from "../../utils/resilience/index.js";
+import { topiaCache } from "../../utils/topiaCache/index.js";
+import { simulatorSdk, topiaSimulator } from "../../utils/topiaSimulator/index.js";
 
-export class DroppedAssetFactory {
-  constructor(_topia: any) {}
-}
-
-export class UserFactory {
-  constructor(_topia: any) {}
-}
+export const fireToast = jest.fn().mockResolvedValue({ success: true });
 
-export class VisitorFactory {
-  constructor(_topia: any) {}
-}
+export const {
+  Topia,
+  AssetFactory,
+  DroppedAssetFactory,
+  EcosystemFactory,
+  UserFactory,
+  VisitorFactory,
+  WorldActivityFactory,
+} = simulatorSdk;
 
-export class WorldFactory {
-  constructor(_topia: any) {}
+export class WorldFactory extends simulatorSdk.WorldFactory {
   create(slug: string, opts: any) {
     (__mock as any).lastWorldCreateArgs = { slug, opts };
-    return { fireToast };
+    const world = super.create(slug, opts);
+    const simulatedFireToast = world.fireToast.bind(world);
+    world.fireToast = async (toast) => {
+      await fireToast(toast);
+      return simulatedFireToast(toast);
+    };
+    return world;
   }
 }
 
 export const __mock = {
   fireToast,
   lastWorldCreateArgs: null as any,
+  simulator: topiaSimulator,
   reset() {
     fireToast.mockClear();
     this.lastWorldCreateArgs = null;
+    topiaSimulator.reset();
+    // cached details would otherwise outlive the simulator state they came from
+    topiaCache.clear();
+    resetCircuitBreakers();
   },
 };
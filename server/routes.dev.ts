@@ -1,9 +1,40 @@
 import express from "express";
-import { handleDevGetWorldInfo, handleDevDropAsset } from "./controllers/dev/index.js";
+import {
+  handleDevDeleteDroppedAsset,
+  handleDevDropAsset,
+  handleDevGetDataObject,
+  handleDevGetWorldInfo,
+  handleDevListDroppedAssets,
+  handleDevListVisitors,
+  handleDevMoveDroppedAsset,
+  handleDevSetDataObject,
+} from "./controllers/dev/index.js";
+import { validateRequest } from "./middleware/validateRequest.js";
+import { devApiRoutes } from "../shared/contract/index.js";
 
 const devRouter = express.Router();
 
-devRouter.get("/world-info", handleDevGetWorldInfo);
-devRouter.post("/drop-asset", handleDevDropAsset);
+devRouter.get(devApiRoutes.getWorldInfo.path, handleDevGetWorldInfo);
+devRouter.post(devApiRoutes.dropAsset.path, validateRequest(devApiRoutes.dropAsset), handleDevDropAsset);
+
+// World inspection — list, move and delete dropped assets, read or overwrite any data object, list visitors
+devRouter.get(
+  devApiRoutes.listDroppedAssets.path,
+  validateRequest(devApiRoutes.listDroppedAssets),
+  handleDevListDroppedAssets,
+);
+devRouter.put(
+  devApiRoutes.moveDroppedAsset.path,
+  validateRequest(devApiRoutes.moveDroppedAsset),
+  handleDevMoveDroppedAsset,
+);
+devRouter.delete(
+  devApiRoutes.deleteDroppedAsset.path,
+  validateRequest(devApiRoutes.deleteDroppedAsset),
+  handleDevDeleteDroppedAsset,
+);
+devRouter.get(devApiRoutes.getDataObject.path, validateRequest(devApiRoutes.getDataObject), handleDevGetDataObject);
+devRouter.put(devApiRoutes.setDataObject.path, validateRequest(devApiRoutes.setDataObject), handleDevSetDataObject);
+devRouter.get(devApiRoutes.listVisitors.path, handleDevListVisitors);
 
 export default devRouter;
@@ -1,36 +1,123 @@
 import express from "express";
-import { handleGetGameState } from "./controllers/index.js";
+import {
+  handleCancelScheduledJob,
+  handleCompleteTask,
+  handleDropAsset,
+  handleFireToast,
+  handleGetBadges,
+  handleGetEvents,
+  handleGetGameState,
+  handleGetLeaderboard,
+  handleGetReadiness,
+  handleGetScheduledJobs,
+  handleGetVisitor,
+  handleRemoveDroppedAssetsByUniqueName,
+  handleUpdateVisitor,
+} from "./controllers/index.js";
+import { buildOpenApiDocument, RouteGroup } from "./utils/buildOpenApiDocument.js";
 import { getVersion } from "./utils/getVersion.js";
+import { logger } from "./utils/logger.js";
+import { getTopiaCacheStats } from "./utils/topiaCache/index.js";
+import { bufferAnalytics } from "./middleware/bufferAnalytics.js";
+import { dailyLimit } from "./middleware/dailyLimit.js";
+import { rateLimit } from "./middleware/rateLimit.js";
+import { requireAdmin } from "./middleware/requireAdmin.js";
 import { requireDevMode } from "./middleware/requireDevMode.js";
+import { scopeTopiaCache } from "./middleware/scopeTopiaCache.js";
+import { validateRequest } from "./middleware/validateRequest.js";
+import { apiRoutes, devApiRoutes, webhookRoutes } from "../shared/contract/index.js";
+import { isTopiaSimulatorEnabled } from "./utils/topiaSimulator/index.js";
 import devRouter from "./routes.dev.js";
+import webhookRouter from "./routes.webhooks.js";
 
 const router = express.Router();
 const SERVER_START_DATE = new Date();
 
-router.get("/", (req, res) => {
+// Events tracked while handling a request are attached to its data object writes or sent once it ends
+router.use(bufferAnalytics);
+// Identical Topia reads within a request are fetched once
+router.use(scopeTopiaCache);
+
+router.get(apiRoutes.getRoot.path, (req, res) => {
   res.json({ message: "Hello from server!" });
 });
 
-router.get("/system/health", (req, res) => {
+// Paths, params and responses are declared in shared/contract so the client and server can't drift apart.
+// Every route that declares params, a query or a body is mounted with validateRequest, so none go unenforced
+router.get(apiRoutes.getHealth.path, (req, res) => {
   return res.json({
     appVersion: getVersion(),
     status: "OK",
     serverStartDate: SERVER_START_DATE,
+    // the endpoint is public, so only whether each value is set is reported
     envs: {
-      NODE_ENV: process.env.NODE_ENV,
-      INSTANCE_DOMAIN: process.env.INSTANCE_DOMAIN,
-      INTERACTIVE_KEY: process.env.INTERACTIVE_KEY,
-      S3_BUCKET: process.env.S3_BUCKET,
+      NODE_ENV: Boolean(process.env.NODE_ENV),
+      INSTANCE_DOMAIN: Boolean(process.env.INSTANCE_DOMAIN),
+      INTERACTIVE_KEY: Boolean(process.env.INTERACTIVE_KEY),
+      S3_BUCKET: Boolean(process.env.S3_BUCKET),
     },
+    topiaCache: getTopiaCacheStats(),
   });
 });
 
-router.get("/game-state", handleGetGameState);
+// Liveness only proves the process can serve requests; readiness also checks credentials and upstreams
+router.get(apiRoutes.getLiveness.path, (req, res) => {
+  return res.json({ status: "OK", uptimeSeconds: Math.round(process.uptime()) });
+});
+router.get(apiRoutes.getReadiness.path, handleGetReadiness);
+
+// game-state fires effects in the world, so reopening the iframe in a loop is throttled
+router.get(
+  apiRoutes.getGameState.path,
+  rateLimit({ action: "game-state", limit: 10, windowMs: 60_000 }),
+  handleGetGameState,
+);
+// completing the task grants XP, leaderboard stats and badges, so it is only counted so many times a day
+router.post(
+  apiRoutes.completeTask.path,
+  validateRequest(apiRoutes.completeTask),
+  dailyLimit({ action: "task-completed", limit: 10 }),
+  handleCompleteTask,
+);
+router.get(apiRoutes.getVisitor.path, handleGetVisitor);
+router.patch(apiRoutes.updateVisitor.path, validateRequest(apiRoutes.updateVisitor), handleUpdateVisitor);
+router.get(apiRoutes.getLeaderboard.path, validateRequest(apiRoutes.getLeaderboard), handleGetLeaderboard);
+router.get(apiRoutes.getBadges.path, handleGetBadges);
+
+// Server-Sent Events stream of shared game state for the key asset in the query
+router.get(apiRoutes.getEvents.path, validateRequest(apiRoutes.getEvents), handleGetEvents);
+
+// Admin routes — requireAdmin rejects non-admin visitors with a 403
+router.post(apiRoutes.dropAsset.path, requireAdmin, handleDropAsset);
+router.post(apiRoutes.removeDroppedAssets.path, requireAdmin, handleRemoveDroppedAssetsByUniqueName);
+router.put(apiRoutes.fireToast.path, requireAdmin, validateRequest(apiRoutes.fireToast), handleFireToast);
+router.get(apiRoutes.listScheduledJobs.path, requireAdmin, handleGetScheduledJobs);
+router.delete(
+  apiRoutes.cancelScheduledJob.path,
+  requireAdmin,
+  validateRequest(apiRoutes.cancelScheduledJob),
+  handleCancelScheduledJob,
+);
 
-// Dev routes — only available in development with API_KEY configured
-if (process.env.NODE_ENV === "development" && process.env.API_KEY) {
+// Webhooks from Topia (zone enter/exit, world triggers), whose body credentials are confirmed with Topia
+router.use("/webhooks", webhookRouter);
+
+const routeGroups: RouteGroup[] = [
+  { prefix: "/api", router, routes: apiRoutes, tag: "app" },
+  { prefix: "/api/webhooks", router: webhookRouter, routes: webhookRoutes, tag: "webhooks" },
+];
+
+// Dev routes — only available in development with API_KEY configured or the Topia simulator enabled
+if (process.env.NODE_ENV === "development" && (process.env.API_KEY || isTopiaSimulatorEnabled())) {
   router.use("/dev", requireDevMode, devRouter);
-  console.log("🔧 Dev routes available at /api/dev/*");
+  routeGroups.push({ prefix: "/api/dev", router: devRouter, routes: devApiRoutes, tag: "dev" });
+  logger.info("Dev routes available at /api/dev/*");
+}
+
+if (process.env.NODE_ENV === "development") {
+  router.get(apiRoutes.getOpenApiDocument.path, (req, res) => {
+    return res.json(buildOpenApiDocument(routeGroups));
+  });
 }
 
 export default router;
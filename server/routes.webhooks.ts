@@ -0,0 +1,19 @@
+import express from "express";
+import { handleReceiveWebhook } from "./controllers/index.js";
+import { validateRequest } from "./middleware/validateRequest.js";
+import { verifyWebhookSignature } from "./middleware/verifyWebhookSignature.js";
+import { webhookRoutes } from "../shared/contract/index.js";
+
+const webhookRouter = express.Router();
+
+// Handlers are registered with registerWebhookHandler, see .ai/examples/webhook-zone-trigger.md
+
+// the signature covers the raw body, so it is checked before validateRequest strips undeclared fields
+webhookRouter.post(
+  webhookRoutes.receiveWebhook.path,
+  verifyWebhookSignature,
+  validateRequest(webhookRoutes.receiveWebhook),
+  handleReceiveWebhook,
+);
+
+export default webhookRouter;
@@ -0,0 +1,275 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import { requireAdmin } from "../middleware/requireAdmin.js";
+import router from "../routes.js";
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+const baseCreds = {
+  assetId: "asset-123",
+  interactivePublicKey: "test-key",
+  interactiveNonce: "nonce-xyz",
+  sceneDropId: "scene-1",
+  visitorId: 1,
+  urlSlug: "my-world",
+};
+
+// Mock the utils
+jest.mock("../utils/index.js", () => ({
+  ...jest.requireActual("../utils/serializers/index.js"),
+  errorHandler: jest.fn(({ error, res, message }: any) => {
+    if (res) return res.status(error.status || 500).json({ success: false, code: error.code, message });
+    return { error: message };
+  }),
+  getCredentials: jest.fn(),
+  getDroppedAsset: jest.fn(),
+  invalidateDroppedAsset: jest.fn(),
+  publishGameState: jest.fn(),
+  Asset: {
+    create: jest.fn(),
+  },
+  DroppedAsset: {
+    drop: jest.fn(),
+  },
+  Visitor: {
+    get: jest.fn(),
+  },
+  World: {
+    create: jest.fn(),
+    deleteDroppedAssets: jest.fn(),
+  },
+}));
+
+const mockUtils = jest.mocked(require("../utils/index.js"));
+
+function makeKeyAsset(overrides = {}) {
+  return {
+    id: "asset-123",
+    assetId: "base-asset-1",
+    bottomLayerURL: "https://example.com/bottom.png",
+    topLayerURL: "https://example.com/top.png",
+    position: { x: 100, y: 200 },
+    uniqueName: "my-app",
+    fetchDataObject: jest.fn().mockResolvedValue({}),
+    incrementDataObjectValue: jest.fn().mockResolvedValue({}),
+    updateDataObject: jest.fn().mockResolvedValue({}),
+    ...overrides,
+  };
+}
+
+describe("admin routes", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, INTERACTIVE_SECRET: "test-secret" };
+    mockUtils.getCredentials.mockReturnValue(baseCreds);
+    mockUtils.Visitor.get.mockResolvedValue({ isAdmin: true });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("requireAdmin middleware", () => {
+    test.each([
+      ["post", "/api/dropped-asset"],
+      ["post", "/api/remove-dropped-assets"],
+      ["put", "/api/world/fire-toast"],
+      ["get", "/api/world/jobs"],
+      ["delete", "/api/world/jobs/job-1"],
+    ])("%s %s returns 403 for non-admin visitors", async (method, path) => {
+      mockUtils.Visitor.get.mockResolvedValue({ isAdmin: false });
+
+      const app = makeApp();
+      const res = await (request(app) as any)[method](path).query(baseCreds).send({ title: "Hi" });
+
+      expect(res.status).toBe(403);
+      expect(res.body).toEqual(expect.objectContaining({ success: false, code: "FORBIDDEN" }));
+      expect(mockUtils.Visitor.get).toHaveBeenCalledWith(1, "my-world", { credentials: baseCreds });
+      expect(mockUtils.getDroppedAsset).not.toHaveBeenCalled();
+      expect(mockUtils.World.create).not.toHaveBeenCalled();
+    });
+
+    test("calls errorHandler when the visitor cannot be loaded", async () => {
+      mockUtils.Visitor.get.mockRejectedValue(new Error("Visitor not found"));
+
+      const app = makeApp();
+      const res = await request(app).post("/api/dropped-asset").query(baseCreds);
+
+      expect(res.status).toBe(500);
+      expect(mockUtils.errorHandler).toHaveBeenCalledWith(expect.objectContaining({ functionName: "requireAdmin" }));
+    });
+
+    test("caches the visitor on res.locals for the rest of the request", async () => {
+      const app = express();
+      app.get("/admin-only", requireAdmin, requireAdmin, (req, res) => {
+        res.json({ isAdmin: res.locals.visitor.isAdmin, urlSlug: res.locals.credentials.urlSlug });
+      });
+
+      const res = await request(app).get("/admin-only").query(baseCreds);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ isAdmin: true, urlSlug: "my-world" });
+      expect(mockUtils.getCredentials).toHaveBeenCalledTimes(1);
+      expect(mockUtils.Visitor.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("POST /api/dropped-asset", () => {
+    test("drops a copy of the key asset with its uniqueName", async () => {
+      const keyAsset = makeKeyAsset();
+      const mockAsset = { id: "base-asset-1" };
+      mockUtils.getDroppedAsset.mockResolvedValue(keyAsset);
+      mockUtils.Asset.create.mockResolvedValue(mockAsset);
+      mockUtils.DroppedAsset.drop.mockResolvedValue({
+        id: "dropped-2",
+        position: { x: 150, y: 250 },
+        uniqueName: "my-app",
+        credentials: { interactiveNonce: "secret" },
+      });
+
+      const app = makeApp();
+      const res = await request(app).post("/api/dropped-asset").query(baseCreds);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        droppedAsset: { id: "dropped-2", position: { x: 150, y: 250 }, uniqueName: "my-app" },
+        success: true,
+      });
+
+      expect(mockUtils.getDroppedAsset).toHaveBeenCalledWith(baseCreds);
+      expect(mockUtils.Asset.create).toHaveBeenCalledWith("base-asset-1", { credentials: baseCreds });
+      expect(mockUtils.DroppedAsset.drop).toHaveBeenCalledWith(
+        mockAsset,
+        expect.objectContaining({
+          isInteractive: true,
+          interactivePublicKey: "test-key",
+          layer0: "https://example.com/bottom.png",
+          layer1: "https://example.com/top.png",
+          sceneDropId: "scene-1",
+          uniqueName: "my-app",
+          urlSlug: "my-world",
+        }),
+      );
+      expect(keyAsset.incrementDataObjectValue).toHaveBeenCalledWith("droppedAssetCount", 1);
+      expect(mockUtils.publishGameState).toHaveBeenCalledWith(baseCreds, {
+        droppedAsset: expect.objectContaining({ id: "asset-123" }),
+      });
+    });
+
+    test("falls back to the key asset id when it has no uniqueName", async () => {
+      mockUtils.getDroppedAsset.mockResolvedValue(makeKeyAsset({ uniqueName: undefined }));
+      mockUtils.Asset.create.mockResolvedValue({});
+      mockUtils.DroppedAsset.drop.mockResolvedValue({ id: "dropped-2" });
+
+      const app = makeApp();
+      await request(app).post("/api/dropped-asset").query(baseCreds);
+
+      expect(mockUtils.DroppedAsset.drop).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ uniqueName: "asset-123" }),
+      );
+    });
+
+    test("calls errorHandler when the drop fails", async () => {
+      mockUtils.getDroppedAsset.mockResolvedValue(makeKeyAsset());
+      mockUtils.Asset.create.mockResolvedValue({});
+      mockUtils.DroppedAsset.drop.mockRejectedValue(new Error("Drop failed"));
+
+      const app = makeApp();
+      const res = await request(app).post("/api/dropped-asset").query(baseCreds);
+
+      expect(res.status).toBe(500);
+      expect(mockUtils.errorHandler).toHaveBeenCalledWith(expect.objectContaining({ functionName: "handleDropAsset" }));
+    });
+  });
+
+  describe("POST /api/remove-dropped-assets", () => {
+    test("removes every dropped asset sharing the uniqueName except the key asset", async () => {
+      const keyAsset = makeKeyAsset();
+      const mockWorld = {
+        fetchDroppedAssetsWithUniqueName: jest
+          .fn()
+          .mockResolvedValue([{ id: "asset-123" }, { id: "dropped-2" }, { id: "dropped-3" }]),
+      };
+      mockUtils.getDroppedAsset.mockResolvedValue(keyAsset);
+      mockUtils.World.create.mockReturnValue(mockWorld);
+      mockUtils.World.deleteDroppedAssets.mockResolvedValue({ success: true });
+
+      const app = makeApp();
+      const res = await request(app).post("/api/remove-dropped-assets").query(baseCreds);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ removedCount: 2, success: true });
+      expect(mockWorld.fetchDroppedAssetsWithUniqueName).toHaveBeenCalledWith({
+        uniqueName: "my-app",
+        isPartial: false,
+      });
+      expect(mockUtils.World.deleteDroppedAssets).toHaveBeenCalledWith(
+        "my-world",
+        ["dropped-2", "dropped-3"],
+        "test-secret",
+        baseCreds,
+      );
+      expect(mockUtils.invalidateDroppedAsset.mock.calls).toEqual([
+        ["my-world", "dropped-2"],
+        ["my-world", "dropped-3"],
+      ]);
+      expect(keyAsset.updateDataObject).toHaveBeenCalledWith({ droppedAssetCount: 0 });
+      expect(mockUtils.publishGameState).toHaveBeenCalledWith(baseCreds, {
+        droppedAsset: expect.objectContaining({ id: "asset-123" }),
+      });
+    });
+
+    test("skips deletion when no copies exist", async () => {
+      mockUtils.getDroppedAsset.mockResolvedValue(makeKeyAsset());
+      mockUtils.World.create.mockReturnValue({
+        fetchDroppedAssetsWithUniqueName: jest.fn().mockResolvedValue([{ id: "asset-123" }]),
+      });
+
+      const app = makeApp();
+      const res = await request(app).post("/api/remove-dropped-assets").query(baseCreds);
+
+      expect(res.status).toBe(200);
+      expect(res.body.removedCount).toBe(0);
+      expect(mockUtils.World.deleteDroppedAssets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("PUT /api/world/fire-toast", () => {
+    test("fires a toast in the world", async () => {
+      const mockWorld = { fireToast: jest.fn().mockResolvedValue({}) };
+      mockUtils.World.create.mockReturnValue(mockWorld);
+
+      const app = makeApp();
+      const res = await request(app)
+        .put("/api/world/fire-toast")
+        .query(baseCreds)
+        .send({ title: "Asset successfully dropped!" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+      expect(mockUtils.World.create).toHaveBeenCalledWith("my-world", { credentials: baseCreds });
+      expect(mockWorld.fireToast).toHaveBeenCalledWith({ title: "Asset successfully dropped!", text: "" });
+    });
+
+    test("returns 400 when title is missing", async () => {
+      const app = makeApp();
+      const res = await request(app).put("/api/world/fire-toast").query(baseCreds).send({ text: "No title" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain("title");
+      expect(mockUtils.World.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { TrackedAnalytic } from "../types/index.js";
+import {
+  AnalyticsSink,
+  flushAnalytics,
+  getAnalyticsSink,
+  MemoryAnalyticsSink,
+  runWithAnalyticsBuffer,
+  setAnalyticsSink,
+  trackEvent,
+  withAnalytics,
+} from "../utils/analytics/index.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+// the buffer is flushed once the response has closed, which can be just after supertest resolves
+const waitForFlush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("analytics", () => {
+  const originalEnv = process.env;
+  const originalSink = getAnalyticsSink();
+  const credentials = {
+    interactiveNonce: "nonce",
+    interactivePublicKey: "test-key",
+    profileId: "profile-1",
+    urlSlug: "my-world",
+    visitorId: 1,
+  } as any;
+  let sink: MemoryAnalyticsSink;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    sink = new MemoryAnalyticsSink();
+    setAnalyticsSink(sink);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setAnalyticsSink(originalSink);
+    jest.restoreAllMocks();
+  });
+
+  test("outside a request events go straight to the sink, with a uniqueKey for profile counters only", async () => {
+    await trackEvent("players", { credentials });
+    await trackEvent("completions", { credentials, incrementBy: 2 });
+
+    expect(sink.events).toEqual([
+      { analyticName: "players", profileId: "profile-1", uniqueKey: "profile-1", urlSlug: "my-world", visitorId: 1 },
+      { analyticName: "completions", incrementBy: 2, profileId: "profile-1", urlSlug: "my-world", visitorId: 1 },
+    ]);
+  });
+
+  test("buffered events are attached to the next write and the rest are flushed", async () => {
+    const buffer: TrackedAnalytic[] = [];
+
+    const options = await runWithAnalyticsBuffer(buffer, async () => {
+      await trackEvent("completions", { credentials });
+      const attached = withAnalytics({ lock: { lockId: "lock" } });
+      await trackEvent("levelUps", { credentials });
+      await trackEvent("levelUps", { credentials: { ...credentials, visitorId: 2 } });
+      return attached;
+    });
+
+    expect(options).toEqual({
+      lock: { lockId: "lock" },
+      analytics: [expect.objectContaining({ analyticName: "completions" })],
+    });
+    expect(sink.events).toEqual([]);
+
+    await flushAnalytics(buffer.splice(0));
+
+    expect(sink.events).toEqual([
+      expect.objectContaining({ analyticName: "levelUps", visitorId: 1 }),
+      expect.objectContaining({ analyticName: "levelUps", visitorId: 2 }),
+    ]);
+  });
+
+  test("sink failures are logged instead of thrown", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const failingSink: AnalyticsSink = { send: jest.fn().mockRejectedValue(new Error("Analytics unavailable")) };
+    setAnalyticsSink(failingSink);
+
+    await expect(trackEvent("players", { credentials })).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Error sending analytics"));
+  });
+
+  test("POST /api/complete-task sends its events with the completion write and the level up after the response", async () => {
+    setAnalyticsSink(originalSink);
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+
+    const res = await request(makeApp())
+      .post("/api/complete-task")
+      .query({ ...credentials, assetId: keyAsset.id, profileId: visitor.profileId, urlSlug, visitorId: visitor.id });
+    await waitForFlush();
+
+    expect(res.status).toBe(200);
+    expect(simulator.analytics.map(({ analyticName }) => analyticName)).toEqual(["players", "completions", "levelUps"]);
+    expect(simulator.analytics[0]).toEqual({
+      analyticName: "players",
+      profileId: "simulator-profile",
+      uniqueKey: "simulator-profile",
+      urlSlug: "my-world",
+    });
+  });
+});
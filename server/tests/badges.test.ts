@@ -0,0 +1,147 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { evaluateBadges } from "../utils/badges/index.js";
+import { getVisitor } from "../utils/visitors/index.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+const ownedBadges = (profileId = "simulator-profile") =>
+  simulator.getUser(profileId).inventoryItems.map(({ item, quantity }) => ({ name: item.name, quantity }));
+
+describe("badges", () => {
+  const originalEnv = process.env;
+  let credentials: Record<string, any>;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+    credentials = {
+      assetId: keyAsset.id,
+      interactiveNonce: "nonce",
+      interactivePublicKey: "test-key",
+      profileId: visitor.profileId,
+      urlSlug,
+      visitorId: visitor.id,
+    };
+
+    simulator.addInventoryItem({ name: "First Steps", image_path: "https://example.com/first-steps.png" });
+    simulator.addInventoryItem({ name: "Regular" });
+    simulator.addInventoryItem({ name: "Personal Touch" });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("completing the task awards its badge once, with a toast", async () => {
+    const app = makeApp();
+
+    await request(app).post("/api/complete-task").query(credentials).expect(200);
+    simulator.lockTtlMs = 0;
+    await request(app).post("/api/complete-task").query(credentials).expect(200);
+
+    expect(ownedBadges()).toEqual([{ name: "First Steps", quantity: 1 }]);
+    expect(simulator.toasts.filter(({ title }) => title === "Badge Awarded")).toEqual([
+      expect.objectContaining({ visitorId: credentials.visitorId, text: "You have earned the First Steps badge!" }),
+    ]);
+  });
+
+  test("rules over visitor data award badges when their threshold is reached", async () => {
+    simulator.getVisitor("my-world", credentials.visitorId).dataObject = {
+      schemaVersion: 2,
+      exampleParam: "",
+      completedCount: 4,
+    };
+
+    await request(makeApp()).post("/api/complete-task").query(credentials).expect(200);
+
+    expect(ownedBadges().map(({ name }) => name)).toEqual(["First Steps", "Regular"]);
+  });
+
+  test("rules over events award badges for the action that happened", async () => {
+    await request(makeApp()).patch("/api/visitor").query(credentials).send({ exampleParam: "hi" }).expect(200);
+
+    expect(ownedBadges().map(({ name }) => name)).toEqual(["Personal Touch"]);
+  });
+
+  test("concurrent evaluations grant a badge only once", async () => {
+    const [first, second] = await Promise.all([getVisitor(credentials as any), getVisitor(credentials as any)]);
+    await first.incrementDataObjectValue("completedCount", 1);
+    await second.fetchDataObject();
+
+    const awarded = await Promise.all([
+      evaluateBadges({ credentials: credentials as any, visitor: first }),
+      evaluateBadges({ credentials: credentials as any, visitor: second }),
+    ]);
+
+    expect(awarded.flat()).toEqual(["First Steps"]);
+    expect(ownedBadges()).toEqual([{ name: "First Steps", quantity: 1 }]);
+  });
+
+  test("a failed grant can be retried once the grant lock's window is over", async () => {
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now);
+    const visitor = await getVisitor(credentials as any);
+    await visitor.incrementDataObjectValue("completedCount", 1);
+    jest.spyOn(visitor, "grantInventoryItem").mockRejectedValueOnce(new Error("Topia unavailable"));
+
+    await expect(evaluateBadges({ credentials: credentials as any, visitor })).rejects.toThrow();
+    dateSpy.mockReturnValue(now + 10_000);
+    const awarded = await evaluateBadges({ credentials: credentials as any, visitor });
+
+    expect(awarded).toEqual(["First Steps"]);
+    expect(ownedBadges()).toEqual([{ name: "First Steps", quantity: 1 }]);
+  });
+
+  test("skips badges that have no inventory item in the ecosystem", async () => {
+    simulator.inventoryItems = [];
+
+    const res = await request(makeApp()).post("/api/complete-task").query(credentials);
+
+    expect(res.status).toBe(200);
+    expect(ownedBadges()).toEqual([]);
+  });
+
+  test("GET /api/badges lists earned and locked badges", async () => {
+    await request(makeApp()).post("/api/complete-task").query(credentials).expect(200);
+
+    const res = await request(makeApp()).get("/api/badges").query(credentials);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      badges: [
+        {
+          name: "First Steps",
+          description: "Complete the task for the first time.",
+          icon: "https://example.com/first-steps.png",
+          earned: true,
+        },
+        { name: "Regular", description: "Complete the task 5 times.", earned: false },
+        { name: "Rising Star", description: "Reach level 5.", earned: false },
+        {
+          name: "On a Roll",
+          description: "Reach a 3-day streak. Missing a single day doesn't break it.",
+          earned: false,
+        },
+        { name: "Personal Touch", description: "Update your details.", earned: false },
+      ],
+      success: true,
+    });
+  });
+});
@@ -0,0 +1,151 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { apiRoutes, s } from "../../shared/contract/index.js";
+import { seedTopiaSimulator } from "../utils/topiaSimulator/index.js";
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+describe("shared API contract", () => {
+  describe("schemas", () => {
+    const schema = s.object({
+      name: s.string({ maxLength: 5 }),
+      count: s.number({ coerce: true, integer: true, min: 1 }).optional(),
+      tags: s.array(s.object({ label: s.string() })).optional(),
+    });
+
+    test("parses valid input, coerces numeric strings and drops undeclared keys", () => {
+      expect(schema.parse({ name: "abc", count: "3", extra: true })).toEqual({
+        success: true,
+        data: { name: "abc", count: 3 },
+      });
+    });
+
+    test("reports every issue with its path", () => {
+      const result = schema.parse({ name: "too long", count: "1.5", tags: [{ label: "ok" }, {}] }, "body");
+
+      expect(result).toEqual({
+        success: false,
+        issues: [
+          { path: "body.name", message: "body.name must be 1-5 characters" },
+          { path: "body.count", message: "body.count must be an integer" },
+          { path: "body.tags[1].label", message: "body.tags[1].label is required" },
+        ],
+      });
+    });
+
+    test("treats missing optional fields as absent", () => {
+      expect(schema.parse({ name: "abc", count: "" })).toEqual({ success: true, data: { name: "abc" } });
+    });
+  });
+
+  describe("server", () => {
+    const originalEnv = process.env;
+    let credentials: Record<string, string | number>;
+
+    beforeEach(() => {
+      topiaMock.reset();
+      process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+      credentials = {
+        assetId: keyAsset.id,
+        interactiveNonce: "nonce",
+        interactivePublicKey: "test-key",
+        urlSlug,
+        visitorId: visitor.id,
+      };
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    test("mounts every route in the contract", () => {
+      const mounted = router.stack
+        .filter((layer: any) => layer.route)
+        .flatMap((layer: any) => Object.keys(layer.route.methods).map((method) => `${method} ${layer.route.path}`));
+
+      // the OpenAPI document is only mounted in development
+      const { getOpenApiDocument, ...routes } = apiRoutes;
+      for (const { method, path } of Object.values(routes)) {
+        expect(mounted).toContain(`${method} ${path}`);
+      }
+    });
+
+    test.each([
+      ["getGameState", "get", "/api/game-state"],
+      ["completeTask", "post", "/api/complete-task"],
+      ["dropAsset", "post", "/api/dropped-asset"],
+      ["removeDroppedAssets", "post", "/api/remove-dropped-assets"],
+      ["getLiveness", "get", "/api/system/live"],
+      ["getHealth", "get", "/api/system/health"],
+    ] as const)("%s responds with the shape declared in the contract", async (name, method, path) => {
+      const res = await request(makeApp())[method](path).query(credentials);
+
+      expect(res.status).toBe(200);
+      expect(apiRoutes[name].response.parse(res.body)).toMatchObject({ success: true });
+    });
+
+    test("PUT /api/world/fire-toast returns a 400 listing each invalid field", async () => {
+      const res = await request(makeApp())
+        .put("/api/world/fire-toast")
+        .query(credentials)
+        .send({ groupId: 1, text: "No title" });
+
+      expect(res.status).toBe(400);
+      expect(res.body).toMatchObject({
+        success: false,
+        code: "VALIDATION_ERROR",
+        message: "Invalid request: body.groupId must be a string, body.title is required",
+        error: {
+          details: {
+            issues: [
+              { path: "body.groupId", message: "body.groupId must be a string" },
+              { path: "body.title", message: "body.title is required" },
+            ],
+          },
+        },
+      });
+      expect(topiaMock.simulator.toasts).toEqual([]);
+    });
+
+    test("PUT /api/world/fire-toast only passes declared fields to the handler", async () => {
+      const res = await request(makeApp())
+        .put("/api/world/fire-toast")
+        .query(credentials)
+        .send({ title: "Hello", urlSlug: "someone-elses-world" });
+
+      expect(res.status).toBe(200);
+      expect(topiaMock.simulator.toasts).toEqual([expect.objectContaining({ urlSlug: "my-world", title: "Hello" })]);
+    });
+
+    test("GET /api/leaderboard rejects a limit that is not a positive integer", async () => {
+      const res = await request(makeApp())
+        .get("/api/leaderboard")
+        .query({ ...credentials, limit: "ten" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe("Invalid request: query.limit must be a number");
+    });
+
+    test("POST /api/complete-task rejects a timezone that is not a string", async () => {
+      const res = await request(makeApp())
+        .post("/api/complete-task")
+        .query({ ...credentials, timezone: ["UTC", "Europe/Paris"] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe("Invalid request: query.timezone must be a string");
+    });
+  });
+});
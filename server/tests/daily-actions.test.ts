@@ -0,0 +1,162 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import { dailyLimit } from "../middleware/dailyLimit.js";
+import { daysBetween, getDayKey, getTimezone, msUntilNextDay, recordDailyAction } from "../utils/dailyActions/index.js";
+import { RateLimitError } from "../utils/errors.js";
+import { getVisitor } from "../utils/visitors/index.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("calendar days", () => {
+  test("day keys follow the visitor's timezone", () => {
+    const timestamp = at("2026-10-19T23:30:00Z");
+
+    expect(getDayKey(timestamp, "UTC")).toBe("2026-10-19");
+    expect(getDayKey(timestamp, "Asia/Tokyo")).toBe("2026-10-20");
+    expect(getDayKey(at("2026-10-20T03:30:00Z"), "America/New_York")).toBe("2026-10-19");
+  });
+
+  test("days between day keys and time until the next local midnight", () => {
+    expect(daysBetween("2026-10-19", "2026-10-20")).toBe(1);
+    expect(daysBetween("2026-02-28", "2026-03-01")).toBe(1);
+    expect(daysBetween("2026-10-20", "2026-10-19")).toBe(-1);
+
+    expect(msUntilNextDay(at("2026-10-19T23:30:00Z"), "UTC")).toBe(30 * 60 * 1000);
+    expect(msUntilNextDay(at("2026-10-20T03:30:00Z"), "America/New_York")).toBe(30 * 60 * 1000);
+  });
+
+  test("getTimezone defaults to UTC and rejects names Intl doesn't know", () => {
+    expect(getTimezone({})).toBe("UTC");
+    expect(getTimezone({ timezone: "Europe/Berlin" })).toBe("Europe/Berlin");
+    expect(() => getTimezone({ timezone: "Mars/Olympus_Mons" })).toThrow("Unknown timezone: Mars/Olympus_Mons");
+  });
+});
+
+describe("daily actions", () => {
+  const originalEnv = process.env;
+  let credentials: Record<string, any>;
+  let now: number;
+  const clock = () => now;
+
+  const record = async (options: { limit?: number; timezone?: string; graceDays?: number } = {}) =>
+    recordDailyAction({
+      action: "collect",
+      credentials: credentials as any,
+      now: clock,
+      visitor: await getVisitor(credentials as any),
+      ...options,
+    });
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+    credentials = {
+      assetId: keyAsset.id,
+      interactiveNonce: "nonce",
+      interactivePublicKey: "test-key",
+      profileId: visitor.profileId,
+      urlSlug,
+      visitorId: visitor.id,
+    };
+    now = at("2026-10-19T12:00:00Z");
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  test("counts actions per day and starts again at the visitor's midnight", async () => {
+    const timezone = "America/New_York";
+
+    await record({ timezone });
+    now = at("2026-10-20T03:59:00Z");
+    expect(await record({ timezone })).toMatchObject({ day: "2026-10-19", count: 2 });
+
+    now = at("2026-10-20T04:00:00Z");
+    expect(await record({ timezone })).toMatchObject({ day: "2026-10-20", count: 1 });
+  });
+
+  test("rejects actions over the limit until the next local midnight", async () => {
+    // one second before midnight in London, which is on BST until the 25th
+    now = at("2026-10-19T22:59:59Z");
+    const timezone = "Europe/London";
+
+    expect(await record({ limit: 2, timezone })).toMatchObject({ count: 1, remaining: 1 });
+    expect(await record({ limit: 2, timezone })).toMatchObject({ count: 2, remaining: 0 });
+
+    const error = await record({ limit: 2, timezone }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(1);
+    expect(simulator.getVisitor("my-world", credentials.visitorId).dataObject.daily.collect).toEqual({
+      day: "2026-10-19",
+      count: 2,
+    });
+  });
+
+  test("streaks grow once a day, survive grace days and reset after longer gaps", async () => {
+    const streakOn = async (iso: string) => {
+      now = at(iso);
+      return record({ graceDays: 1 });
+    };
+
+    expect((await streakOn("2026-10-19T09:00:00Z")).streak).toEqual({
+      current: 1,
+      longest: 1,
+      lastActiveDay: "2026-10-19",
+    });
+    expect(await streakOn("2026-10-19T18:00:00Z")).toMatchObject({ streak: { current: 1 }, streakUpdated: false });
+    expect(await streakOn("2026-10-20T09:00:00Z")).toMatchObject({ streak: { current: 2 }, streakUpdated: true });
+    // 21st missed, covered by the grace day
+    expect((await streakOn("2026-10-22T09:00:00Z")).streak).toMatchObject({ current: 3, longest: 3 });
+    // 23rd and 24th missed
+    expect((await streakOn("2026-10-25T09:00:00Z")).streak).toEqual({
+      current: 1,
+      longest: 3,
+      lastActiveDay: "2026-10-25",
+    });
+  });
+
+  test("concurrent first actions of a day keep every count and move the streak once", async () => {
+    const visitors = await Promise.all([1, 2, 3].map(() => getVisitor(credentials as any)));
+
+    const results = await Promise.all(
+      visitors.map((visitor) =>
+        recordDailyAction({ action: "collect", credentials: credentials as any, now: clock, visitor }),
+      ),
+    );
+
+    expect(results.filter(({ streakUpdated }) => streakUpdated)).toHaveLength(1);
+    expect(simulator.getVisitor("my-world", credentials.visitorId).dataObject).toMatchObject({
+      daily: { collect: { day: "2026-10-19", count: 3 } },
+      streak: { current: 1, longest: 1 },
+    });
+  });
+
+  test("dailyLimit middleware responds 429 with retryAfter once the day's limit is used", async () => {
+    const app = express();
+    app.post("/collect", dailyLimit({ action: "collect", limit: 1, now: clock }), (req, res) =>
+      res.json({ dailyAction: res.locals.dailyAction, success: true }),
+    );
+    const query = { ...credentials, timezone: "Asia/Tokyo" };
+
+    const first = await request(app).post("/collect").query(query);
+    const second = await request(app).post("/collect").query(query);
+
+    expect(first.status).toBe(200);
+    expect(first.body.dailyAction).toMatchObject({ day: "2026-10-19", count: 1, streak: { current: 1 } });
+    expect(second.status).toBe(429);
+    expect(second.body).toMatchObject({ code: "RATE_LIMITED", retryAfter: 3 * 60 * 60 });
+  });
+});
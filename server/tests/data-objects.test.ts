@@ -0,0 +1,132 @@
+import { dataObjectSchemas } from "../utils/dataObjects/dataObjectSchemas.js";
+import { initializeDataObject } from "../utils/dataObjects/initializeDataObject.js";
+import { upgradeDataObject } from "../utils/dataObjects/upgradeDataObject.js";
+
+function makeEntity(dataObject?: object) {
+  const entity = {
+    dataObject,
+    storedDataObject: dataObject,
+    fetchDataObject: jest.fn(async () => {
+      entity.dataObject = entity.storedDataObject;
+    }),
+    setDataObject: jest.fn(async (data: object) => {
+      entity.storedDataObject = data;
+    }),
+  };
+  return entity;
+}
+
+describe("data object schema registry", () => {
+  const originalSchema = dataObjectSchemas.droppedAsset;
+
+  afterEach(() => {
+    dataObjectSchemas.droppedAsset = originalSchema;
+  });
+
+  describe("upgradeDataObject", () => {
+    test("returns defaults when the data object has never been set", () => {
+      expect(upgradeDataObject("droppedAsset", undefined)).toEqual({ schemaVersion: 1, droppedAssetCount: 0 });
+      expect(upgradeDataObject("visitor", {})).toEqual({
+        schemaVersion: 4,
+        exampleParam: "",
+        completedCount: 0,
+        xp: 0,
+        level: 1,
+        daily: {},
+        streak: { current: 0, longest: 0 },
+      });
+    });
+
+    test("returns null when the data object is already at the current version", () => {
+      expect(upgradeDataObject("droppedAsset", { schemaVersion: 1, droppedAssetCount: 4 })).toBeNull();
+    });
+
+    test("treats data objects without a schemaVersion as version 0 and keeps their values", () => {
+      expect(upgradeDataObject("droppedAsset", { droppedAssetCount: 4 })).toEqual({
+        schemaVersion: 1,
+        droppedAssetCount: 4,
+      });
+    });
+
+    test("runs only the migrations newer than the stored version, in order", () => {
+      const calls: number[] = [];
+      dataObjectSchemas.droppedAsset = {
+        schemaVersion: 3,
+        defaults: () => ({ schemaVersion: 3, droppedAssetCount: 0, resetCount: 0 }) as any,
+        migrations: [
+          {
+            toVersion: 3,
+            migrate: (data) => {
+              calls.push(3);
+              return { ...data, resetCount: data.resets, resets: undefined };
+            },
+          },
+          {
+            toVersion: 2,
+            migrate: (data) => {
+              calls.push(2);
+              return { ...data, resets: 7 };
+            },
+          },
+        ],
+      };
+
+      expect(upgradeDataObject("droppedAsset", { schemaVersion: 1, droppedAssetCount: 2 })).toEqual({
+        schemaVersion: 3,
+        droppedAssetCount: 2,
+        resetCount: 7,
+        resets: undefined,
+      });
+      expect(calls).toEqual([2, 3]);
+
+      calls.length = 0;
+      upgradeDataObject("droppedAsset", { schemaVersion: 2, droppedAssetCount: 2, resets: 1 });
+      expect(calls).toEqual([3]);
+    });
+  });
+
+  describe("initializeDataObject", () => {
+    test("sets defaults under a lock when the data object is missing", async () => {
+      const entity = makeEntity();
+
+      const dataObject = await initializeDataObject(entity, "droppedAsset", "asset-1");
+
+      expect(entity.setDataObject).toHaveBeenCalledWith(
+        { schemaVersion: 1, droppedAssetCount: 0 },
+        { lock: { lockId: expect.stringMatching(/^droppedAsset-asset-1-v1-/), releaseLock: true } },
+      );
+      expect(dataObject).toEqual({ schemaVersion: 1, droppedAssetCount: 0 });
+    });
+
+    test("does not write when the data object is current", async () => {
+      const entity = makeEntity({ schemaVersion: 1, droppedAssetCount: 3 });
+
+      const dataObject = await initializeDataObject(entity, "droppedAsset", "asset-1");
+
+      expect(entity.setDataObject).not.toHaveBeenCalled();
+      expect(dataObject).toEqual({ schemaVersion: 1, droppedAssetCount: 3 });
+    });
+
+    test("re-fetches instead of failing when another process holds the lock", async () => {
+      const entity = makeEntity();
+      entity.setDataObject.mockImplementation(async () => {
+        // simulate the winning request writing first
+        entity.storedDataObject = { schemaVersion: 1, droppedAssetCount: 1 };
+        throw Object.assign(new Error("Lock already acquired"), { status: 409 });
+      });
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const dataObject = await initializeDataObject(entity, "droppedAsset", "asset-1");
+
+      expect(entity.fetchDataObject).toHaveBeenCalledTimes(2);
+      expect(dataObject).toEqual({ schemaVersion: 1, droppedAssetCount: 1 });
+    });
+
+    test("throws write failures that aren't lock conflicts", async () => {
+      const entity = makeEntity();
+      entity.setDataObject.mockRejectedValue(Object.assign(new Error("Service unavailable"), { status: 503 }));
+
+      await expect(initializeDataObject(entity, "droppedAsset", "asset-1")).rejects.toMatchObject({ status: 503 });
+    });
+  });
+});
@@ -7,8 +7,9 @@ import devRouter from "../routes.dev.js";
 
 // Mock the utils
 jest.mock("../utils/index.js", () => ({
-  errorHandler: jest.fn(({ res, message }: any) => {
-    if (res) return res.status(500).json({ success: false, message });
+  ...jest.requireActual("../utils/serializers/index.js"),
+  errorHandler: jest.fn(({ error, res, message }: any) => {
+    if (res) return res.status(error.status || 500).json({ success: false, message });
     return { error: message };
   }),
   Asset: {
@@ -0,0 +1,178 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+import { requireDevMode } from "../middleware/requireDevMode.js";
+import devRouter from "../routes.dev.js";
+import { SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+function makeDevApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/dev", requireDevMode, devRouter);
+  return app;
+}
+
+describe("dev world-inspection routes", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = {
+      ...originalEnv,
+      NODE_ENV: "development",
+      TOPIA_SIMULATOR: "true",
+      INTERACTIVE_KEY: "test-key",
+      DEVELOPMENT_WORLD_SLUG: "test-world",
+    };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    simulator.addDroppedAsset("test-world", { id: "key", uniqueName: "my-app", position: { x: 1, y: 2 } });
+    simulator.addDroppedAsset("test-world", { id: "copy", uniqueName: "my-app-copy" });
+    simulator.addDroppedAsset("test-world", { id: "other", uniqueName: "other" });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("returns 404 when NODE_ENV is not development", async () => {
+    process.env.NODE_ENV = "production";
+    const res = await request(makeDevApp()).get("/api/dev/dropped-assets");
+    expect(res.status).toBe(404);
+  });
+
+  describe("GET /api/dev/dropped-assets", () => {
+    test("lists every dropped asset in the dev world", async () => {
+      const res = await request(makeDevApp()).get("/api/dev/dropped-assets");
+
+      expect(res.status).toBe(200);
+      expect(res.body.droppedAssets.map(({ id }: any) => id)).toEqual(["key", "copy", "other"]);
+      expect(res.body.droppedAssets[0]).not.toHaveProperty("credentials");
+    });
+
+    test("filters by exact uniqueName", async () => {
+      const res = await request(makeDevApp()).get("/api/dev/dropped-assets").query({ uniqueName: "my-app" });
+
+      expect(res.body.droppedAssets.map(({ id }: any) => id)).toEqual(["key"]);
+    });
+
+    test("filters by partial uniqueName when isPartial is true", async () => {
+      const res = await request(makeDevApp())
+        .get("/api/dev/dropped-assets")
+        .query({ uniqueName: "my-app", isPartial: "true" });
+
+      expect(res.body.droppedAssets.map(({ id }: any) => id)).toEqual(["key", "copy"]);
+    });
+
+    test("returns 400 when isPartial is not a boolean", async () => {
+      const res = await request(makeDevApp())
+        .get("/api/dev/dropped-assets")
+        .query({ uniqueName: "my-app", isPartial: "yes" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain("query.isPartial");
+    });
+  });
+
+  describe("PUT /api/dev/dropped-assets/:droppedAssetId/position", () => {
+    test("moves the dropped asset", async () => {
+      const res = await request(makeDevApp()).put("/api/dev/dropped-assets/key/position").send({ x: 50, y: -20 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.droppedAsset).toMatchObject({ id: "key", position: { x: 50, y: -20 } });
+      expect(simulator.getDroppedAsset("test-world", "key").position).toEqual({ x: 50, y: -20 });
+    });
+
+    test("returns 400 when y is missing", async () => {
+      const res = await request(makeDevApp()).put("/api/dev/dropped-assets/key/position").send({ x: 50 });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain("body.y is required");
+    });
+
+    test("returns 404 for an unknown dropped asset", async () => {
+      const res = await request(makeDevApp()).put("/api/dev/dropped-assets/missing/position").send({ x: 0, y: 0 });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/dev/dropped-assets/:droppedAssetId", () => {
+    test("removes the dropped asset from the world", async () => {
+      const res = await request(makeDevApp()).delete("/api/dev/dropped-assets/copy");
+
+      expect(res.status).toBe(200);
+      expect([...simulator.getWorld("test-world").droppedAssets.keys()]).toEqual(["key", "other"]);
+    });
+
+    test("returns 404 for an unknown dropped asset", async () => {
+      const res = await request(makeDevApp()).delete("/api/dev/dropped-assets/missing");
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("data objects", () => {
+    test.each([
+      ["world", "test-world", () => simulator.getWorld("test-world")],
+      ["dropped-asset", "key", () => simulator.getDroppedAsset("test-world", "key")],
+      ["visitor", "7", () => simulator.getVisitor("test-world", 7)],
+      ["user", "profile-abc", () => simulator.getUser("profile-abc")],
+    ])("GET and PUT /api/dev/data-objects/%s/%s", async (entityType, entityId, getStored) => {
+      simulator.addVisitor("test-world", { id: 7 });
+      getStored().dataObject = { kept: false, nested: { count: 1 } };
+
+      const getRes = await request(makeDevApp()).get(`/api/dev/data-objects/${entityType}/${entityId}`);
+      expect(getRes.status).toBe(200);
+      expect(getRes.body.dataObject).toEqual({ kept: false, nested: { count: 1 } });
+
+      const putRes = await request(makeDevApp())
+        .put(`/api/dev/data-objects/${entityType}/${entityId}`)
+        .send({ dataObject: { replaced: true } });
+      expect(putRes.status).toBe(200);
+      expect(putRes.body.dataObject).toEqual({ replaced: true });
+      expect(getStored().dataObject).toEqual({ replaced: true });
+    });
+
+    test("returns 400 for an unknown entity type", async () => {
+      const res = await request(makeDevApp()).get("/api/dev/data-objects/scene/abc");
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain("params.entityType must be one of: world, dropped-asset, visitor, user");
+    });
+
+    test("returns 400 when overwriting without a dataObject", async () => {
+      const res = await request(makeDevApp()).put("/api/dev/data-objects/dropped-asset/key").send({});
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain("body.dataObject must be an object");
+    });
+
+    test("does not create a data object for a dropped asset that does not exist", async () => {
+      const res = await request(makeDevApp())
+        .put("/api/dev/data-objects/dropped-asset/missing")
+        .send({ dataObject: { a: 1 } });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/dev/visitors", () => {
+    test("lists the visitors currently in the world", async () => {
+      simulator.addVisitor("test-world", { id: 3, displayName: "Ada", isAdmin: true, profileId: "p-3" });
+      simulator.addVisitor("test-world", { id: 4, displayName: "Grace", profileId: "p-4" });
+
+      const res = await request(makeDevApp()).get("/api/dev/visitors");
+
+      expect(res.status).toBe(200);
+      expect(res.body.visitors).toEqual([
+        { visitorId: 3, displayName: "Ada", isAdmin: true, profileId: "p-3", username: "visitor-3" },
+        { visitorId: 4, displayName: "Grace", isAdmin: false, profileId: "p-4", username: "visitor-4" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import express from "express";
+import request from "supertest";
+
+import { errorHandler } from "../utils/errorHandler.js";
+import {
+  AppError,
+  AuthError,
+  LockConflictError,
+  NotFoundError,
+  UpstreamError,
+  ValidationError,
+} from "../utils/errors.js";
+import { getCredentials } from "../utils/getCredentials.js";
+import { standardizeError } from "../utils/standardizeError.js";
+
+describe("errors", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key" };
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("getCredentials", () => {
+    test("throws a ValidationError listing missing fields", () => {
+      expect.assertions(3);
+      try {
+        getCredentials({ interactivePublicKey: "test-key", urlSlug: "my-world" });
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.status).toBe(400);
+        expect(error.details).toEqual({ missingFields: ["interactiveNonce", "visitorId"] });
+      }
+    });
+
+    test("throws an AuthError when the public key does not match", () => {
+      const query = {
+        interactiveNonce: "nonce",
+        interactivePublicKey: "other-key",
+        urlSlug: "my-world",
+        visitorId: "1",
+      };
+
+      expect(() => getCredentials(query)).toThrow(AuthError);
+    });
+
+    test("returns credentials when the query is valid", () => {
+      const query = {
+        interactiveNonce: "nonce",
+        interactivePublicKey: "test-key",
+        urlSlug: "my-world",
+        visitorId: "1",
+      };
+
+      expect(getCredentials(query)).toEqual(expect.objectContaining({ urlSlug: "my-world", visitorId: 1 }));
+    });
+  });
+
+  describe("standardizeError", () => {
+    test("returns AppErrors unchanged", () => {
+      const error = new NotFoundError("Dropped asset not found");
+
+      expect(standardizeError(error)).toBe(error);
+    });
+
+    test("wraps SDK errors in an UpstreamError that keeps the upstream status", () => {
+      const sdkError = { status: 404, message: "Asset not found", url: "https://api.topia.io/x", method: "GET" };
+
+      const error = standardizeError(sdkError);
+
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error).toEqual(expect.objectContaining({ status: 404, code: "UPSTREAM_ERROR", upstreamStatus: 404 }));
+      expect(error.cause).toBe(sdkError);
+    });
+
+    test("maps axios-style errors without a usable status to 502", () => {
+      const error = standardizeError({ message: "socket hang up", response: { status: 200 } });
+
+      expect(error.status).toBe(502);
+    });
+
+    test("turns strings and plain errors into internal errors", () => {
+      expect(standardizeError("Something broke")).toEqual(
+        expect.objectContaining({ message: "Something broke", status: 500, code: "INTERNAL_ERROR" }),
+      );
+      expect(standardizeError(new Error("Boom"))).toBeInstanceOf(AppError);
+    });
+  });
+
+  describe("errorHandler", () => {
+    function makeApp(error: unknown) {
+      const app = express();
+      app.get("/fail", (req, res) =>
+        errorHandler({ error, functionName: "handleFail", message: "Error failing", req, res }),
+      );
+      return app;
+    }
+
+    test.each([
+      [new ValidationError("bad input"), 400, "VALIDATION_ERROR"],
+      [new AuthError("bad key"), 401, "UNAUTHORIZED"],
+      [new LockConflictError("locked"), 409, "LOCK_CONFLICT"],
+      [{ status: 503, message: "Topia unavailable" }, 503, "UPSTREAM_ERROR"],
+      ["plain string", 500, "INTERNAL_ERROR"],
+    ])("responds to %p with %i and %s", async (error, status, code) => {
+      const res = await request(makeApp(error)).get("/fail");
+
+      expect(res.status).toBe(status);
+      expect(res.body).toEqual(
+        expect.objectContaining({
+          success: false,
+          code,
+          message: "Error failing",
+          error: expect.objectContaining({ code }),
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import http from "http";
+import { AddressInfo } from "net";
+
+import router from "../routes.js";
+import {
+  EventBusAdapter,
+  getEventBus,
+  getEventChannel,
+  InMemoryEventBusAdapter,
+  publishGameState,
+  setEventBus,
+} from "../utils/events/index.js";
+import { seedTopiaSimulator } from "../utils/topiaSimulator/index.js";
+
+type Stream = { events: any[]; status?: number; headers?: http.IncomingHttpHeaders; close: () => void };
+
+/** Opens an SSE connection and collects parsed `data:` events until closed */
+function openStream(server: http.Server, query: Record<string, string | number>) {
+  const { port } = server.address() as AddressInfo;
+  const search = new URLSearchParams(Object.entries(query).map(([key, value]) => [key, String(value)]));
+  const stream: Stream = { events: [], close: () => {} };
+
+  return new Promise<Stream>((resolve) => {
+    const req = http.get(`http://127.0.0.1:${port}/api/events?${search}`, (res) => {
+      stream.status = res.statusCode;
+      stream.headers = res.headers;
+      stream.close = () => req.destroy();
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        for (const line of chunk.split("\n")) {
+          if (line.startsWith("data: ")) stream.events.push(JSON.parse(line.slice(6)));
+        }
+        resolve(stream);
+      });
+    });
+  });
+}
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 50 && !condition(); i++) await new Promise((resolve) => setTimeout(resolve, 10));
+};
+
+describe("game events", () => {
+  const originalEnv = process.env;
+  let adapter: InMemoryEventBusAdapter;
+  let server: http.Server;
+  let query: Record<string, string | number>;
+
+  beforeEach(async () => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    adapter = new InMemoryEventBusAdapter();
+    setEventBus(adapter);
+
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+    query = {
+      assetId: keyAsset.id,
+      interactiveNonce: "nonce",
+      interactivePublicKey: "test-key",
+      urlSlug,
+      visitorId: visitor.id,
+    };
+
+    const app = express();
+    app.use("/api", router);
+    server = app.listen(0);
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("GET /api/events streams a connected event with SSE headers", async () => {
+    const stream = await openStream(server, query);
+
+    expect(stream.status).toBe(200);
+    expect(stream.headers?.["content-type"]).toBe("text/event-stream");
+    expect(stream.headers?.["cache-control"]).toBe("no-cache");
+    expect(stream.events[0]).toEqual({ type: "connected", timestamp: expect.any(Number) });
+
+    stream.close();
+  });
+
+  test("forwards game state published for the same key asset only", async () => {
+    const stream = await openStream(server, query);
+
+    await publishGameState({ ...query, assetId: "other-asset" } as any, { droppedAsset: { id: "other-asset" } });
+    await publishGameState(query as any, { droppedAsset: { id: String(query.assetId) } });
+    await waitFor(() => stream.events.length > 1);
+
+    expect(stream.events.slice(1)).toEqual([
+      { type: "game-state", timestamp: expect.any(Number), gameState: { droppedAsset: { id: query.assetId } } },
+    ]);
+
+    stream.close();
+  });
+
+  test("admin drops are broadcast to connected visitors", async () => {
+    const stream = await openStream(server, query);
+
+    await new Promise<void>((resolve) => {
+      const { port } = server.address() as AddressInfo;
+      const search = new URLSearchParams(Object.entries(query).map(([key, value]) => [key, String(value)]));
+      http
+        .request(`http://127.0.0.1:${port}/api/dropped-asset?${search}`, { method: "POST" }, (res) => {
+          res.resume();
+          res.on("end", resolve);
+        })
+        .end();
+    });
+    await waitFor(() => stream.events.length > 1);
+
+    expect(stream.events[1].gameState.droppedAsset).toEqual(
+      expect.objectContaining({ id: query.assetId, dataObject: { schemaVersion: 1, droppedAssetCount: 1 } }),
+    );
+
+    stream.close();
+  });
+
+  test("unsubscribes when the client disconnects", async () => {
+    const channel = getEventChannel(query as any);
+    const stream = await openStream(server, query);
+    expect(adapter.listenerCount(channel)).toBe(1);
+
+    stream.close();
+    await waitFor(() => adapter.listenerCount(channel) === 0);
+
+    expect(adapter.listenerCount(channel)).toBe(0);
+  });
+
+  test("rejects connections without valid credentials", async () => {
+    const stream = await openStream(server, { ...query, interactivePublicKey: "wrong-key" });
+
+    expect(stream.status).toBe(401);
+    expect(adapter.listenerCount(getEventChannel(query as any))).toBe(0);
+  });
+
+  test("rejects connections without an assetId before subscribing", async () => {
+    const { assetId, ...withoutAssetId } = query;
+    const stream = await openStream(server, withoutAssetId);
+
+    expect(stream.status).toBe(400);
+    expect(adapter.listenerCount(getEventChannel({ ...query, assetId: undefined } as any))).toBe(0);
+  });
+
+  test("rejects visitors Topia doesn't know", async () => {
+    const stream = await openStream(server, { ...query, visitorId: 99 });
+
+    expect(stream.status).toBe(404);
+    expect(adapter.listenerCount(getEventChannel(query as any))).toBe(0);
+  });
+
+  test("unsubscribes clients that disconnect while the subscription is pending", async () => {
+    const unsubscribe = jest.fn().mockResolvedValue(undefined);
+    let finishSubscribe = () => {};
+    const subscribe = jest.fn(
+      () => new Promise<() => Promise<void>>((resolve) => (finishSubscribe = () => resolve(unsubscribe))),
+    );
+    setEventBus({ publish: jest.fn(), subscribe });
+
+    let isSocketClosed = false;
+    server.once("connection", (socket) => socket.on("close", () => (isSocketClosed = true)));
+    const { port } = server.address() as AddressInfo;
+    const search = new URLSearchParams(Object.entries(query).map(([key, value]) => [key, String(value)]));
+    const req = http.get(`http://127.0.0.1:${port}/api/events?${search}`).on("error", () => {});
+
+    await waitFor(() => subscribe.mock.calls.length > 0);
+    req.destroy();
+    await waitFor(() => isSocketClosed);
+    finishSubscribe();
+    await waitFor(() => unsubscribe.mock.calls.length > 0);
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  test("uses the configured adapter", async () => {
+    const custom: EventBusAdapter = { publish: jest.fn(), subscribe: jest.fn() };
+    setEventBus(custom);
+
+    await publishGameState(query as any, { droppedAsset: { id: "asset" } });
+
+    expect(getEventBus()).toBe(custom);
+    expect(custom.publish).toHaveBeenCalledWith(
+      `game-events:my-world:${query.assetId}`,
+      expect.objectContaining({ type: "game-state" }),
+    );
+  });
+
+  test("logs instead of throwing when publishing fails", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    setEventBus({ publish: jest.fn().mockRejectedValue(new Error("Redis down")), subscribe: jest.fn() });
+
+    await expect(publishGameState(query as any, {})).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalled();
+  });
+});
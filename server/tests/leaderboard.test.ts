@@ -0,0 +1,256 @@
+import axios from "axios";
+import express from "express";
+import { AddressInfo } from "net";
+import request from "supertest";
+
+import { LeaderboardClient } from "../utils/LeaderboardClient.js";
+import { errorHandler } from "../utils/errorHandler.js";
+import { UpstreamError } from "../utils/errors.js";
+
+const credentials = {
+  assetId: "asset-123",
+  displayName: "Ada & Grace",
+  identityId: "",
+  interactiveNonce: "nonce-xyz",
+  interactivePublicKey: "test-key",
+  profileId: "profile-1",
+  sceneDropId: "",
+  uniqueName: "",
+  urlSlug: "my-world",
+  username: "ada",
+  visitorId: 1,
+};
+
+function makeClient(http: { request: jest.Mock }, options = {}) {
+  return new LeaderboardClient({
+    baseUrl: "https://leaderboard.example.com/",
+    http: http as any,
+    sleep: jest.fn().mockResolvedValue(undefined),
+    ...options,
+  });
+}
+
+function httpError(status?: number, code?: string) {
+  return Object.assign(new Error(`Request failed${status ? ` with status ${status}` : ""}`), {
+    code,
+    response: status ? { status, data: {} } : undefined,
+  });
+}
+
+describe("LeaderboardClient", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("is not configured without a base URL", async () => {
+    delete process.env.LEADERBOARD_BASE_URL;
+    const client = new LeaderboardClient();
+
+    expect(client.isConfigured).toBe(false);
+    await expect(client.incrementPlayerStats({ credentials })).rejects.toBeInstanceOf(UpstreamError);
+  });
+
+  test("incrementPlayerStats posts the player and passes credentials as params", async () => {
+    const http = { request: jest.fn().mockResolvedValue({ data: { success: true } }) };
+
+    await makeClient(http).incrementPlayerStats({ credentials, incrementBy: 3 });
+
+    expect(http.request).toHaveBeenCalledWith({
+      method: "POST",
+      url: "https://leaderboard.example.com/api/dropped-asset/increment-player-stats",
+      params: expect.objectContaining({ displayName: "Ada & Grace", interactiveNonce: "nonce-xyz", visitorId: 1 }),
+      data: {
+        publicKey: "test-key",
+        secret: "test-secret",
+        profileId: "profile-1",
+        displayName: "Ada & Grace",
+        incrementBy: 3,
+      },
+      timeout: 5000,
+    });
+  });
+
+  test("URL encodes credential query values", async () => {
+    const http = { request: jest.fn().mockResolvedValue({ data: {} }) };
+
+    await makeClient(http).getTopPlayers({ credentials });
+
+    const uri = axios.getUri(http.request.mock.calls[0][0]);
+    expect(uri).toContain("displayName=Ada+%26+Grace");
+    expect(uri).not.toContain("Ada & Grace");
+  });
+
+  test("setScore uses the configured data object type", async () => {
+    const http = { request: jest.fn().mockResolvedValue({ data: {} }) };
+
+    await makeClient(http, { dataObjectType: "world" }).setScore({ credentials, score: 42 });
+
+    expect(http.request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "https://leaderboard.example.com/api/world/update-player-stats",
+        data: expect.objectContaining({ highScore: 42 }),
+      }),
+    );
+  });
+
+  test("getTopPlayers returns ranked entries sorted by score", async () => {
+    const http = {
+      request: jest.fn().mockResolvedValue({
+        data: {
+          leaderboard: {
+            profiles: {
+              a: { displayName: "A", highScore: 5 },
+              b: { displayName: "B", highScore: 9 },
+              c: { displayName: "C", highScore: 1 },
+            },
+          },
+        },
+      }),
+    };
+
+    const entries = await makeClient(http).getTopPlayers({ credentials, limit: 2 });
+
+    expect(entries).toEqual([
+      { rank: 1, profileId: "b", displayName: "B", score: 9 },
+      { rank: 2, profileId: "a", displayName: "A", score: 5 },
+    ]);
+  });
+
+  test("retries idempotent requests on 5xx with exponential backoff", async () => {
+    const sleep = jest.fn().mockResolvedValue(undefined);
+    const http = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(500))
+        .mockResolvedValue({ data: { profiles: {} } }),
+    };
+
+    await makeClient(http, { sleep, retryDelayMs: 100 }).getTopPlayers({ credentials });
+
+    expect(http.request).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls[0][0]).toBeGreaterThanOrEqual(100);
+    expect(sleep.mock.calls[1][0]).toBeGreaterThanOrEqual(200);
+  });
+
+  test("does not retry increments after the leaderboard responded", async () => {
+    const http = { request: jest.fn().mockRejectedValue(httpError(500)) };
+
+    await expect(makeClient(http).incrementPlayerStats({ credentials })).rejects.toMatchObject({
+      code: "UPSTREAM_ERROR",
+      status: 500,
+    });
+    expect(http.request).toHaveBeenCalledTimes(1);
+  });
+
+  test("retries increments when the connection was refused", async () => {
+    const http = {
+      request: jest.fn().mockRejectedValueOnce(httpError(undefined, "ECONNREFUSED")).mockResolvedValue({ data: {} }),
+    };
+
+    await makeClient(http).incrementPlayerStats({ credentials });
+
+    expect(http.request).toHaveBeenCalledTimes(2);
+  });
+
+  test.each(["ECONNRESET", "ETIMEDOUT"])(
+    "does not retry increments after %s, as they may have landed",
+    async (code) => {
+      const http = { request: jest.fn().mockRejectedValue(httpError(undefined, code)) };
+
+      await expect(makeClient(http).incrementPlayerStats({ credentials })).rejects.toBeInstanceOf(UpstreamError);
+      expect(http.request).toHaveBeenCalledTimes(1);
+    },
+  );
+
+  test("never logs INTERACTIVE_SECRET when a request fails", async () => {
+    process.env.INTERACTIVE_SECRET = "SUPER-SECRET-VALUE";
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    // a port nothing listens on, so the real axios request is refused
+    const server = express().listen(0);
+    const { port } = server.address() as AddressInfo;
+    await new Promise((resolve) => server.close(resolve));
+
+    const error = await new LeaderboardClient({ baseUrl: `http://127.0.0.1:${port}`, maxRetries: 0 })
+      .incrementPlayerStats({ credentials })
+      .catch((error: unknown) => error);
+    errorHandler({ error, functionName: "incrementPlayerStats", message: "Error incrementing player stats" });
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(errorSpy).toHaveBeenCalled();
+    expect(errorSpy.mock.calls.flat().join("\n")).not.toContain("SUPER-SECRET-VALUE");
+    errorSpy.mockRestore();
+  });
+
+  test("gives up after maxRetries", async () => {
+    const http = { request: jest.fn().mockRejectedValue(httpError(502)) };
+
+    await expect(makeClient(http, { maxRetries: 1 }).getTopPlayers({ credentials })).rejects.toBeInstanceOf(
+      UpstreamError,
+    );
+    expect(http.request).toHaveBeenCalledTimes(2);
+  });
+});
+
+jest.mock("../utils/index.js", () => ({
+  ...jest.requireActual("../utils/errors.js"),
+  errorHandler: jest.fn(({ error, res, message }: any) => {
+    if (res) return res.status(error.status || 500).json({ success: false, code: error.code, message });
+    return { error: message };
+  }),
+  getCredentials: jest.fn(),
+  leaderboardClient: {
+    getTopPlayers: jest.fn(),
+  },
+}));
+
+describe("GET /api/leaderboard", () => {
+  const mockUtils = jest.mocked(require("../utils/index.js"));
+
+  function makeApp() {
+    const router = require("../routes.js").default;
+    const app = express();
+    app.use(express.json());
+    app.use("/api", router);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockUtils.getCredentials.mockReturnValue(credentials);
+  });
+
+  test("returns the top players", async () => {
+    const leaderboard = [{ rank: 1, profileId: "a", displayName: "A", score: 3 }];
+    mockUtils.leaderboardClient.getTopPlayers.mockResolvedValue(leaderboard);
+
+    const res = await request(makeApp()).get("/api/leaderboard").query({ limit: "5" });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ leaderboard, success: true });
+    expect(mockUtils.leaderboardClient.getTopPlayers).toHaveBeenCalledWith({ credentials, limit: 5 });
+  });
+
+  test("caps the limit at 100", async () => {
+    mockUtils.leaderboardClient.getTopPlayers.mockResolvedValue([]);
+
+    await request(makeApp()).get("/api/leaderboard").query({ limit: "1000" });
+
+    expect(mockUtils.leaderboardClient.getTopPlayers).toHaveBeenCalledWith({ credentials, limit: 100 });
+  });
+
+  test("passes upstream failures through errorHandler", async () => {
+    mockUtils.leaderboardClient.getTopPlayers.mockRejectedValue(new UpstreamError("Leaderboard down", 503));
+
+    const res = await request(makeApp()).get("/api/leaderboard");
+
+    expect(res.status).toBe(503);
+    expect(res.body.code).toBe("UPSTREAM_ERROR");
+  });
+});
@@ -0,0 +1,102 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import { errorHandler } from "../utils/errorHandler.js";
+import { LockConflictError } from "../utils/errors.js";
+import { getLockId, ignoreLockConflict, withLock } from "../utils/locks/index.js";
+import { World } from "../utils/topiaInit.js";
+import { SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("withLock", () => {
+  const originalEnv = process.env;
+  const credentials = { interactiveNonce: "nonce", interactivePublicKey: "test-key", urlSlug: "my-world" } as any;
+  let world: any;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    world = World.create("my-world", { credentials });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  test("lock IDs are the key itself or the key and the start of its time window", () => {
+    const now = at("2026-10-19T12:00:59Z");
+
+    expect(getLockId("reset", "request", now)).toBe("reset");
+    expect(getLockId("reset", "once", now)).toBe("reset");
+    expect(getLockId("reset", 60_000, now)).toBe("reset-2026-10-19T12:00:00.000Z");
+    expect(getLockId("reset", 60_000, at("2026-10-19T12:01:00Z"))).toBe("reset-2026-10-19T12:01:00.000Z");
+  });
+
+  test("request locks are released after each write and once locks are kept", async () => {
+    const increment = (options: any) => world.incrementDataObjectValue("count", 1, options);
+
+    await withLock(world, "count", increment);
+    await withLock(world, "count", increment);
+    expect(simulator.isLocked("count")).toBe(false);
+
+    await withLock(world, "bonus", increment, { window: "once" });
+    const error = await withLock(world, "bonus", increment, { window: "once" }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(LockConflictError);
+    expect(error).toMatchObject({ status: 409, details: { lockId: "bonus", attempts: 1 } });
+    expect(await withLock(world, "bonus", increment, { window: "once" }).catch(ignoreLockConflict)).toBe(false);
+    expect(simulator.getWorld("my-world").dataObject.count).toBe(3);
+  });
+
+  test("retries with a fresh data object until the lock is free or retries run out", async () => {
+    jest.spyOn(world, "fetchDataObject");
+    const conflict = Object.assign(new Error("Lock already acquired"), { status: 409 });
+    const write = jest.fn().mockRejectedValueOnce(conflict).mockResolvedValue("written");
+
+    await expect(withLock(world, "reset", write, { retries: 2, retryDelayMs: 1 })).resolves.toBe("written");
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(write).toHaveBeenCalledWith({ lock: { lockId: "reset", releaseLock: true } });
+    expect(world.fetchDataObject).toHaveBeenCalledTimes(1);
+
+    await world.setDataObject({}, { lock: { lockId: "held", releaseLock: false } });
+    const held = withLock(world, "held", (options) => world.setDataObject({}, options), {
+      retries: 2,
+      retryDelayMs: 1,
+    });
+
+    await expect(held).rejects.toMatchObject({ code: "LOCK_CONFLICT", details: { lockId: "held", attempts: 3 } });
+  });
+
+  test("other errors are thrown straight away", async () => {
+    const write = jest.fn().mockRejectedValue(Object.assign(new Error("Service unavailable"), { status: 503 }));
+
+    await expect(withLock(world, "reset", write, { retries: 2 })).rejects.toThrow("Service unavailable");
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  test("lock conflicts respond 409 through errorHandler", async () => {
+    await world.setDataObject({}, { lock: { lockId: "round", releaseLock: false } });
+    const app = express();
+    app.post("/round", async (req, res) => {
+      try {
+        await withLock(world, "round", (options) => world.updateDataObject({ started: true }, options));
+        return res.json({ success: true });
+      } catch (error) {
+        return errorHandler({ error, functionName: "startRound", message: "Error starting round", req, res });
+      }
+    });
+
+    const res = await request(app).post("/round");
+
+    expect(res.status).toBe(409);
+    expect(res.body).toMatchObject({ success: false, code: "LOCK_CONFLICT" });
+  });
+});
@@ -0,0 +1,172 @@
+import express from "express";
+import request from "supertest";
+
+import { requestId } from "../middleware/requestId.js";
+import { errorHandler } from "../utils/errorHandler.js";
+import { logger, redact } from "../utils/logger.js";
+
+function parseLines(spy: jest.SpyInstance) {
+  return spy.mock.calls.map(([line]) => JSON.parse(line));
+}
+
+describe("logger", () => {
+  const originalEnv = process.env;
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: "test" };
+    delete process.env.LOG_LEVEL;
+    delete process.env.LOG_REDACT_KEYS;
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("writes one JSON line per entry with level, message and fields", () => {
+    logger.info("Server is running", { port: 3000 });
+
+    const [entry] = parseLines(logSpy);
+    expect(entry).toEqual(expect.objectContaining({ level: "info", message: "Server is running", port: 3000 }));
+    expect(entry.time).toEqual(expect.any(String));
+  });
+
+  test("skips entries below LOG_LEVEL", () => {
+    process.env.LOG_LEVEL = "warn";
+
+    logger.info("ignored");
+    logger.error("kept");
+
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(parseLines(errorSpy)).toEqual([expect.objectContaining({ level: "error", message: "kept" })]);
+  });
+
+  test("child loggers carry their bindings", () => {
+    logger.child({ controller: "handleGetGameState" }).info("hello");
+
+    expect(parseLines(logSpy)[0]).toEqual(expect.objectContaining({ controller: "handleGetGameState" }));
+  });
+
+  describe("redact", () => {
+    test("redacts nonces and secrets at any depth", () => {
+      expect(
+        redact({
+          query: { interactiveNonce: "nonce", urlSlug: "my-world" },
+          config: { apiKey: "key", interactiveSecret: "secret" },
+          list: [{ jwt: "token" }],
+        }),
+      ).toEqual({
+        query: { interactiveNonce: "[REDACTED]", urlSlug: "my-world" },
+        config: { apiKey: "[REDACTED]", interactiveSecret: "[REDACTED]" },
+        list: [{ jwt: "[REDACTED]" }],
+      });
+    });
+
+    test("redacts extra keys from LOG_REDACT_KEYS", () => {
+      process.env.LOG_REDACT_KEYS = "displayName, email";
+
+      expect(redact({ displayName: "Ada", email: "ada@example.com", urlSlug: "my-world" })).toEqual({
+        displayName: "[REDACTED]",
+        email: "[REDACTED]",
+        urlSlug: "my-world",
+      });
+    });
+
+    test("serializes errors and handles circular references", () => {
+      const payload: any = { error: new Error("Boom") };
+      payload.self = payload;
+
+      const result: any = redact(payload);
+
+      expect(result.error).toEqual(expect.objectContaining({ name: "Error", message: "Boom" }));
+      expect(result.self).toBe("[Circular]");
+    });
+
+    test("leaves the request and response out of errors", () => {
+      const error = Object.assign(new Error("connect ECONNREFUSED"), {
+        code: "ECONNREFUSED",
+        config: { data: JSON.stringify({ secret: "test-secret" }) },
+        request: { path: "/api" },
+        response: { status: 500 },
+      });
+
+      expect(redact(error)).toEqual({
+        code: "ECONNREFUSED",
+        name: "Error",
+        message: error.message,
+        stack: error.stack,
+      });
+    });
+  });
+
+  describe("requestId middleware", () => {
+    function makeApp() {
+      const app = express();
+      app.use(requestId);
+      app.get("/test", (req, res) => {
+        logger.info("inside request");
+        res.json({ id: req.id });
+      });
+      return app;
+    }
+
+    test("assigns a request ID and returns it in the X-Request-Id header", async () => {
+      const res = await request(makeApp()).get("/test");
+
+      expect(res.headers["x-request-id"]).toEqual(expect.any(String));
+      expect(res.body.id).toBe(res.headers["x-request-id"]);
+    });
+
+    test("propagates a valid incoming X-Request-Id", async () => {
+      const res = await request(makeApp()).get("/test").set("X-Request-Id", "upstream-123");
+
+      expect(res.headers["x-request-id"]).toBe("upstream-123");
+    });
+
+    test("replaces an unsafe incoming X-Request-Id", async () => {
+      const res = await request(makeApp()).get("/test").set("X-Request-Id", "bad id\twith spaces");
+
+      expect(res.headers["x-request-id"]).not.toBe("bad id\twith spaces");
+    });
+
+    test("adds the request ID, urlSlug and visitorId to log lines written during the request", async () => {
+      await request(makeApp()).get("/test").set("X-Request-Id", "req-1").query({ urlSlug: "my-world", visitorId: "7" });
+
+      expect(parseLines(logSpy)[0]).toEqual(
+        expect.objectContaining({ message: "inside request", requestId: "req-1", urlSlug: "my-world", visitorId: "7" }),
+      );
+    });
+  });
+
+  describe("errorHandler", () => {
+    test("logs the controller name and request context without the nonce", async () => {
+      const app = express();
+      app.use(requestId);
+      app.get("/fail", (req, res) =>
+        errorHandler({ error: new Error("Boom"), functionName: "handleFail", message: "Error failing", req, res }),
+      );
+
+      const res = await request(app)
+        .get("/fail")
+        .set("X-Request-Id", "req-2")
+        .query({ interactiveNonce: "nonce-xyz", urlSlug: "my-world" });
+
+      expect(res.status).toBe(500);
+      const [entry] = parseLines(errorSpy);
+      expect(entry).toEqual(
+        expect.objectContaining({
+          level: "error",
+          message: "Error failing",
+          controller: "handleFail",
+          requestId: "req-2",
+          urlSlug: "my-world",
+        }),
+      );
+      expect(entry.requestContext.reqQueryParams.interactiveNonce).toBe("[REDACTED]");
+      expect(entry.error.message).toBe("Boom");
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import devRouter from "../routes.dev.js";
+import webhookRouter from "../routes.webhooks.js";
+import { apiRoutes, devApiRoutes, webhookRoutes } from "../../shared/contract/index.js";
+import { buildOpenApiDocument, RouteGroup } from "../utils/buildOpenApiDocument.js";
+
+const routeGroups: RouteGroup[] = [
+  { prefix: "/api", router, routes: apiRoutes, tag: "app" },
+  { prefix: "/api/dev", router: devRouter, routes: devApiRoutes, tag: "dev" },
+  { prefix: "/api/webhooks", router: webhookRouter, routes: webhookRoutes, tag: "webhooks" },
+];
+
+const getOperations = (document: ReturnType<typeof buildOpenApiDocument>) =>
+  Object.entries(document.paths).flatMap(([path, operations]) =>
+    Object.entries(operations).map(([method, operation]) => ({ name: `${method.toUpperCase()} ${path}`, operation })),
+  );
+
+describe("OpenAPI document", () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("every registered route has a description in shared/contract/routes.ts", () => {
+    const undocumented = getOperations(buildOpenApiDocument(routeGroups))
+      .filter(({ operation }) => !operation.description)
+      .map(({ name }) => name);
+
+    expect(undocumented).toEqual([]);
+  });
+
+  test("lists a route registered without a contract entry, without a description", () => {
+    const extraRouter = express.Router();
+    extraRouter.get("/undocumented/:id", (req, res) => res.json({}));
+
+    const document = buildOpenApiDocument([{ prefix: "/api", router: extraRouter, routes: apiRoutes, tag: "app" }]);
+
+    expect(document.paths["/api/undocumented/{id}"].get).toEqual({
+      tags: ["app"],
+      responses: { default: { $ref: "#/components/responses/Error" } },
+    });
+  });
+
+  test("app routes take the interactive credentials and their own query and body", () => {
+    const { paths, components }: any = buildOpenApiDocument(routeGroups);
+
+    expect(components.parameters.interactiveNonce).toEqual({
+      name: "interactiveNonce",
+      in: "query",
+      required: true,
+      schema: { type: "string", minLength: 1 },
+    });
+    expect(paths["/api/leaderboard"].get.parameters).toEqual(
+      expect.arrayContaining([
+        { $ref: "#/components/parameters/visitorId" },
+        { name: "limit", in: "query", required: false, schema: { type: "integer", minimum: 1 } },
+      ]),
+    );
+    expect(paths["/api/world/fire-toast"].put.requestBody).toEqual({
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              groupId: { type: "string", minLength: 1 },
+              title: { type: "string", minLength: 1, maxLength: 100 },
+              text: { type: "string", minLength: 1, maxLength: 500 },
+            },
+            required: ["title"],
+          },
+        },
+      },
+    });
+    expect(paths["/api/events"].get.responses["200"].content).toHaveProperty("text/event-stream");
+  });
+
+  test("system and dev routes do not ask for interactive credentials", () => {
+    const { paths }: any = buildOpenApiDocument(routeGroups);
+
+    expect(paths["/api/system/health"].get.parameters).toEqual([]);
+    expect(paths["/api/dev/drop-asset"].post).toMatchObject({ tags: ["dev"], parameters: [] });
+  });
+
+  test("webhook routes take the event, an optional signature header and the credentials in the body", () => {
+    const { paths }: any = buildOpenApiDocument(routeGroups);
+    const operation = paths["/api/webhooks/{event}"].post;
+
+    expect(operation.parameters).toEqual([
+      {
+        name: "event",
+        in: "path",
+        required: true,
+        schema: { type: "string", enum: ["zone-enter", "zone-exit", "world-trigger"] },
+      },
+      {
+        name: "X-Webhook-Signature",
+        in: "header",
+        required: false,
+        description: "Only checked when WEBHOOK_SIGNING_SECRET is set",
+        schema: { type: "string" },
+      },
+    ]);
+    expect(operation.requestBody.content["application/json"].schema.required).toEqual(
+      expect.arrayContaining(["interactiveNonce", "interactivePublicKey", "urlSlug", "visitorId"]),
+    );
+  });
+
+  test("GET /api/system/openapi.json is served in development only", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const makeApp = (env: Record<string, string>) => {
+      process.env = { ...originalEnv, ...env };
+      let app = express();
+      jest.isolateModules(() => {
+        app = express();
+        app.use("/api", require("../routes.js").default);
+      });
+      return app;
+    };
+
+    const devRes = await request(makeApp({ NODE_ENV: "development", API_KEY: "test-api-key" })).get(
+      "/api/system/openapi.json",
+    );
+    expect(devRes.status).toBe(200);
+    expect(devRes.body).toMatchObject({ openapi: "3.0.3", info: { title: "SDK App API" } });
+    expect(Object.keys(devRes.body.paths)).toEqual(
+      expect.arrayContaining(["/api/game-state", "/api/system/openapi.json", "/api/dev/world-info"]),
+    );
+
+    const prodRes = await request(makeApp({ NODE_ENV: "production" })).get("/api/system/openapi.json");
+    expect(prodRes.status).toBe(404);
+  });
+});
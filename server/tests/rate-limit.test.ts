@@ -0,0 +1,137 @@
+import express from "express";
+import request from "supertest";
+
+import { rateLimit } from "../middleware/rateLimit.js";
+import { MemoryRateLimitStore, RateLimitStore } from "../utils/rateLimit/index.js";
+
+const query = {
+  interactiveNonce: "nonce-xyz",
+  interactivePublicKey: "test-key",
+  profileId: "profile-1",
+  urlSlug: "my-world",
+  visitorId: "1",
+};
+
+function makeApp(store: RateLimitStore, options: { action?: string; limit?: number; windowMs?: number } = {}) {
+  const app = express();
+  app.get("/action", rateLimit({ action: "feed", limit: 2, windowMs: 60_000, store, ...options }), (req, res) =>
+    res.json({ success: true }),
+  );
+  app.get("/other", rateLimit({ action: "play", limit: 2, windowMs: 60_000, store }), (req, res) =>
+    res.json({ success: true }),
+  );
+  return app;
+}
+
+describe("rate limiting", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key" };
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.useRealTimers();
+  });
+
+  describe("MemoryRateLimitStore", () => {
+    test("counts hits per key and starts a new window once the old one ends", async () => {
+      let now = 1_000;
+      const store = new MemoryRateLimitStore({ now: () => now });
+
+      expect(await store.increment("a", 500)).toEqual({ count: 1, resetAt: 1_500 });
+      expect(await store.increment("a", 500)).toEqual({ count: 2, resetAt: 1_500 });
+      expect(await store.increment("b", 500)).toEqual({ count: 1, resetAt: 1_500 });
+
+      now = 1_500;
+      expect(await store.increment("a", 500)).toEqual({ count: 1, resetAt: 2_000 });
+    });
+
+    test("reset clears a single key", async () => {
+      const store = new MemoryRateLimitStore();
+      await store.increment("a", 500);
+
+      await store.reset("a");
+
+      expect((await store.increment("a", 500)).count).toBe(1);
+    });
+  });
+
+  describe("rateLimit middleware", () => {
+    test("allows `limit` requests per window, then responds 429 with retryAfter", async () => {
+      jest.useFakeTimers({ now: 0, doNotFake: ["nextTick", "setImmediate"] });
+      const app = makeApp(new MemoryRateLimitStore());
+
+      await request(app).get("/action").query(query).expect(200);
+      await request(app).get("/action").query(query).expect(200);
+
+      jest.setSystemTime(15_000);
+      const res = await request(app).get("/action").query(query);
+
+      expect(res.status).toBe(429);
+      expect(res.headers["retry-after"]).toBe("45");
+      expect(res.body).toEqual(
+        expect.objectContaining({
+          success: false,
+          code: "RATE_LIMITED",
+          retryAfter: 45,
+          error: expect.objectContaining({
+            code: "RATE_LIMITED",
+            message: "Too many feed requests. Try again in 45s.",
+          }),
+        }),
+      );
+    });
+
+    test("lets the visitor back in once the window ends", async () => {
+      jest.useFakeTimers({ now: 0, doNotFake: ["nextTick", "setImmediate"] });
+      const app = makeApp(new MemoryRateLimitStore(), { limit: 1, windowMs: 1_000 });
+
+      await request(app).get("/action").query(query).expect(200);
+      await request(app).get("/action").query(query).expect(429);
+
+      jest.setSystemTime(1_000);
+      await request(app).get("/action").query(query).expect(200);
+    });
+
+    test("keeps separate counters per action, profile and world", async () => {
+      const app = makeApp(new MemoryRateLimitStore(), { limit: 1 });
+
+      await request(app).get("/action").query(query).expect(200);
+      await request(app).get("/action").query(query).expect(429);
+      await request(app).get("/other").query(query).expect(200);
+      await request(app)
+        .get("/action")
+        .query({ ...query, profileId: "profile-2" })
+        .expect(200);
+      await request(app)
+        .get("/action")
+        .query({ ...query, urlSlug: "other-world" })
+        .expect(200);
+    });
+
+    test("keys on profileId + urlSlug + action in the configured store", async () => {
+      const store = { increment: jest.fn().mockResolvedValue({ count: 1, resetAt: Date.now() }), reset: jest.fn() };
+
+      await request(makeApp(store)).get("/action").query(query).expect(200);
+      await request(makeApp(store))
+        .get("/action")
+        .query({ ...query, profileId: "" })
+        .expect(200);
+
+      expect(store.increment).toHaveBeenNthCalledWith(1, "profile-1:my-world:feed", 60_000);
+      expect(store.increment).toHaveBeenNthCalledWith(2, "visitor-1:my-world:feed", 60_000);
+    });
+
+    test("rejects requests without credentials before counting them", async () => {
+      const store = { increment: jest.fn(), reset: jest.fn() };
+
+      const res = await request(makeApp(store)).get("/action");
+
+      expect(res.status).toBe(400);
+      expect(store.increment).not.toHaveBeenCalled();
+    });
+  });
+});
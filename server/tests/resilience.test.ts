@@ -0,0 +1,278 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import axios from "axios";
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import request from "supertest";
+
+import { errorHandler } from "../utils/errorHandler.js";
+import { CircuitOpenError, UpstreamError, UpstreamTimeoutError } from "../utils/errors.js";
+import { LeaderboardClient } from "../utils/LeaderboardClient.js";
+import {
+  CircuitBreaker,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+  resilienceConfig,
+  withResilience,
+} from "../utils/resilience/index.js";
+import { DroppedAsset } from "../utils/topiaInit.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+const credentials = {
+  assetId: "asset-123",
+  displayName: "Ada",
+  interactiveNonce: "nonce",
+  interactivePublicKey: "test-key",
+  profileId: "profile-1",
+  urlSlug: "my-world",
+  visitorId: 1,
+} as any;
+
+type Fault = "hang" | "reset" | number;
+
+/**
+ * Stands in for the leaderboard and the Topia API. Each request takes the next queued fault:
+ * a status to respond with, "hang" to answer too late or "reset" to drop the connection.
+ */
+function startStandIn() {
+  const faults: Fault[] = [];
+  const hits: string[] = [];
+  const app = express();
+
+  app.use((req, res) => {
+    hits.push(`${req.method} ${req.path}`);
+    const fault = faults.shift();
+
+    if (fault === "reset") return req.socket.destroy();
+    if (fault === "hang") return setTimeout(() => res.json({ late: true }), 500);
+    if (fault) return res.status(fault).json({ message: `Injected ${fault}` });
+    if (req.path.startsWith("/assets/")) return res.json({ id: req.path.split("/")[2], position: { x: 1, y: 2 } });
+    return res.json({ profiles: { a: { displayName: "A", highScore: 3 } } });
+  });
+
+  const server: Server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    faults,
+    hits,
+    host: `127.0.0.1:${port}`,
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+// the shape of an SDK factory and entity, calling the stand-in over HTTP
+class StandInDroppedAsset {
+  id: string;
+  position?: { x: number; y: number };
+  constructor(
+    private readonly baseUrl: string,
+    id: string,
+  ) {
+    this.id = id;
+  }
+  async fetchDroppedAssetById() {
+    const { data } = await axios.get(`${this.baseUrl}/assets/${this.id}`, { timeout: 5000 });
+    Object.assign(this, data);
+  }
+  async updatePosition(x: number, y: number) {
+    await axios.put(`${this.baseUrl}/assets/${this.id}/position`, { x, y }, { timeout: 5000 });
+  }
+}
+
+class StandInDroppedAssetFactory {
+  constructor(private readonly baseUrl: string) {}
+  create(id: string) {
+    return new StandInDroppedAsset(this.baseUrl, id);
+  }
+  async get(id: string) {
+    const droppedAsset = this.create(id);
+    await droppedAsset.fetchDroppedAssetById();
+    return droppedAsset;
+  }
+}
+
+describe("resilience", () => {
+  const originalConfig = { ...resilienceConfig };
+  let standIn: ReturnType<typeof startStandIn>;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    Object.assign(resilienceConfig, { retryDelayMs: 1 });
+    standIn = startStandIn();
+  });
+
+  afterEach(async () => {
+    Object.assign(resilienceConfig, originalConfig);
+    resetCircuitBreakers();
+    jest.restoreAllMocks();
+    await standIn.close();
+  });
+
+  describe("LeaderboardClient", () => {
+    const makeClient = (options = {}) =>
+      new LeaderboardClient({ baseUrl: standIn.baseUrl, retryDelayMs: 1, timeoutMs: 100, ...options });
+
+    test("reads are retried through 5xx and dropped connections", async () => {
+      standIn.faults.push(503, "reset");
+
+      const players = await makeClient().getTopPlayers({ credentials });
+
+      expect(players).toEqual([{ rank: 1, profileId: "a", displayName: "A", score: 3 }]);
+      expect(standIn.hits).toHaveLength(3);
+    });
+
+    test("increments aren't retried once the leaderboard answered, and failures keep the upstream status", async () => {
+      standIn.faults.push(500);
+
+      const error = await makeClient()
+        .incrementPlayerStats({ credentials })
+        .catch((error: any) => error);
+
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error).toMatchObject({
+        status: 500,
+        upstreamStatus: 500,
+        message: expect.stringContaining("Injected 500"),
+      });
+      expect(standIn.hits).toEqual(["POST /api/dropped-asset/increment-player-stats"]);
+    });
+
+    test("a slow leaderboard times out with a 504 instead of hanging the request", async () => {
+      standIn.faults.push("hang", "hang", "hang");
+
+      const error = await makeClient()
+        .getTopPlayers({ credentials })
+        .catch((error: any) => error);
+
+      expect(error).toBeInstanceOf(UpstreamTimeoutError);
+      expect(error).toMatchObject({ status: 504, code: "UPSTREAM_TIMEOUT" });
+      expect(standIn.hits).toHaveLength(3);
+    });
+
+    test("repeated failures open the circuit, which fails fast with a 503 and Retry-After", async () => {
+      const client = makeClient({ maxRetries: 0 });
+      standIn.faults.push(...Array(resilienceConfig.failureThreshold).fill(502));
+
+      for (let i = 0; i < resilienceConfig.failureThreshold; i++) {
+        await expect(client.getTopPlayers({ credentials })).rejects.toMatchObject({ status: 502 });
+      }
+      await expect(client.getTopPlayers({ credentials })).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(standIn.hits).toHaveLength(resilienceConfig.failureThreshold);
+      expect(getCircuitBreaker(standIn.host).getState()).toBe("open");
+
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const app = express();
+      app.get("/leaderboard", async (req, res) => {
+        try {
+          return res.json({ leaderboard: await client.getTopPlayers({ credentials }) });
+        } catch (error) {
+          return errorHandler({
+            error,
+            functionName: "getLeaderboard",
+            message: "Error loading leaderboard",
+            req,
+            res,
+          });
+        }
+      });
+      const res = await request(app).get("/leaderboard");
+
+      expect(res.status).toBe(503);
+      expect(res.headers["retry-after"]).toBe("30");
+      expect(res.body).toMatchObject({ code: "UPSTREAM_UNAVAILABLE", retryAfter: 30 });
+    });
+  });
+
+  describe("CircuitBreaker", () => {
+    test("lets one trial call through after the reset timeout and closes or reopens on its result", () => {
+      let now = 0;
+      const breaker = new CircuitBreaker("api.topia.io", { failureThreshold: 2, resetTimeoutMs: 1000, now: () => now });
+
+      breaker.recordFailure();
+      breaker.beforeCall("get");
+      breaker.recordFailure();
+      expect(breaker.getState()).toBe("open");
+      expect(() => breaker.beforeCall("get")).toThrow(CircuitOpenError);
+
+      now = 1000;
+      breaker.beforeCall("get");
+      expect(breaker.getState()).toBe("half-open");
+      // only the one trial call
+      expect(() => breaker.beforeCall("get")).toThrow(CircuitOpenError);
+      breaker.recordFailure();
+      expect(breaker.getState()).toBe("open");
+
+      now = 2000;
+      breaker.beforeCall("get");
+      breaker.recordSuccess();
+      expect(breaker.getState()).toBe("closed");
+    });
+  });
+
+  describe("withResilience", () => {
+    const makeFactory = () => withResilience(new StandInDroppedAssetFactory(standIn.baseUrl), standIn.host);
+
+    test("reads are retried and the entities they return are wrapped too", async () => {
+      standIn.faults.push("reset");
+
+      const droppedAsset = await makeFactory().get("asset-1");
+      expect(droppedAsset).toMatchObject({ id: "asset-1", position: { x: 1, y: 2 } });
+
+      standIn.faults.push(503);
+      await droppedAsset.fetchDroppedAssetById();
+      expect(standIn.hits).toEqual([
+        "GET /assets/asset-1",
+        "GET /assets/asset-1",
+        "GET /assets/asset-1",
+        "GET /assets/asset-1",
+      ]);
+    });
+
+    test("writes aren't retried, and fail with a typed error", async () => {
+      const droppedAsset = makeFactory().create("asset-1");
+      standIn.faults.push(503);
+
+      await expect(droppedAsset.updatePosition(3, 4)).rejects.toMatchObject({
+        code: "UPSTREAM_ERROR",
+        status: 503,
+        details: { host: standIn.host, operation: "StandInDroppedAsset.updatePosition" },
+      });
+      expect(standIn.hits).toEqual(["PUT /assets/asset-1/position"]);
+    });
+
+    test("instance fields and spied methods are left alone", async () => {
+      const droppedAsset = makeFactory().create("asset-1");
+      const spy = jest.spyOn(droppedAsset, "updatePosition").mockResolvedValue(undefined);
+
+      await droppedAsset.updatePosition(3, 4);
+
+      expect(droppedAsset.id).toBe("asset-1");
+      expect(droppedAsset.updatePosition).toBe(spy);
+      expect(standIn.hits).toEqual([]);
+    });
+
+    test("the Topia factories time out slow calls", async () => {
+      const { keyAsset } = seedTopiaSimulator("my-world");
+      resilienceConfig.timeoutMs = 20;
+      simulator.latencyMs = 100;
+
+      const error = await DroppedAsset.get(keyAsset.id, "my-world", { credentials }).catch((error: any) => error);
+
+      expect(error).toBeInstanceOf(UpstreamTimeoutError);
+      // named after the simulator's entity here, and the SDK's DroppedAsset against Topia
+      expect(error.details).toEqual({ host: "api.topia.io", operation: "SimulatedDroppedAsset.fetchDroppedAssetById" });
+      // the read was retried before giving up
+      expect(simulator.reads).toBe(resilienceConfig.retries + 1);
+    });
+  });
+});
@@ -27,12 +27,25 @@ const mockedAxios = jest.mocked(axios);
 
 // Mock the utils
 jest.mock("../utils/index.js", () => ({
+  ...jest.requireActual("../utils/serializers/index.js"),
   errorHandler: jest.fn(),
+  evaluateBadges: jest.fn(),
   getCredentials: jest.fn(),
   getDroppedAsset: jest.fn(),
+  getScheduler: jest.fn(() => ({ watchWorld: jest.fn() })),
+  getTimezone: jest.fn(),
+  getVisitor: jest.fn(),
+  grantXp: jest.fn(),
+  leaderboardClient: {
+    isConfigured: true,
+    incrementPlayerStats: jest.fn(),
+  },
+  recordDailyAction: jest.fn(),
+  trackEvent: jest.fn(),
   Visitor: {
     get: jest.fn(),
   },
+  withAnalytics: jest.fn(),
   World: {
     create: jest.fn(),
   },
@@ -56,58 +69,124 @@ describe("routes", () => {
     expect(res.body.envs).toHaveProperty("NODE_ENV");
   });
 
-  test("GET /game-state returns game state with dropped asset and admin status", async () => {
-    const mockDroppedAsset = {
-      id: "dropped-asset-123",
-      position: { x: 100, y: 200 },
-      name: "Test Asset"
+  const mockDroppedAsset = {
+    id: "dropped-asset-123",
+    position: { x: 100, y: 200 },
+    name: "Test Asset",
+  };
+
+  function setupGameMocks() {
+    const visitorDataObject: Record<string, any> = {
+      schemaVersion: 4,
+      exampleParam: "",
+      completedCount: 0,
+      xp: 0,
+      level: 1,
+      daily: {},
+      streak: { current: 0, longest: 0 },
     };
-
     const mockVisitor = {
       isAdmin: true,
-      id: 1
+      id: 1,
+      dataObject: visitorDataObject,
+      incrementDataObjectValue: jest.fn(async (path: string, amount: number) => {
+        visitorDataObject[path] += amount;
+      }),
+      fetchDataObject: jest.fn().mockResolvedValue({}),
+      updateDataObject: jest.fn(async (updates: object) => Object.assign(visitorDataObject, updates)),
     };
 
     const mockWorld = {
       triggerParticle: jest.fn().mockResolvedValue({}),
-      fireToast: jest.fn().mockResolvedValue({})
+      fireToast: jest.fn().mockResolvedValue({}),
     };
 
     // Setup mocks
     mockUtils.getCredentials.mockReturnValue(baseCreds);
     mockUtils.getDroppedAsset.mockResolvedValue(mockDroppedAsset);
-    mockUtils.Visitor.get.mockResolvedValue(mockVisitor);
+    mockUtils.getVisitor.mockResolvedValue(mockVisitor);
+    mockUtils.getTimezone.mockReturnValue("UTC");
+    mockUtils.withAnalytics.mockReturnValue({ analytics: [] });
+    mockUtils.recordDailyAction.mockResolvedValue({});
+    mockUtils.evaluateBadges.mockResolvedValue([]);
+    // the real grantXp, wired to the mocked World and leaderboardClient above
+    mockUtils.grantXp.mockImplementation(jest.requireActual("../utils/xp/grantXp.js").grantXp);
     mockUtils.World.create.mockReturnValue(mockWorld);
     mockedAxios.post.mockResolvedValue({ data: { success: true } });
+    mockUtils.leaderboardClient.incrementPlayerStats.mockResolvedValue({ success: true });
+
+    return { mockVisitor, mockWorld };
+  }
+
+  test("GET /game-state returns game state with dropped asset and admin status", async () => {
+    const { mockVisitor, mockWorld } = setupGameMocks();
 
     const app = makeApp();
-    const res = await request(app)
-      .get("/api/game-state")
-      .query(baseCreds);
+    const res = await request(app).get("/api/game-state").query(baseCreds);
 
     expect(res.status).toBe(200);
     expect(res.body).toHaveProperty("success", true);
-    expect(res.body).toHaveProperty("droppedAsset", mockDroppedAsset);
+    expect(res.body).toHaveProperty("droppedAsset", { id: mockDroppedAsset.id, position: mockDroppedAsset.position });
     expect(res.body).toHaveProperty("isAdmin", true);
+    expect(res.body).toHaveProperty("isLeaderboardEnabled", true);
+    expect(res.body).toHaveProperty("visitorData", mockVisitor.dataObject);
 
     // Verify mocks were called correctly
-    expect(mockUtils.getCredentials).toHaveBeenCalledWith(expect.objectContaining({
-      assetId: "asset-123",
-      interactiveNonce: "nonce-xyz",
-      urlSlug: "my-world",
-      visitorId: "1" // Query params come as strings
-    }));
+    expect(mockUtils.getCredentials).toHaveBeenCalledWith(
+      expect.objectContaining({
+        assetId: "asset-123",
+        interactiveNonce: "nonce-xyz",
+        urlSlug: "my-world",
+        visitorId: "1", // Query params come as strings
+      }),
+    );
     expect(mockUtils.getDroppedAsset).toHaveBeenCalledWith(baseCreds);
-    expect(mockUtils.Visitor.get).toHaveBeenCalledWith(baseCreds.visitorId, baseCreds.urlSlug, { credentials: baseCreds });
+    expect(mockUtils.getVisitor).toHaveBeenCalledWith(baseCreds);
     expect(mockUtils.World.create).toHaveBeenCalledWith(baseCreds.urlSlug, { credentials: baseCreds });
     expect(mockWorld.triggerParticle).toHaveBeenCalledWith({
       name: "Sparkle",
       duration: 3,
-      position: mockDroppedAsset.position
+      position: mockDroppedAsset.position,
+    });
+
+    // loading the game state completes nothing
+    expect(mockVisitor.incrementDataObjectValue).not.toHaveBeenCalled();
+    expect(mockUtils.recordDailyAction).not.toHaveBeenCalled();
+    expect(mockUtils.grantXp).not.toHaveBeenCalled();
+    expect(mockUtils.leaderboardClient.incrementPlayerStats).not.toHaveBeenCalled();
+    expect(mockWorld.fireToast).not.toHaveBeenCalled();
+  });
+
+  test("POST /complete-task counts the completion, grants XP and badges and toasts the level up", async () => {
+    const { mockVisitor, mockWorld } = setupGameMocks();
+
+    const res = await request(makeApp()).post("/api/complete-task").query(baseCreds);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ visitorData: mockVisitor.dataObject, success: true });
+    expect(mockUtils.trackEvent).toHaveBeenCalledWith("completions", { credentials: baseCreds });
+    expect(mockVisitor.incrementDataObjectValue).toHaveBeenCalledWith("completedCount", 1, { analytics: [] });
+    expect(mockUtils.recordDailyAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "task-completed",
+        credentials: baseCreds,
+        limit: 10,
+        timezone: "UTC",
+        visitor: mockVisitor,
+      }),
+    );
+    expect(mockUtils.evaluateBadges).toHaveBeenCalledWith({
+      credentials: baseCreds,
+      visitor: mockVisitor,
+      event: { type: "task-completed" },
+    });
+    expect(mockUtils.leaderboardClient.incrementPlayerStats).toHaveBeenCalledWith({
+      credentials: baseCreds,
+      incrementBy: 10,
     });
     expect(mockWorld.fireToast).toHaveBeenCalledWith({
       title: "You've leveled up!",
-      text: "Congratulations! You've reached a new level."
+      text: "Congratulations! You've reached a new level.",
     });
   });
 
@@ -126,16 +205,14 @@ describe("routes", () => {
     });
 
     const app = makeApp();
-    await request(app)
-      .get("/api/game-state")
-      .query(baseCreds);
+    await request(app).get("/api/game-state").query(baseCreds);
 
     expect(mockUtils.errorHandler).toHaveBeenCalledWith({
       error: mockError,
       functionName: "getDroppedAssetDetails",
       message: "Error getting dropped asset instance and data object",
       req: expect.any(Object),
-      res: expect.any(Object)
+      res: expect.any(Object),
     });
   }, 30000);
 });
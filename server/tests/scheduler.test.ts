@@ -0,0 +1,324 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import {
+  getNextCronRun,
+  getScheduler,
+  JobRegistry,
+  MemoryScheduledJobStore,
+  parseCron,
+  Scheduler,
+  setScheduler,
+} from "../utils/scheduler/index.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+const at = (iso: string) => Date.parse(iso);
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+describe("cron expressions", () => {
+  test("parses lists, ranges and steps and rejects anything else", () => {
+    const cron = parseCron("*/15 9-17 1,15 * 7");
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.weekdays]).toEqual([0]);
+
+    expect(() => parseCron("0 9 * *")).toThrow("expected 5 fields, got 4");
+    expect(() => parseCron("60 * * * *")).toThrow('"60" must be within 0-59');
+    expect(() => parseCron("0 9 * * mon")).toThrow('can\'t parse "mon"');
+  });
+
+  test("finds the next matching minute on the wall clock of the timezone", () => {
+    const monday = at("2026-10-19T12:00:00Z");
+
+    expect(getNextCronRun("0 9 * * 1", monday)).toBe(at("2026-10-26T09:00:00Z"));
+    expect(getNextCronRun("*/5 * * * *", at("2026-10-19T12:00:30Z"))).toBe(at("2026-10-19T12:05:00Z"));
+    expect(getNextCronRun("30 8 * * *", monday, "Asia/Tokyo")).toBe(at("2026-10-19T23:30:00Z"));
+    // when both day fields are restricted either one matches
+    expect(getNextCronRun("0 0 1 * 1", monday)).toBe(at("2026-10-26T00:00:00Z"));
+    expect(getNextCronRun("0 0 29 2 *", monday)).toBe(at("2028-02-29T00:00:00Z"));
+    expect(() => getNextCronRun("0 0 31 2 *", monday)).toThrow("never matches");
+  });
+});
+
+describe("Scheduler", () => {
+  const originalEnv = process.env;
+  let credentials: Record<string, any>;
+  let registry: JobRegistry;
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = {
+      ...originalEnv,
+      API_KEY: "test-api-key",
+      INTERACTIVE_KEY: "test-key",
+      INTERACTIVE_SECRET: "test-secret",
+    };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+    credentials = {
+      assetId: keyAsset.id,
+      interactiveNonce: "nonce",
+      interactivePublicKey: "test-key",
+      profileId: visitor.profileId,
+      urlSlug,
+      visitorId: visitor.id,
+    };
+    registry = new JobRegistry();
+    now = at("2026-10-19T12:00:00Z");
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  test("delayed jobs run once when due and are then completed", async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    registry.register("close-round", handler);
+    const scheduler = new Scheduler({ store: new MemoryScheduledJobStore(), registry, now: clock });
+
+    const job = await scheduler.scheduleJob({
+      credentials: credentials as any,
+      name: "close-round",
+      payload: { round: 2 },
+      schedule: { type: "delay", runAt: at("2026-10-19T12:10:00Z") },
+    });
+
+    now = at("2026-10-19T12:09:59Z");
+    await scheduler.runDueJobs();
+    expect(handler).not.toHaveBeenCalled();
+
+    now = at("2026-10-19T12:10:00Z");
+    await scheduler.runDueJobs();
+    await scheduler.runDueJobs();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, payload: { round: 2 } }));
+    expect(await scheduler.listJobs(credentials as any)).toEqual([
+      expect.objectContaining({ status: "completed", nextRunAt: undefined, lastRunAt: now, runCount: 1 }),
+    ]);
+  });
+
+  test("cron jobs stay scheduled for their next run and failures are recorded", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const handler = jest.fn().mockRejectedValueOnce(new Error("Board unavailable")).mockResolvedValue(undefined);
+    registry.register("reset-board", handler);
+    const scheduler = new Scheduler({ store: new MemoryScheduledJobStore(), registry, now: clock });
+
+    const job = await scheduler.scheduleJob({
+      credentials: credentials as any,
+      name: "reset-board",
+      schedule: { type: "cron", cron: "0 9 * * *", timezone: "America/New_York" },
+    });
+    expect(job.nextRunAt).toBe(at("2026-10-19T13:00:00Z"));
+
+    now = at("2026-10-19T13:00:00Z");
+    await scheduler.runDueJobs();
+
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Error running scheduled job reset-board"));
+    expect((await scheduler.listJobs(credentials as any))[0]).toMatchObject({
+      status: "scheduled",
+      nextRunAt: at("2026-10-20T13:00:00Z"),
+      runCount: 1,
+      lastError: "Board unavailable",
+    });
+
+    now = at("2026-10-20T13:00:00Z");
+    await scheduler.runDueJobs();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect((await scheduler.listJobs(credentials as any))[0]).toMatchObject({ runCount: 2, lastError: undefined });
+  });
+
+  test("rejects jobs without a handler and schedules in unknown timezones", async () => {
+    registry.register("reset-board", jest.fn());
+    const scheduler = new Scheduler({ store: new MemoryScheduledJobStore(), registry, now: clock });
+
+    await expect(
+      scheduler.scheduleJob({ credentials: credentials as any, name: "nope", schedule: { type: "delay", runAt: now } }),
+    ).rejects.toThrow("No handler registered for job nope");
+    await expect(
+      scheduler.scheduleJob({
+        credentials: credentials as any,
+        name: "reset-board",
+        schedule: { type: "cron", cron: "0 9 * * *", timezone: "Mars/Olympus_Mons" },
+      }),
+    ).rejects.toThrow("Unknown timezone: Mars/Olympus_Mons");
+  });
+
+  test("jobs are kept in the world data object and run by only one of several instances", async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    registry.register("close-round", handler);
+
+    const job = await new Scheduler({ registry, now: clock }).scheduleJob({
+      credentials: credentials as any,
+      name: "close-round",
+      schedule: { type: "delay", runAt: at("2026-10-19T12:10:00Z") },
+    });
+    expect(simulator.getWorld("my-world").dataObject.scheduledJobs[job.id]).toMatchObject({ status: "scheduled" });
+
+    // as if restarted on two instances, which find the world again through a visitor
+    const instances = [1, 2].map(() => new Scheduler({ registry, now: clock }));
+    instances.forEach((scheduler) => scheduler.watchWorld(credentials as any));
+    now = at("2026-10-19T12:10:00Z");
+    await Promise.all(instances.map((scheduler) => scheduler.runDueJobs()));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(simulator.getWorld("my-world").dataObject.scheduledJobs[job.id]).toMatchObject({
+      status: "completed",
+      runCount: 1,
+    });
+  });
+
+  test("jobs keep only the world and key asset, and run with app-level credentials", async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    registry.register("close-round", handler);
+
+    const job = await new Scheduler({ registry, now: clock }).scheduleJob({
+      credentials: credentials as any,
+      name: "close-round",
+      schedule: { type: "delay", runAt: at("2026-10-19T12:10:00Z") },
+    });
+    expect(simulator.getWorld("my-world").dataObject.scheduledJobs[job.id].credentials).toEqual({
+      assetId: credentials.assetId,
+      interactivePublicKey: "test-key",
+      urlSlug: "my-world",
+    });
+
+    const scheduler = new Scheduler({ registry, now: clock });
+    scheduler.watchWorld(credentials as any);
+    now = at("2026-10-19T12:10:00Z");
+    await scheduler.runDueJobs();
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        credentials: expect.objectContaining({ interactiveNonce: "", urlSlug: "my-world", visitorId: 0 }),
+      }),
+    );
+  });
+
+  test("jobs need the API_KEY, as there's no visitor nonce to run them with", async () => {
+    delete process.env.API_KEY;
+    const handler = jest.fn().mockResolvedValue(undefined);
+    registry.register("close-round", handler);
+    const scheduler = new Scheduler({ registry, now: clock });
+
+    await expect(
+      scheduler.scheduleJob({
+        credentials: credentials as any,
+        name: "close-round",
+        schedule: { type: "delay", runAt: at("2026-10-19T12:10:00Z") },
+      }),
+    ).rejects.toThrow("API_KEY is required for scheduled jobs");
+
+    scheduler.start();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("scheduled jobs won't run"));
+    scheduler.stop();
+  });
+
+  test("a job cancelled while it runs stays cancelled", async () => {
+    const scheduler = new Scheduler({ store: new MemoryScheduledJobStore(), registry, now: clock });
+    registry.register("close-round", async ({ id }) => {
+      await scheduler.cancelJob(credentials as any, id);
+    });
+    await scheduler.scheduleJob({
+      credentials: credentials as any,
+      name: "close-round",
+      schedule: { type: "cron", cron: "*/5 * * * *" },
+    });
+
+    now = at("2026-10-19T12:05:00Z");
+    await scheduler.runDueJobs();
+
+    expect((await scheduler.listJobs(credentials as any))[0]).toMatchObject({
+      status: "cancelled",
+      nextRunAt: undefined,
+      runCount: 1,
+    });
+  });
+
+  test("worlds without scheduled jobs stop being checked until they're watched again", async () => {
+    const store = new MemoryScheduledJobStore();
+    const listSpy = jest.spyOn(store, "list");
+    const scheduler = new Scheduler({ store, registry, now: clock });
+
+    scheduler.watchWorld(credentials as any);
+    await scheduler.runDueJobs();
+    await scheduler.runDueJobs();
+    expect(listSpy).toHaveBeenCalledTimes(1);
+
+    registry.register("close-round", jest.fn());
+    await scheduler.scheduleJob({
+      credentials: credentials as any,
+      name: "close-round",
+      schedule: { type: "delay", runAt: at("2026-10-19T12:10:00Z") },
+    });
+    await scheduler.runDueJobs();
+    await scheduler.runDueJobs();
+    expect(listSpy).toHaveBeenCalledTimes(3);
+  });
+
+  describe("admin routes", () => {
+    const originalScheduler = getScheduler();
+
+    beforeEach(() => {
+      registry.register("close-round", jest.fn());
+      setScheduler(new Scheduler({ store: new MemoryScheduledJobStore(), registry, now: clock }));
+    });
+
+    afterEach(() => {
+      setScheduler(originalScheduler);
+    });
+
+    test("GET /api/world/jobs lists the world's jobs without their credentials", async () => {
+      await getScheduler().scheduleJob({
+        credentials: credentials as any,
+        name: "close-round",
+        schedule: { type: "delay", runAt: at("2026-10-19T12:10:00Z") },
+      });
+
+      const res = await request(makeApp()).get("/api/world/jobs").query(credentials);
+
+      expect(res.status).toBe(200);
+      expect(res.body.jobs).toEqual([
+        expect.objectContaining({ name: "close-round", status: "scheduled", nextRunAt: at("2026-10-19T12:10:00Z") }),
+      ]);
+      expect(res.body.jobs[0]).not.toHaveProperty("credentials");
+    });
+
+    test("DELETE /api/world/jobs/:jobId cancels a job once and 404s for unknown jobs", async () => {
+      const job = await getScheduler().scheduleJob({
+        credentials: credentials as any,
+        name: "close-round",
+        schedule: { type: "delay", runAt: at("2026-10-19T12:10:00Z") },
+      });
+      const app = makeApp();
+
+      const cancelled = await request(app).delete(`/api/world/jobs/${job.id}`).query(credentials);
+      const again = await request(app).delete(`/api/world/jobs/${job.id}`).query(credentials);
+      const missing = await request(app).delete("/api/world/jobs/missing").query(credentials);
+
+      expect(cancelled.status).toBe(200);
+      expect(cancelled.body.job).toMatchObject({ id: job.id, status: "cancelled" });
+      expect(again.status).toBe(409);
+      expect(missing.status).toBe(404);
+    });
+  });
+});
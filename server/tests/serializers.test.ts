@@ -0,0 +1,117 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { DroppedAsset, Visitor, World } from "../utils/topiaInit.js";
+import { serializeDroppedAsset, serializeVisitor, serializeWorld } from "../utils/serializers/index.js";
+import { seedTopiaSimulator } from "../utils/topiaSimulator/index.js";
+
+// Everything the SDK attaches to its instances that must never reach the client
+const sdkInternals = {
+  credentials: { interactiveNonce: "nonce-secret", interactivePublicKey: "test-key", visitorId: 1 },
+  jwt: "jwt-secret",
+  requestOptions: { headers: { Authorization: "api-key-secret" } },
+  topia: { apiKey: "api-key-secret", interactiveSecret: "interactive-secret" },
+};
+const secrets = ["nonce-secret", "jwt-secret", "api-key-secret", "interactive-secret"];
+
+function expectNoSecrets(body: unknown) {
+  const json = JSON.stringify(body);
+  for (const key of Object.keys(sdkInternals)) expect(json).not.toContain(`"${key}"`);
+  for (const secret of secrets) expect(json).not.toContain(secret);
+}
+
+describe("serializers", () => {
+  test("serializeDroppedAsset keeps client fields and drops SDK internals", () => {
+    const dto = serializeDroppedAsset({
+      id: "asset-1",
+      assetName: "Key Asset",
+      dataObject: { schemaVersion: 1, droppedAssetCount: 2 },
+      position: { x: 1, y: 2, _internal: true },
+      topLayerURL: "top.png",
+      ...sdkInternals,
+    });
+
+    expect(JSON.parse(JSON.stringify(dto))).toEqual({
+      id: "asset-1",
+      assetName: "Key Asset",
+      dataObject: { schemaVersion: 1, droppedAssetCount: 2 },
+      position: { x: 1, y: 2 },
+      topLayerURL: "top.png",
+    });
+    expectNoSecrets(dto);
+  });
+
+  test("serializeVisitor and serializeWorld drop SDK internals", () => {
+    const visitor = serializeVisitor({ id: 7, displayName: "Ada", isAdmin: true, ...sdkInternals });
+    const world = serializeWorld({ urlSlug: "my-world", name: "My World", ...sdkInternals });
+
+    expect(visitor).toEqual(expect.objectContaining({ visitorId: 7, displayName: "Ada", isAdmin: true }));
+    expect(world).toEqual(expect.objectContaining({ urlSlug: "my-world", name: "My World" }));
+    expectNoSecrets([visitor, world]);
+  });
+
+  describe("controller responses", () => {
+    const originalEnv = process.env;
+    let query: Record<string, string | number>;
+
+    function makeApp() {
+      const app = express();
+      app.use(express.json());
+      app.use("/api", router);
+      return app;
+    }
+
+    // Make every simulated SDK instance look like a real one, internals included
+    function withSdkInternals<T extends object>(factory: T, method: keyof T) {
+      const original = (factory[method] as any).bind(factory);
+      (jest.spyOn(factory, method as any) as jest.SpyInstance).mockImplementation(async (...args: any[]) =>
+        Object.assign(await original(...args), sdkInternals),
+      );
+    }
+
+    beforeEach(() => {
+      topiaMock.reset();
+      process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "interactive-secret" };
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+      query = {
+        assetId: keyAsset.id,
+        interactiveNonce: "nonce-secret",
+        interactivePublicKey: "test-key",
+        urlSlug,
+        visitorId: visitor.id,
+      };
+
+      withSdkInternals(DroppedAsset, "get");
+      withSdkInternals(DroppedAsset, "drop");
+      withSdkInternals(Visitor, "get");
+      const createWorld = World.create.bind(World);
+      jest.spyOn(World, "create").mockImplementation((...args) => Object.assign(createWorld(...args), sdkInternals));
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    test("GET /api/game-state", async () => {
+      const res = await request(makeApp()).get("/api/game-state").query(query);
+
+      expect(res.status).toBe(200);
+      expect(res.body.droppedAsset).toEqual(expect.objectContaining({ id: query.assetId, assetName: "Key Asset" }));
+      expectNoSecrets(res.body);
+    });
+
+    test("POST /api/dropped-asset", async () => {
+      const res = await request(makeApp()).post("/api/dropped-asset").query(query);
+
+      expect(res.status).toBe(200);
+      expect(res.body.droppedAsset.id).toEqual(expect.any(String));
+      expectNoSecrets(res.body);
+    });
+  });
+});
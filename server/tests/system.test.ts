@@ -0,0 +1,136 @@
+import axios from "axios";
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { apiRoutes } from "../../shared/contract/index.js";
+import { buildInfo } from "../utils/buildInfo.js";
+import { checkReadiness } from "../utils/checkReadiness.js";
+import { leaderboardClient } from "../utils/LeaderboardClient.js";
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+describe("system routes", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      INSTANCE_DOMAIN: "api.example.com",
+      INTERACTIVE_KEY: "test-key",
+      INTERACTIVE_SECRET: "test-secret",
+    };
+    delete process.env.LEADERBOARD_BASE_URL;
+    delete process.env.TOPIA_SIMULATOR;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("GET /system/health only reports whether each environment value is set", async () => {
+    process.env.INSTANCE_DOMAIN = "api.example.com";
+    delete process.env.S3_BUCKET;
+
+    const res = await request(makeApp()).get("/api/system/health");
+
+    expect(res.status).toBe(200);
+    expect(res.body.envs).toEqual(
+      expect.objectContaining({ INSTANCE_DOMAIN: true, INTERACTIVE_KEY: true, S3_BUCKET: false }),
+    );
+    expect(JSON.stringify(res.body)).not.toContain("test-key");
+    expect(JSON.stringify(res.body)).not.toContain("api.example.com");
+    expect(res.body.appVersion).toBe(buildInfo.version);
+  });
+
+  test("GET /system/live responds without checking dependencies", async () => {
+    const getSpy = jest.spyOn(axios, "get");
+
+    const res = await request(makeApp()).get("/api/system/live");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: "OK", uptimeSeconds: expect.any(Number) });
+    expect(getSpy).not.toHaveBeenCalled();
+  });
+
+  test("GET /system/ready returns 200 with the build version when every check passes", async () => {
+    jest.spyOn(axios, "get").mockResolvedValue({ status: 404 });
+
+    const res = await request(makeApp()).get("/api/system/ready");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      status: "ready",
+      version: buildInfo,
+      checks: {
+        credentials: { status: "ok" },
+        leaderboard: { status: "skipped", message: "LEADERBOARD_BASE_URL is not set" },
+        topia: { status: "ok", latencyMs: expect.any(Number) },
+      },
+    });
+    expect(JSON.stringify(res.body)).not.toContain("test-secret");
+    expect(apiRoutes.getReadiness.response.parse(res.body)).toMatchObject({ success: true });
+  });
+
+  test("GET /system/ready returns 503 when credentials are missing", async () => {
+    delete process.env.INTERACTIVE_SECRET;
+    jest.spyOn(axios, "get").mockResolvedValue({ status: 200 });
+
+    const res = await request(makeApp()).get("/api/system/ready");
+
+    expect(res.status).toBe(503);
+    expect(res.body.status).toBe("not_ready");
+    expect(res.body.checks.credentials).toEqual({ status: "error", message: "Missing INTERACTIVE_SECRET" });
+  });
+
+  describe("checkReadiness", () => {
+    test("pings the Topia API with the readiness timeout", async () => {
+      process.env.READINESS_TIMEOUT_MS = "500";
+      const getSpy = jest.spyOn(axios, "get").mockResolvedValue({ status: 200 });
+
+      await checkReadiness();
+
+      expect(getSpy).toHaveBeenCalledWith("https://api.example.com", expect.objectContaining({ timeout: 500 }));
+    });
+
+    test("fails when the Topia API is unreachable", async () => {
+      jest.spyOn(axios, "get").mockRejectedValue(new Error("timeout of 2000ms exceeded"));
+
+      const report = await checkReadiness();
+
+      expect(report.status).toBe("not_ready");
+      expect(report.checks.topia).toEqual(
+        expect.objectContaining({ status: "error", message: "timeout of 2000ms exceeded" }),
+      );
+    });
+
+    test("checks the leaderboard when it is configured", async () => {
+      process.env.LEADERBOARD_BASE_URL = "https://leaderboard.example.com";
+      jest.spyOn(axios, "get").mockResolvedValue({ status: 200 });
+      const pingSpy = jest.spyOn(leaderboardClient, "ping").mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+      const report = await checkReadiness();
+
+      expect(pingSpy).toHaveBeenCalledWith({ timeoutMs: 2000 });
+      expect(report.status).toBe("not_ready");
+      expect(report.checks.leaderboard).toEqual(expect.objectContaining({ status: "error" }));
+    });
+
+    test("skips credential and Topia checks when the simulator is enabled", async () => {
+      process.env = { TOPIA_SIMULATOR: "true" };
+      const getSpy = jest.spyOn(axios, "get");
+
+      const report = await checkReadiness();
+
+      expect(report.status).toBe("ready");
+      expect(report.checks.credentials.status).toBe("skipped");
+      expect(report.checks.topia.status).toBe("skipped");
+      expect(getSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { getDroppedAsset } from "../utils/droppedAssets/index.js";
+import {
+  getTopiaCacheStats,
+  invalidateDroppedAsset,
+  runWithTopiaCacheScope,
+  topiaCacheConfig,
+  TopiaReadCache,
+} from "../utils/topiaCache/index.js";
+import { DroppedAsset, Visitor } from "../utils/topiaInit.js";
+import { getVisitor } from "../utils/visitors/index.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+describe("Topia read cache", () => {
+  const originalEnv = process.env;
+  let credentials: Record<string, any>;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+    credentials = {
+      assetId: keyAsset.id,
+      interactiveNonce: "nonce",
+      interactivePublicKey: "test-key",
+      profileId: visitor.profileId,
+      urlSlug,
+      visitorId: visitor.id,
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  test("identical reads within a request are fetched once, each into its own instance", async () => {
+    const [admin, visitor] = await runWithTopiaCacheScope(() =>
+      Promise.all([1, 2].map(() => Visitor.get(credentials.visitorId, "my-world", { credentials }))),
+    );
+
+    expect(simulator.reads).toBe(1);
+    expect(admin).not.toBe(visitor);
+    expect(visitor).toMatchObject({ id: credentials.visitorId, isAdmin: true, profileId: "simulator-profile" });
+
+    // visitors are only cached within a request
+    await Visitor.get(credentials.visitorId, "my-world", { credentials });
+    expect(simulator.reads).toBe(2);
+    expect(getTopiaCacheStats()).toMatchObject({ requestHits: 1, ttlHits: 0, misses: 2 });
+  });
+
+  test("dropped asset details are cached across requests, but their data objects never are", async () => {
+    const first = await runWithTopiaCacheScope(() => getDroppedAsset(credentials as any));
+    simulator.getDroppedAsset("my-world", credentials.assetId).dataObject.droppedAssetCount = 5;
+    simulator.reads = 0;
+
+    const second = await runWithTopiaCacheScope(() => getDroppedAsset(credentials as any));
+
+    expect(second.position).toEqual(first.position);
+    expect(second.dataObject).toMatchObject({ droppedAssetCount: 5 });
+    // only the data object was fetched
+    expect(simulator.reads).toBe(1);
+    expect(getTopiaCacheStats()).toMatchObject({ ttlHits: 1, size: 1 });
+  });
+
+  test("writes through the app's helpers invalidate cached details", async () => {
+    await DroppedAsset.get(credentials.assetId, "my-world", { credentials });
+    simulator.getDroppedAsset("my-world", credentials.assetId).position = { x: 10, y: 20 };
+
+    expect((await DroppedAsset.get(credentials.assetId, "my-world", { credentials })).position).toEqual({ x: 0, y: 0 });
+
+    invalidateDroppedAsset("my-world", credentials.assetId);
+
+    expect((await DroppedAsset.get(credentials.assetId, "my-world", { credentials })).position).toEqual({
+      x: 10,
+      y: 20,
+    });
+  });
+
+  test("details expire after their TTL and failed reads aren't cached", async () => {
+    let now = Date.parse("2026-10-19T12:00:00Z");
+    const cache = new TopiaReadCache({ now: () => now });
+    const read = () => {
+      const world: Record<string, any> = {};
+      return cache.fill("world:my-world", world, async () => Object.assign(world, simulator.getWorld("my-world")), {
+        ttlMs: 30_000,
+      });
+    };
+
+    await read();
+    simulator.getWorld("my-world").name = "Renamed World";
+    expect((await read()).name).toBe("Simulator World");
+
+    now += 30_000;
+    expect((await read()).name).toBe("Renamed World");
+    expect(cache.getStats()).toMatchObject({ ttlHits: 1, misses: 2 });
+
+    simulator.reads = 0;
+    const missing = () => DroppedAsset.get("missing", "my-world", { credentials });
+    await expect(missing()).rejects.toMatchObject({ status: 404 });
+    await expect(missing()).rejects.toMatchObject({ status: 404 });
+    expect(simulator.reads).toBe(2);
+  });
+
+  test("reads go straight to Topia when the cache is disabled", async () => {
+    topiaCacheConfig.enabled = false;
+    try {
+      await runWithTopiaCacheScope(async () => {
+        await DroppedAsset.get(credentials.assetId, "my-world", { credentials });
+        await DroppedAsset.get(credentials.assetId, "my-world", { credentials });
+      });
+    } finally {
+      topiaCacheConfig.enabled = true;
+    }
+
+    expect(simulator.reads).toBe(2);
+    expect(getTopiaCacheStats()).toMatchObject({ requestHits: 0, ttlHits: 0, misses: 0 });
+  });
+
+  test("the reads behind an admin-checked game state take fewer round trips", async () => {
+    const readGameState = () =>
+      runWithTopiaCacheScope(async () => {
+        await Visitor.get(credentials.visitorId, "my-world", { credentials });
+        await getDroppedAsset(credentials as any);
+        await getVisitor(credentials as any);
+      });
+    const countReads = async () => {
+      simulator.reads = 0;
+      await readGameState();
+      return simulator.reads;
+    };
+
+    topiaCacheConfig.enabled = false;
+    try {
+      // the first request initializes the data objects
+      await readGameState();
+      // the visitor twice, the dropped asset and both data objects
+      expect(await countReads()).toBe(5);
+    } finally {
+      topiaCacheConfig.enabled = true;
+    }
+
+    expect(await countReads()).toBe(4);
+    expect(await countReads()).toBe(3);
+  });
+
+  test("GET /api/system/health reports the counters", async () => {
+    await DroppedAsset.get(credentials.assetId, "my-world", { credentials });
+
+    const res = await request(makeApp()).get("/api/system/health");
+
+    expect(res.body.topiaCache).toEqual({ requestHits: 0, ttlHits: 0, misses: 1, invalidations: 0, size: 1 });
+  });
+});
@@ -0,0 +1,195 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { DroppedAsset, Visitor, World } from "../utils/topiaInit.js";
+import { isTopiaSimulatorEnabled, seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+describe("Topia simulator", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("is never enabled in production", () => {
+    process.env.TOPIA_SIMULATOR = "true";
+    expect(isTopiaSimulatorEnabled()).toBe(true);
+
+    process.env.NODE_ENV = "production";
+    expect(isTopiaSimulatorEnabled()).toBe(false);
+  });
+
+  describe("data objects", () => {
+    test("set replaces, update merges dot-notation paths and increment adds to the stored value", async () => {
+      simulator.addDroppedAsset("my-world", { id: "asset-1" });
+      const droppedAsset = DroppedAsset.create("asset-1", "my-world");
+
+      await droppedAsset.setDataObject({ count: 1, profiles: {} });
+      await droppedAsset.updateDataObject({ "profiles.abc.highScore": 10 });
+      await droppedAsset.incrementDataObjectValue("count", 2);
+
+      expect(droppedAsset.dataObject).toEqual({ count: 3, profiles: { abc: { highScore: 10 } } });
+
+      const otherInstance = DroppedAsset.create("asset-1", "my-world");
+      await otherInstance.fetchDataObject();
+      expect(otherInstance.dataObject).toEqual(droppedAsset.dataObject);
+    });
+
+    test("rejects a write with a lockId that is still held", async () => {
+      const world = World.create("my-world");
+      const lock = { lockId: "world-lock" };
+
+      await world.updateDataObject({ a: 1 }, { lock });
+
+      await expect(world.updateDataObject({ a: 2 }, { lock })).rejects.toMatchObject({ status: 409 });
+      expect(simulator.getWorld("my-world").dataObject).toEqual({ a: 1 });
+    });
+
+    test("frees the lock after the write when releaseLock is set", async () => {
+      const world = World.create("my-world");
+      const lock = { lockId: "world-lock", releaseLock: true };
+
+      await world.incrementDataObjectValue("count", 1, { lock });
+      await world.incrementDataObjectValue("count", 1, { lock });
+
+      expect(simulator.getWorld("my-world").dataObject).toEqual({ count: 2 });
+      expect(simulator.isLocked("world-lock")).toBe(false);
+    });
+
+    test("expires held locks after lockTtlMs", async () => {
+      simulator.lockTtlMs = 0;
+      const world = World.create("my-world");
+
+      await world.setDataObject({ a: 1 }, { lock: { lockId: "world-lock" } });
+      await world.setDataObject({ a: 2 }, { lock: { lockId: "world-lock" } });
+
+      expect(simulator.getWorld("my-world").dataObject).toEqual({ a: 2 });
+    });
+  });
+
+  describe("entities", () => {
+    test("fails with a 404 for dropped assets and visitors that are not in the world", async () => {
+      await expect(DroppedAsset.get("missing", "my-world")).rejects.toMatchObject({ status: 404 });
+      await expect(Visitor.get(42, "my-world")).rejects.toMatchObject({ status: 404 });
+    });
+
+    test("drops assets that can be found by uniqueName and deleted", async () => {
+      const droppedAsset = await DroppedAsset.drop(
+        { id: "webImageAsset" },
+        { position: { x: 10, y: 20 }, uniqueName: "flower", urlSlug: "my-world", layer0: "bottom.png" },
+      );
+
+      const world = World.create("my-world");
+      const [found] = await world.fetchDroppedAssetsWithUniqueName({ uniqueName: "flower" });
+      expect(found).toEqual(
+        expect.objectContaining({ id: droppedAsset.id, position: { x: 10, y: 20 }, bottomLayerURL: "bottom.png" }),
+      );
+
+      await World.deleteDroppedAssets("my-world", [droppedAsset.id], "secret", {});
+      expect(await world.fetchDroppedAssetsWithUniqueName({ uniqueName: "flower" })).toEqual([]);
+    });
+
+    test("records toasts and particles fired in a world or for a visitor", async () => {
+      simulator.addVisitor("my-world", { id: 7 });
+      const visitor = Visitor.create(7, "my-world");
+      const world = World.create("my-world");
+
+      await visitor.fireToast({ title: "Hi" });
+      await world.triggerParticle({ name: "Sparkle", duration: 3, position: { x: 1, y: 2 } });
+
+      expect(simulator.toasts).toEqual([{ urlSlug: "my-world", visitorId: 7, title: "Hi" }]);
+      expect(simulator.particles).toEqual([
+        { urlSlug: "my-world", name: "Sparkle", duration: 3, position: { x: 1, y: 2 } },
+      ]);
+    });
+  });
+
+  describe("routes", () => {
+    function getQuery() {
+      const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+      return {
+        assetId: keyAsset.id,
+        interactiveNonce: "nonce",
+        interactivePublicKey: "test-key",
+        urlSlug,
+        visitorId: visitor.id,
+      };
+    }
+
+    test("GET /api/game-state initializes the key asset data object, and completing the task fires a toast", async () => {
+      const query = getQuery();
+
+      const res = await request(makeApp()).get("/api/game-state").query(query);
+      expect(simulator.toasts).toEqual([]);
+      await request(makeApp()).post("/api/complete-task").query(query).expect(200);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual(
+        expect.objectContaining({
+          droppedAsset: expect.objectContaining({ id: query.assetId }),
+          isAdmin: true,
+          success: true,
+        }),
+      );
+      expect(simulator.getDroppedAsset("my-world", query.assetId).dataObject).toEqual({
+        schemaVersion: 1,
+        droppedAssetCount: 0,
+      });
+      // the first completion is also the visitor's first level up
+      expect(simulator.toasts).toEqual([expect.objectContaining({ urlSlug: "my-world", title: "You've leveled up!" })]);
+      expect(simulator.particles).toEqual([
+        expect.objectContaining({ name: "Sparkle" }),
+        expect.objectContaining({ name: "whiteStar_burst" }),
+      ]);
+    });
+
+    test("admins can drop copies of the key asset and remove them again", async () => {
+      const query = getQuery();
+      const app = makeApp();
+
+      await request(app).get("/api/game-state").query(query);
+      await request(app).post("/api/dropped-asset").query(query).expect(200);
+      await request(app).post("/api/dropped-asset").query(query).expect(200);
+
+      expect(simulator.getWorld("my-world").droppedAssets.size).toBe(3);
+      expect(simulator.getDroppedAsset("my-world", query.assetId).dataObject.droppedAssetCount).toBe(2);
+
+      const res = await request(app).post("/api/remove-dropped-assets").query(query);
+
+      expect(res.body).toEqual({ removedCount: 2, success: true });
+      expect(simulator.getWorld("my-world").droppedAssets.size).toBe(1);
+    });
+
+    test("non-admin visitors get a 403", async () => {
+      const query = getQuery();
+      simulator.addVisitor("my-world", { id: 2, isAdmin: false });
+
+      const res = await request(makeApp())
+        .post("/api/dropped-asset")
+        .query({ ...query, visitorId: 2 });
+
+      expect(res.status).toBe(403);
+      expect(simulator.getWorld("my-world").droppedAssets.size).toBe(1);
+    });
+  });
+});
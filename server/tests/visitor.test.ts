@@ -0,0 +1,150 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { dataObjectSchemas } from "../utils/dataObjects/index.js";
+import { getVisitor } from "../utils/visitors/index.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+const defaults = dataObjectSchemas.visitor.defaults();
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+describe("visitor data", () => {
+  const originalEnv = process.env;
+  let credentials: Record<string, any>;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+    credentials = {
+      assetId: keyAsset.id,
+      interactiveNonce: "nonce",
+      interactivePublicKey: "test-key",
+      urlSlug,
+      visitorId: visitor.id,
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("getVisitor", () => {
+    test("initializes an empty data object with the schema defaults", async () => {
+      const visitor = await getVisitor(credentials as any);
+
+      expect(visitor.dataObject).toEqual(defaults);
+      expect(simulator.getVisitor("my-world", credentials.visitorId).dataObject).toEqual(visitor.dataObject);
+    });
+
+    test("leaves an up to date data object untouched", async () => {
+      simulator.getVisitor("my-world", credentials.visitorId).dataObject = { ...defaults, exampleParam: "saved" };
+
+      const visitor = await getVisitor(credentials as any);
+
+      expect(visitor.dataObject).toEqual({ ...defaults, exampleParam: "saved" });
+    });
+
+    test("fills fields added since the data object was written", async () => {
+      simulator.getVisitor("my-world", credentials.visitorId).dataObject = { legacyField: true };
+
+      const visitor = await getVisitor(credentials as any);
+
+      expect(visitor.dataObject).toEqual({ ...defaults, legacyField: true });
+    });
+  });
+
+  test("GET /api/visitor returns the visitor and their data", async () => {
+    const res = await request(makeApp()).get("/api/visitor").query(credentials);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      visitor: {
+        visitorId: credentials.visitorId,
+        displayName: "Simulator Admin",
+        isAdmin: true,
+        profileId: "simulator-profile",
+        username: "simulator-admin",
+      },
+      visitorData: defaults,
+      success: true,
+    });
+  });
+
+  test("GET /api/visitor responds 404 for a visitor that is not in the world", async () => {
+    const res = await request(makeApp())
+      .get("/api/visitor")
+      .query({ ...credentials, visitorId: 99 });
+
+    expect(res.status).toBe(404);
+  });
+
+  test("PATCH /api/visitor updates only the fields sent", async () => {
+    simulator.getVisitor("my-world", credentials.visitorId).dataObject = { ...defaults, exampleParam: "old" };
+
+    const res = await request(makeApp())
+      .patch("/api/visitor")
+      .query(credentials)
+      .send({ exampleParam: "new", schemaVersion: 99 });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ visitorData: { ...defaults, exampleParam: "new" }, success: true });
+    expect(simulator.getVisitor("my-world", credentials.visitorId).dataObject).toEqual(res.body.visitorData);
+  });
+
+  test("PATCH /api/visitor can clear a string field", async () => {
+    simulator.getVisitor("my-world", credentials.visitorId).dataObject = { ...defaults, exampleParam: "old" };
+
+    const res = await request(makeApp()).patch("/api/visitor").query(credentials).send({ exampleParam: "" });
+
+    expect(res.body.visitorData).toEqual(defaults);
+  });
+
+  test.each([
+    [{ exampleParam: 5 }, "body.exampleParam must be a string"],
+    [{ exampleParam: "x".repeat(101) }, "body.exampleParam must be 0-100 characters"],
+  ])("PATCH /api/visitor rejects %j", async (body, message) => {
+    const res = await request(makeApp()).patch("/api/visitor").query(credentials).send(body);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.details.issues).toEqual([{ path: "body.exampleParam", message }]);
+    expect(simulator.getVisitor("my-world", credentials.visitorId).dataObject).toEqual({});
+  });
+
+  test("PATCH /api/visitor rejects a body without any known field", async () => {
+    const res = await request(makeApp()).patch("/api/visitor").query(credentials).send({ unknown: true });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe("At least one field to update is required");
+  });
+
+  test("POST /api/complete-task counts the completion in the visitor's data", async () => {
+    simulator.getVisitor("my-world", credentials.visitorId).dataObject = { ...defaults, exampleParam: "saved" };
+
+    const res = await request(makeApp()).post("/api/complete-task").query(credentials);
+
+    expect(res.status).toBe(200);
+    expect(res.body.visitorData).toEqual({
+      ...defaults,
+      exampleParam: "saved",
+      completedCount: 1,
+      xp: 10,
+      level: 2,
+      daily: { "task-completed": { day: expect.any(String), count: 1 } },
+      streak: { current: 1, longest: 1, lastActiveDay: expect.any(String) },
+    });
+  });
+});
@@ -0,0 +1,221 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import webhookRouter from "../routes.webhooks.js";
+import { UpstreamTimeoutError } from "../utils/errors.js";
+import { Visitor } from "../utils/topiaInit.js";
+import { SimulatorStore } from "../utils/topiaSimulator/index.js";
+import {
+  captureRawBody,
+  getWebhookDeliveryStore,
+  MemoryWebhookDeliveryStore,
+  registerWebhookHandler,
+  signWebhookPayload,
+  webhookRegistry,
+} from "../utils/webhooks/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+function makeApp() {
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.use("/api/webhooks", webhookRouter);
+  return app;
+}
+
+const payload = {
+  assetId: "zone-asset",
+  interactiveNonce: "nonce-1",
+  interactivePublicKey: "test-key",
+  profileId: "profile-1",
+  uniqueName: "lobby-zone",
+  urlSlug: "my-world",
+  visitorId: 7,
+};
+
+const sendWebhook = (event: string, body: object, secret = "test-secret") => {
+  const rawBody = JSON.stringify(body);
+  return request(makeApp())
+    .post(`/api/webhooks/${event}`)
+    .set("Content-Type", "application/json")
+    .set("X-Webhook-Signature", signWebhookPayload(rawBody, secret))
+    .send(rawBody);
+};
+
+describe("webhooks", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    delete process.env.WEBHOOK_SIGNING_SECRET;
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    simulator.addVisitor("my-world", { id: payload.visitorId });
+    webhookRegistry.clear();
+    (getWebhookDeliveryStore() as MemoryWebhookDeliveryStore).clear();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  test("runs zone handlers with a typed event and the payload's credentials", async () => {
+    const handler = jest.fn();
+    registerWebhookHandler("zone-enter", handler);
+
+    const res = await sendWebhook("zone-enter", payload);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ duplicate: false, handlerCount: 1, success: true });
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "zone-enter",
+        zone: { droppedAssetId: "zone-asset", uniqueName: "lobby-zone" },
+        credentials: expect.objectContaining({ urlSlug: "my-world", visitorId: 7, profileId: "profile-1" }),
+      }),
+    );
+  });
+
+  test("passes the trigger's dataObject to world-trigger handlers only", async () => {
+    const triggerHandler = jest.fn();
+    const zoneHandler = jest.fn();
+    registerWebhookHandler("world-trigger", triggerHandler);
+    registerWebhookHandler("zone-exit", zoneHandler);
+
+    await sendWebhook("world-trigger", { ...payload, dataObject: { action: "open-gate" } });
+
+    expect(triggerHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "world-trigger", dataObject: { action: "open-gate" } }),
+    );
+    expect(zoneHandler).not.toHaveBeenCalled();
+  });
+
+  test("acknowledges events without handlers", async () => {
+    const res = await sendWebhook("zone-exit", payload);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ duplicate: false, handlerCount: 0 });
+  });
+
+  test("runs handlers once when the same payload is delivered twice", async () => {
+    const handler = jest.fn();
+    registerWebhookHandler("zone-enter", handler);
+
+    await sendWebhook("zone-enter", payload);
+    const redelivery = await sendWebhook("zone-enter", payload);
+    await sendWebhook("zone-enter", { ...payload, interactiveNonce: "nonce-2" });
+
+    expect(redelivery.status).toBe(200);
+    expect(redelivery.body).toMatchObject({ duplicate: true, handlerCount: 0 });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test("treats a payload with reordered keys or extra fields as the same delivery", async () => {
+    const handler = jest.fn();
+    registerWebhookHandler("zone-enter", handler);
+
+    await sendWebhook("zone-enter", payload);
+    const reordered = Object.fromEntries(Object.entries(payload).reverse());
+    const redelivery = await sendWebhook("zone-enter", { ...reordered, padding: "x" });
+
+    expect(redelivery.body).toMatchObject({ duplicate: true, handlerCount: 0 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test("runs handlers again on redelivery when they failed", async () => {
+    const handler = jest.fn().mockRejectedValueOnce(new Error("Topia unavailable")).mockResolvedValue(undefined);
+    registerWebhookHandler("zone-enter", handler);
+
+    const failed = await sendWebhook("zone-enter", payload);
+    const retried = await sendWebhook("zone-enter", payload);
+
+    expect(failed.status).toBe(500);
+    expect(retried.body).toMatchObject({ duplicate: false, handlerCount: 1 });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test("runs handlers for a concurrent redelivery when the first delivery fails", async () => {
+    const handler = jest
+      .fn()
+      .mockImplementationOnce(() => new Promise((_, reject) => setTimeout(() => reject(new Error("Topia down")), 20)))
+      .mockResolvedValue(undefined);
+    registerWebhookHandler("zone-enter", handler);
+
+    const [first, redelivery] = await Promise.all([
+      sendWebhook("zone-enter", payload),
+      sendWebhook("zone-enter", payload),
+    ]);
+
+    expect(first.status).toBe(500);
+    expect(redelivery.body).toMatchObject({ duplicate: false, handlerCount: 1 });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test("accepts unsigned payloads when WEBHOOK_SIGNING_SECRET isn't set", async () => {
+    const res = await request(makeApp()).post("/api/webhooks/zone-enter").send(payload);
+
+    expect(res.status).toBe(200);
+  });
+
+  test("rejects payloads signed with another secret", async () => {
+    process.env.WEBHOOK_SIGNING_SECRET = "test-secret";
+    const handler = jest.fn();
+    registerWebhookHandler("zone-enter", handler);
+
+    const res = await sendWebhook("zone-enter", payload, "wrong-secret");
+
+    expect(res.status).toBe(401);
+    expect(res.body).toMatchObject({ code: "UNAUTHORIZED", error: { message: "Invalid webhook signature" } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test("rejects unsigned payloads when WEBHOOK_SIGNING_SECRET is set", async () => {
+    process.env.WEBHOOK_SIGNING_SECRET = "test-secret";
+    const res = await request(makeApp()).post("/api/webhooks/zone-enter").send(payload);
+
+    expect(res.status).toBe(401);
+  });
+
+  test("rejects credentials Topia doesn't confirm without running handlers", async () => {
+    const handler = jest.fn();
+    registerWebhookHandler("zone-enter", handler);
+
+    const res = await sendWebhook("zone-enter", { ...payload, visitorId: 99 });
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.message).toBe("Topia did not accept the webhook's credentials");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test("fails without running handlers when Topia can't confirm the credentials", async () => {
+    const handler = jest.fn();
+    registerWebhookHandler("zone-enter", handler);
+    jest.spyOn(Visitor, "get").mockRejectedValue(new UpstreamTimeoutError("Visitor.get timed out"));
+
+    const res = await sendWebhook("zone-enter", payload);
+
+    expect(res.status).toBe(504);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test("rejects payloads for another app's public key", async () => {
+    const res = await sendWebhook("zone-enter", { ...payload, interactivePublicKey: "other-key" });
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.message).toBe("Provided public key does not match");
+  });
+
+  test("rejects unknown events and payloads without credentials", async () => {
+    const unknown = await sendWebhook("zone-hover", payload);
+    const missing = await sendWebhook("zone-enter", { urlSlug: "my-world" });
+
+    expect(unknown.status).toBe(400);
+    expect(missing.status).toBe(400);
+    expect(missing.body.error.details.issues.map(({ path }: any) => path)).toEqual(
+      expect.arrayContaining(["body.interactiveNonce", "body.visitorId"]),
+    );
+  });
+});
@@ -0,0 +1,170 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import { getDevCredentials } from "../utils/getDevCredentials.js";
+import { SimulatorStore } from "../utils/topiaSimulator/index.js";
+import {
+  applyWorldSeedChanges,
+  fetchExistingSeededAssets,
+  formatWorldSeedPlan,
+  parseWorldSeedManifest,
+  planWorldSeed,
+  planWorldTeardown,
+  WorldSeedManifest,
+} from "../utils/worldSeed/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+const manifestYaml = `
+assets:
+  - uniqueName: seed-sign
+    position: { x: 10, y: 20 }
+    layer1: https://example.com/sign.png
+    clickableLink: https://example.com
+  - uniqueName: seed-board
+    position: { x: 0, y: 0 }
+    layer0: https://example.com/board.png
+    dataObject:
+      highScore: 0
+`;
+
+const seedAssets = () =>
+  [...simulator.getWorld("test-world").droppedAssets.values()].filter(({ uniqueName }) =>
+    uniqueName?.startsWith("seed-"),
+  );
+
+const seed = async (manifest: WorldSeedManifest, mode: "seed" | "teardown" = "seed") => {
+  const credentials = getDevCredentials();
+  const existing = await fetchExistingSeededAssets(manifest, credentials);
+  const changes = mode === "seed" ? planWorldSeed(manifest, existing) : planWorldTeardown(manifest, existing);
+  await applyWorldSeedChanges(changes, credentials);
+  return changes;
+};
+
+describe("world seeding", () => {
+  const originalEnv = process.env;
+  let manifest: WorldSeedManifest;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = {
+      ...originalEnv,
+      TOPIA_SIMULATOR: "true",
+      INTERACTIVE_KEY: "test-key",
+      DEVELOPMENT_WORLD_SLUG: "test-world",
+    };
+    simulator.addDroppedAsset("test-world", { id: "unrelated", uniqueName: "not-seeded" });
+    manifest = parseWorldSeedManifest(manifestYaml, "world.yaml");
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("parseWorldSeedManifest", () => {
+    test("parses JSON manifests by file extension", () => {
+      const parsed = parseWorldSeedManifest(JSON.stringify(manifest), "world.json");
+      expect(parsed).toEqual(manifest);
+    });
+
+    test("rejects manifests that fail validation", () => {
+      expect(() => parseWorldSeedManifest("assets:\n  - uniqueName: a\n", "world.yaml")).toThrow(
+        expect.objectContaining({ status: 400, message: expect.stringContaining("position") }),
+      );
+    });
+
+    test("rejects duplicate uniqueNames", () => {
+      const duplicated = JSON.stringify({ assets: [manifest.assets[0], manifest.assets[0]] });
+      expect(() => parseWorldSeedManifest(duplicated, "world.json")).toThrow("found seed-sign");
+    });
+
+    test("rejects unparseable files", () => {
+      expect(() => parseWorldSeedManifest("{", "world.json")).toThrow("world.json is not valid JSON");
+    });
+  });
+
+  test("drops every asset in the manifest with its layers, link and data object", async () => {
+    await seed(manifest);
+
+    const [sign, board] = seedAssets();
+    expect(sign).toMatchObject({
+      uniqueName: "seed-sign",
+      position: { x: 10, y: 20 },
+      topLayerURL: "https://example.com/sign.png",
+      clickableLink: "https://example.com",
+      clickType: "link",
+      interactivePublicKey: "test-key",
+    });
+    expect(board).toMatchObject({
+      bottomLayerURL: "https://example.com/board.png",
+      dataObject: { highScore: 0, worldSeed: true },
+    });
+    expect(sign.dataObject).toEqual({ worldSeed: true });
+  });
+
+  test("applying the same manifest twice does not create duplicates", async () => {
+    await seed(manifest);
+    const changes = await seed(manifest);
+
+    expect(changes.map(({ action }) => action)).toEqual(["unchanged", "unchanged"]);
+    expect(seedAssets()).toHaveLength(2);
+  });
+
+  test("updates changed fields in place", async () => {
+    await seed(manifest);
+    const [sign] = seedAssets();
+
+    manifest.assets[0].position = { x: 50, y: 60 };
+    manifest.assets[1].dataObject = { highScore: 10 };
+    const changes = await seed(manifest);
+
+    expect(formatWorldSeedPlan(changes)).toBe(
+      ["~ update  seed-sign: position (10, 20) -> (50, 60)", "~ update  seed-board: dataObject"].join("\n"),
+    );
+    expect(seedAssets()[0]).toMatchObject({ id: sign.id, position: { x: 50, y: 60 } });
+    expect(seedAssets()[1].dataObject).toEqual({ highScore: 10, worldSeed: true });
+  });
+
+  test("drops the asset again when its clickable link changes", async () => {
+    await seed(manifest);
+    const [sign] = seedAssets();
+
+    manifest.assets[0].clickableLink = "https://example.com/new";
+    const changes = await seed(manifest);
+
+    expect(changes[0]).toMatchObject({ action: "replace", reason: "clickableLink changed" });
+    const replaced = seedAssets().find(({ uniqueName }) => uniqueName === "seed-sign")!;
+    expect(replaced.id).not.toBe(sign.id);
+    expect(replaced.clickableLink).toBe("https://example.com/new");
+    expect(seedAssets()).toHaveLength(2);
+  });
+
+  test("a dry run plans changes without touching the world", async () => {
+    const credentials = getDevCredentials();
+    const changes = planWorldSeed(manifest, await fetchExistingSeededAssets(manifest, credentials));
+
+    expect(formatWorldSeedPlan(changes)).toBe(
+      ["+ create  seed-sign at (10, 20)", "+ create  seed-board at (0, 0)"].join("\n"),
+    );
+    expect(seedAssets()).toHaveLength(0);
+  });
+
+  test("teardown removes only the assets the manifest created", async () => {
+    await seed(manifest);
+    const changes = await seed(manifest, "teardown");
+
+    expect(changes.map(({ action }) => action)).toEqual(["delete", "delete"]);
+    expect(seedAssets()).toHaveLength(0);
+    expect(simulator.getWorld("test-world").droppedAssets.has("unrelated")).toBe(true);
+  });
+
+  test("assets the seeder didn't drop are never updated or torn down, even with a manifest uniqueName", async () => {
+    simulator.addDroppedAsset("test-world", { id: "hand-placed", uniqueName: "seed-board", position: { x: 5, y: 5 } });
+
+    const changes = await seed(manifest);
+    expect(changes.map(({ action }) => action)).toEqual(["create", "create"]);
+    await seed(manifest, "teardown");
+
+    expect(seedAssets().map(({ id }) => id)).toEqual(["hand-placed"]);
+    expect(seedAssets()[0].position).toEqual({ x: 5, y: 5 });
+  });
+});
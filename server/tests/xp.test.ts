@@ -0,0 +1,139 @@
+const topiaMock = require("../mocks/@rtsdk/topia").__mock;
+
+import express from "express";
+import request from "supertest";
+
+import router from "../routes.js";
+import { leaderboardClient } from "../utils/LeaderboardClient.js";
+import { getVisitor } from "../utils/visitors/index.js";
+import {
+  getLevelForXp,
+  getLevelProgress,
+  grantXp,
+  quadraticLevelCurve,
+  thresholdLevelCurve,
+  xpConfig,
+} from "../utils/xp/index.js";
+import { seedTopiaSimulator, SimulatorStore } from "../utils/topiaSimulator/index.js";
+
+const simulator: SimulatorStore = topiaMock.simulator;
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", router);
+  return app;
+}
+
+describe("level curves", () => {
+  test("quadratic curves need baseXp * (level - 1) ^ exponent XP", () => {
+    const curve = quadraticLevelCurve({ baseXp: 10, exponent: 1.5, maxLevel: 50 });
+
+    expect([1, 2, 3, 4, 5].map(curve.xpForLevel)).toEqual([0, 10, 28, 51, 80]);
+    expect(getLevelForXp(0, curve)).toBe(1);
+    expect(getLevelForXp(27, curve)).toBe(2);
+    expect(getLevelForXp(28, curve)).toBe(3);
+    expect(getLevelForXp(10_000_000, curve)).toBe(50);
+  });
+
+  test("threshold curves follow the table and stop at its end", () => {
+    const curve = thresholdLevelCurve([50, 120, 200]);
+
+    expect(getLevelForXp(49, curve)).toBe(1);
+    expect(getLevelForXp(120, curve)).toBe(3);
+    expect(getLevelForXp(5000, curve)).toBe(4);
+    expect(getLevelProgress(5000, curve)).toEqual({
+      level: 4,
+      xpForCurrentLevel: 200,
+      xpForNextLevel: 200,
+      progress: 1,
+    });
+  });
+
+  test("progress is the share of the current level completed", () => {
+    expect(getLevelProgress(85, thresholdLevelCurve([50, 120]))).toEqual({
+      level: 2,
+      xpForCurrentLevel: 50,
+      xpForNextLevel: 120,
+      progress: 0.5,
+    });
+  });
+});
+
+describe("grantXp", () => {
+  const originalEnv = process.env;
+  let credentials: Record<string, any>;
+
+  beforeEach(() => {
+    topiaMock.reset();
+    process.env = { ...originalEnv, INTERACTIVE_KEY: "test-key", INTERACTIVE_SECRET: "test-secret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { keyAsset, urlSlug, visitor } = seedTopiaSimulator("my-world");
+    credentials = {
+      assetId: keyAsset.id,
+      interactiveNonce: "nonce",
+      interactivePublicKey: "test-key",
+      profileId: visitor.profileId,
+      urlSlug,
+      visitorId: visitor.id,
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  test("adds the action's XP and celebrates each new level once", async () => {
+    const visitor = await getVisitor(credentials as any);
+
+    const first = await grantXp({ action: "task-completed", credentials: credentials as any, visitor });
+    const second = await grantXp({ action: "task-completed", credentials: credentials as any, visitor });
+
+    expect(first).toEqual({
+      action: "task-completed",
+      xpGranted: 10,
+      xp: 10,
+      level: 2,
+      previousLevel: 1,
+      leveledUp: true,
+    });
+    expect(second).toMatchObject({ xp: 20, level: 2, previousLevel: 2, leveledUp: false });
+    expect(simulator.getVisitor("my-world", credentials.visitorId).dataObject).toMatchObject({ xp: 20, level: 2 });
+    expect(simulator.toasts).toEqual([expect.objectContaining({ title: "You've leveled up!" })]);
+    expect(simulator.particles).toEqual([
+      expect.objectContaining({ name: xpConfig.levelUpParticle, position: { x: 0, y: 0 } }),
+    ]);
+  });
+
+  test("concurrent grants keep every XP point and celebrate the new level once", async () => {
+    const visitors = await Promise.all([1, 2, 3].map(() => getVisitor(credentials as any)));
+
+    const grants = await Promise.all(
+      visitors.map((visitor) => grantXp({ action: "task-completed", credentials: credentials as any, visitor })),
+    );
+
+    expect(simulator.getVisitor("my-world", credentials.visitorId).dataObject).toMatchObject({ xp: 30, level: 3 });
+    expect(grants.filter(({ leveledUp }) => leveledUp).map(({ level }) => level)).toEqual([3]);
+    expect(simulator.toasts).toHaveLength(1);
+  });
+
+  test("pushes the XP to the leaderboard when it is configured", async () => {
+    jest.spyOn(leaderboardClient, "isConfigured", "get").mockReturnValue(true);
+    const incrementPlayerStats = jest.spyOn(leaderboardClient, "incrementPlayerStats").mockResolvedValue({});
+
+    const visitor = await getVisitor(credentials as any);
+    await grantXp({ action: "task-completed", credentials: credentials as any, visitor });
+
+    expect(incrementPlayerStats).toHaveBeenCalledWith({ credentials, incrementBy: 10 });
+  });
+
+  test("POST /api/complete-task returns the visitor's XP and level", async () => {
+    const res = await request(makeApp()).post("/api/complete-task").query(credentials);
+
+    expect(res.status).toBe(200);
+    expect(res.body.visitorData).toMatchObject({ completedCount: 1, xp: 10, level: 2 });
+  });
+});
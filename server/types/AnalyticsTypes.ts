@@ -0,0 +1,28 @@
+import { Credentials } from "./Credentials.js";
+
+/** The analytics descriptor Topia accepts with data object writes and updatePublicKeyAnalytics */
+export interface AnalyticType {
+  analyticName: string;
+  incrementBy?: number;
+  profileId?: string;
+  /** Topia counts each uniqueKey once per analyticName, so profileId here counts players rather than events */
+  uniqueKey?: string;
+  urlSlug?: string;
+}
+
+/**
+ * - `profile`: a unique counter, counting each player once however often they trigger the event
+ * - `world`: a counter of every occurrence in the world
+ */
+export type AnalyticsScope = "profile" | "world";
+
+export interface AnalyticsEventDefinition {
+  scope: AnalyticsScope;
+  description: string;
+}
+
+/** An event waiting to be sent, with the credentials needed to send it on its own */
+export interface TrackedAnalytic {
+  analytic: AnalyticType;
+  credentials: Credentials;
+}
@@ -0,0 +1,16 @@
+import { VisitorDataObject } from "../../shared/types/VisitorData.js";
+
+/** What changed the visitor's state, passed to evaluateBadges so rules can react to actions as well as totals */
+export type BadgeEvent = { type: "task-completed" } | { type: "visitor-updated"; fields: string[] };
+
+export interface BadgeRuleContext {
+  visitorData: VisitorDataObject;
+  event?: BadgeEvent;
+}
+
+export interface BadgeRule {
+  /** Must match the name of a BADGE inventory item in the ecosystem */
+  name: string;
+  description: string;
+  isEarned: (context: BadgeRuleContext) => boolean;
+}
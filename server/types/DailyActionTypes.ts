@@ -0,0 +1,14 @@
+import { VisitorStreak } from "../../shared/types/VisitorData.js";
+
+export interface DailyActionResult {
+  action: string;
+  /** The visitor's calendar day the action counted towards, YYYY-MM-DD in their timezone */
+  day: string;
+  /** Times the action has been performed today, including this one */
+  count: number;
+  limit?: number;
+  remaining?: number;
+  streak: VisitorStreak;
+  /** True for the first action of each day, the one that moved the streak */
+  streakUpdated: boolean;
+}
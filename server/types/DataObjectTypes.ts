@@ -0,0 +1,36 @@
+import { DroppedAssetDataObject } from "../../shared/types/DroppedAssetData.js";
+import { UserDataObject } from "../../shared/types/UserData.js";
+import { VisitorDataObject } from "../../shared/types/VisitorData.js";
+import { WorldDataObject } from "../../shared/types/WorldData.js";
+
+export interface DataObjectTypes {
+  droppedAsset: DroppedAssetDataObject;
+  user: UserDataObject;
+  visitor: VisitorDataObject;
+  world: WorldDataObject;
+}
+
+export type DataObjectEntityType = keyof DataObjectTypes;
+
+export interface DataObjectMigration {
+  /** Version the data object is at after this migration runs */
+  toVersion: number;
+  migrate: (dataObject: Record<string, any>) => Record<string, any>;
+}
+
+export interface DataObjectSchema<T extends { schemaVersion: number }> {
+  schemaVersion: number;
+  defaults: () => T;
+  /** Ordered by toVersion; only migrations newer than the stored schemaVersion run */
+  migrations: DataObjectMigration[];
+}
+
+/** Minimal surface shared by the SDK's World, DroppedAsset, Visitor and User controllers */
+export interface DataObjectEntity {
+  dataObject?: object | null;
+  fetchDataObject: () => Promise<unknown>;
+  setDataObject: (
+    dataObject: object,
+    options?: { lock?: { lockId: string; releaseLock?: boolean } },
+  ) => Promise<unknown>;
+}
@@ -1,7 +1,6 @@
 import { DroppedAssetInterface } from "@rtsdk/topia";
+import { DroppedAssetDataObject } from "../../shared/types/DroppedAssetData.js";
 
 export interface IDroppedAsset extends DroppedAssetInterface {
-  dataObject: {
-    droppedAssetCount?: number;
-  };
+  dataObject: DroppedAssetDataObject;
 }
@@ -0,0 +1,12 @@
+declare global {
+  namespace Express {
+    interface Request {
+      /** Assigned by the requestId middleware */
+      id?: string;
+      /** The unparsed JSON body, kept by captureRawBody so webhook signatures can be checked */
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,23 @@
+/** The `lock` option accepted by the SDK's setDataObject, updateDataObject and incrementDataObjectValue */
+export interface DataObjectLockOptions {
+  lock: { lockId: string; releaseLock: boolean };
+}
+
+/**
+ * How long a lock stands:
+ * - "request": released as soon as the write finishes, so writes for the key happen one at a time
+ * - a number of ms: one lock per window of that length, released after the write. If a process dies
+ *   mid-write, the key is free again in the next window instead of when Topia expires the lock
+ * - "once": never released, so the write happens at most once for the key
+ */
+export type LockWindow = "request" | "once" | number;
+
+export interface WithLockOptions {
+  /** Defaults to "request" */
+  window?: LockWindow;
+  /** Attempts after the first when the lock is held, with the data object re-fetched before each. Defaults to 0 */
+  retries?: number;
+  /** Delay before the first retry, doubled for each one after it and jittered. Defaults to 100 */
+  retryDelayMs?: number;
+  now?: () => number;
+}
@@ -0,0 +1,29 @@
+/**
+ * - "closed": calls go through
+ * - "open": calls fail fast with a CircuitOpenError until the reset timeout has passed
+ * - "half-open": one trial call goes through, which closes the circuit again or reopens it
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call is let through */
+  resetTimeoutMs?: number;
+  now?: () => number;
+}
+
+export interface UpstreamCallOptions {
+  /** The upstream host, e.g. "api.topia.io". Each host has its own circuit breaker */
+  host: string;
+  /** What the call does, e.g. "DroppedAsset.fetchDataObject", for logs and error details */
+  operation: string;
+  /** Reads and other calls that are safe to repeat are retried on timeouts, network errors, 429 and 5xx */
+  isIdempotent: boolean;
+  timeoutMs?: number;
+  /** Attempts after the first. Calls that aren't idempotent are only retried when the connection was never made */
+  retries?: number;
+  /** Delay before the first retry, doubled for each one after it and jittered */
+  retryDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
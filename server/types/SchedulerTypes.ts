@@ -0,0 +1,13 @@
+import { ScheduledJobDTO } from "../../shared/types/ScheduledJob.js";
+import { Credentials } from "./Credentials.js";
+
+/** What a job keeps of whoever scheduled it: the world and key asset, never their visitor or nonce */
+export type JobCredentials = Pick<Credentials, "assetId" | "interactivePublicKey" | "urlSlug">;
+
+/** A job as stored in the world data object */
+export interface ScheduledJob extends ScheduledJobDTO {
+  credentials: JobCredentials;
+}
+
+/** Handlers run with app-level credentials for the job's world, see getAppCredentials */
+export type JobHandler = (job: Omit<ScheduledJob, "credentials"> & { credentials: Credentials }) => Promise<void>;
@@ -0,0 +1,11 @@
+export interface TopiaCacheStats {
+  /** Reads answered by an earlier read of the same entity in the same request */
+  requestHits: number;
+  /** Reads answered by the TTL cache */
+  ttlHits: number;
+  /** Reads that went to Topia */
+  misses: number;
+  invalidations: number;
+  /** Entities currently in the TTL cache */
+  size: number;
+}
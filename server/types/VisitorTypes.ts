@@ -0,0 +1,6 @@
+import { VisitorInterface } from "@rtsdk/topia";
+import { VisitorDataObject } from "../../shared/types/VisitorData.js";
+
+export interface IVisitor extends VisitorInterface {
+  dataObject: VisitorDataObject;
+}
@@ -0,0 +1,32 @@
+import { webhookEventTypes } from "../../shared/contract/index.js";
+import { Credentials } from "./Credentials.js";
+
+export type WebhookEventType = (typeof webhookEventTypes)[number];
+
+interface BaseWebhookEvent {
+  /** Identical for every delivery of the same payload, so handlers can be skipped on redelivery */
+  deliveryId: string;
+  /** The interactive credentials from the payload, checked the same way getCredentials checks the query */
+  credentials: Credentials;
+  receivedAt: number;
+}
+
+/** A visitor walked into or out of a zone. `credentials.assetId` is the zone's dropped asset */
+export interface ZoneWebhookEvent extends BaseWebhookEvent {
+  type: "zone-enter" | "zone-exit";
+  zone: { droppedAssetId: string; uniqueName?: string };
+}
+
+/** A webhook configured on a world or asset trigger, with whatever `dataObject` it was set up to send */
+export interface WorldTriggerWebhookEvent extends BaseWebhookEvent {
+  type: "world-trigger";
+  dataObject: Record<string, unknown>;
+}
+
+export type WebhookEvent = ZoneWebhookEvent | WorldTriggerWebhookEvent;
+
+export type WebhookEventOf<T extends WebhookEventType> = Extract<WebhookEvent, { type: T }>;
+
+export type WebhookHandler<T extends WebhookEventType = WebhookEventType> = (
+  event: WebhookEventOf<T>,
+) => Promise<void> | void;
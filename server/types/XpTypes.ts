@@ -0,0 +1,16 @@
+/** Maps a level to the total XP needed to reach it. Level 1 always needs 0 XP */
+export interface LevelCurve {
+  maxLevel: number;
+  xpForLevel: (level: number) => number;
+}
+
+export interface XpGrant {
+  action: string;
+  xpGranted: number;
+  /** Totals after the grant */
+  xp: number;
+  level: number;
+  previousLevel: number;
+  /** True for exactly one request per level reached, even when grants run concurrently */
+  leveledUp: boolean;
+}
@@ -1,3 +1,26 @@
+export * from "../../shared/types/ApiError.js";
+export * from "../../shared/types/Badge.js";
+export * from "../../shared/types/DroppedAsset.js";
+export * from "../../shared/types/DroppedAssetData.js";
+export * from "../../shared/types/GameEvent.js";
+export * from "../../shared/types/Leaderboard.js";
+export * from "../../shared/types/ScheduledJob.js";
+export * from "../../shared/types/UserData.js";
+export * from "../../shared/types/Visitor.js";
 export * from "../../shared/types/VisitorData.js";
+export * from "../../shared/types/World.js";
+export * from "../../shared/types/WorldData.js";
+export * from "./AnalyticsTypes.js";
+export * from "./BadgeTypes.js";
 export * from "./Credentials.js";
+export * from "./DailyActionTypes.js";
+export * from "./DataObjectTypes.js";
 export * from "./DroppedAssetTypes.js";
+export * from "./Express.js";
+export * from "./LockTypes.js";
+export * from "./ResilienceTypes.js";
+export * from "./SchedulerTypes.js";
+export * from "./TopiaCacheTypes.js";
+export * from "./VisitorTypes.js";
+export * from "./WebhookTypes.js";
+export * from "./XpTypes.js";
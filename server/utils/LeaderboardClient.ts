@@ -0,0 +1,158 @@
+import axios, { AxiosInstance } from "axios";
+import { LeaderboardEntry } from "../../shared/types/Leaderboard.js";
+import { Credentials } from "../types/index.js";
+import { CircuitOpenError, UpstreamError, UpstreamTimeoutError } from "./errors.js";
+import { callUpstream } from "./resilience/index.js";
+
+/** Where the leaderboard app stores this app's scores */
+export type LeaderboardDataObjectType = "dropped-asset" | "ecosystem" | "visitor" | "world";
+
+export interface LeaderboardClientOptions {
+  /** Defaults to LEADERBOARD_BASE_URL */
+  baseUrl?: string;
+  dataObjectType?: LeaderboardDataObjectType;
+  /** Defaults to LEADERBOARD_TIMEOUT_MS or 5000 */
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  http?: AxiosInstance;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+type PlayerStatsParams = {
+  credentials: Credentials;
+  /** Defaults to the visitor in the credentials */
+  profileId?: string;
+  displayName?: string;
+};
+
+type LeaderboardProfiles = Record<string, { displayName?: string; highScore?: number }>;
+
+/**
+ * Typed client for the Topia leaderboard app.
+ *
+ * Query values are passed through axios `params`, so they are always URL encoded. Requests go through
+ * callUpstream: reads and `setScore` retry on network errors, timeouts, 429 and 5xx with exponential
+ * backoff, and the leaderboard host has its own circuit breaker. Increments are not idempotent and are
+ * only retried when the request never reached the leaderboard.
+ */
+export class LeaderboardClient {
+  private readonly options: LeaderboardClientOptions;
+  private readonly http: AxiosInstance;
+
+  constructor(options: LeaderboardClientOptions = {}) {
+    this.options = options;
+    this.http = options.http || axios.create();
+  }
+
+  get baseUrl() {
+    return (this.options.baseUrl ?? process.env.LEADERBOARD_BASE_URL ?? "").replace(/\/+$/, "");
+  }
+
+  get isConfigured() {
+    return Boolean(this.baseUrl);
+  }
+
+  async incrementPlayerStats({ incrementBy = 1, ...params }: PlayerStatsParams & { incrementBy?: number }) {
+    return this.post("increment-player-stats", { ...this.getPlayer(params), incrementBy }, params.credentials, false);
+  }
+
+  async setScore({ score, ...params }: PlayerStatsParams & { score: number }) {
+    return this.post("update-player-stats", { ...this.getPlayer(params), highScore: score }, params.credentials, true);
+  }
+
+  async getTopPlayers({ credentials, limit = 10 }: { credentials: Credentials; limit?: number }) {
+    const data = await this.request<{
+      leaderboard?: { profiles?: LeaderboardProfiles };
+      profiles?: LeaderboardProfiles;
+    }>({ method: "GET", url: this.getUrl("leaderboard"), params: this.getCredentialParams(credentials) }, true);
+
+    const profiles = data?.leaderboard?.profiles || data?.profiles || {};
+
+    return Object.entries(profiles)
+      .map(([profileId, { displayName = "", highScore = 0 }]) => ({ profileId, displayName, score: highScore }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((entry, index): LeaderboardEntry => ({ rank: index + 1, ...entry }));
+  }
+
+  /** Resolves when the leaderboard answers at all, so any HTTP status counts as reachable */
+  async ping({ timeoutMs }: { timeoutMs: number }) {
+    if (!this.isConfigured) throw new UpstreamError("Leaderboard is not configured. Set LEADERBOARD_BASE_URL.", 503);
+    await this.http.request({ method: "GET", url: this.baseUrl, timeout: timeoutMs, validateStatus: () => true });
+  }
+
+  private getPlayer({ credentials, profileId, displayName }: PlayerStatsParams) {
+    return {
+      profileId: profileId || credentials.profileId,
+      displayName: displayName || credentials.displayName,
+    };
+  }
+
+  private getUrl(action: string) {
+    if (!this.isConfigured) throw new UpstreamError("Leaderboard is not configured. Set LEADERBOARD_BASE_URL.", 503);
+    return `${this.baseUrl}/api/${this.options.dataObjectType || "dropped-asset"}/${action}`;
+  }
+
+  private getCredentialParams({
+    assetId,
+    displayName,
+    interactiveNonce,
+    interactivePublicKey,
+    profileId,
+    urlSlug,
+    visitorId,
+  }: Credentials) {
+    return { assetId, displayName, interactiveNonce, interactivePublicKey, profileId, urlSlug, visitorId };
+  }
+
+  private post(action: string, body: object, credentials: Credentials, isIdempotent: boolean) {
+    return this.request(
+      {
+        method: "POST",
+        url: this.getUrl(action),
+        params: this.getCredentialParams(credentials),
+        data: { publicKey: credentials.interactivePublicKey, secret: process.env.INTERACTIVE_SECRET, ...body },
+      },
+      isIdempotent,
+    );
+  }
+
+  private async request<T = unknown>(
+    config: { method: "GET" | "POST"; url: string; params: object; data?: object },
+    isIdempotent: boolean,
+  ): Promise<T> {
+    const {
+      maxRetries = 2,
+      retryDelayMs = 200,
+      sleep,
+      timeoutMs = Number(process.env.LEADERBOARD_TIMEOUT_MS) || 5000,
+    } = this.options;
+    const { host, pathname } = new URL(config.url);
+
+    try {
+      const response = await callUpstream(() => this.http.request<T>({ ...config, timeout: timeoutMs }), {
+        host,
+        operation: `leaderboard ${config.method} ${pathname}`,
+        isIdempotent,
+        // axios aborts the request at timeoutMs, so this only catches a request that hangs anyway
+        timeoutMs: timeoutMs + 1000,
+        retries: maxRetries,
+        retryDelayMs,
+        sleep,
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error instanceof UpstreamTimeoutError || error instanceof CircuitOpenError) throw error;
+
+      // the axios error holds the request body, INTERACTIVE_SECRET included, so only its status and message are kept
+      const { message, response } = error.cause ?? error;
+      const status = response?.status;
+      throw new UpstreamError(`Leaderboard request failed: ${response?.data?.message || message}`, status, {
+        details: { url: config.url, ...(status && { status }) },
+      });
+    }
+  }
+}
+
+export const leaderboardClient = new LeaderboardClient();
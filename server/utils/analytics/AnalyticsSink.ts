@@ -0,0 +1,31 @@
+import { AnalyticType, Credentials } from "../../types/index.js";
+import { Visitor } from "../topiaInit.js";
+
+/**
+ * Where events that weren't attached to a data object write are sent. The Topia sink sends them through
+ * the visitor's public key analytics; use the memory sink in tests to assert on what was sent.
+ */
+export interface AnalyticsSink {
+  send(analytics: AnalyticType[], credentials: Credentials): Promise<void>;
+}
+
+export class TopiaAnalyticsSink implements AnalyticsSink {
+  async send(analytics: AnalyticType[], credentials: Credentials) {
+    const { urlSlug, visitorId } = credentials;
+    await Visitor.create(visitorId, urlSlug, { credentials }).updatePublicKeyAnalytics(analytics);
+  }
+}
+
+export type RecordedAnalytic = AnalyticType & { visitorId: number };
+
+export class MemoryAnalyticsSink implements AnalyticsSink {
+  readonly events: RecordedAnalytic[] = [];
+
+  async send(analytics: AnalyticType[], { visitorId }: Credentials) {
+    this.events.push(...analytics.map((analytic) => ({ ...analytic, visitorId })));
+  }
+
+  clear() {
+    this.events.length = 0;
+  }
+}
@@ -0,0 +1,14 @@
+import { AnalyticsEventDefinition } from "../../types/index.js";
+
+/**
+ * Every analytics event this app sends. trackEvent only accepts these names, so the names that show up
+ * in Topia's analytics stay consistent across controllers.
+ */
+export const analyticsEvents = {
+  players: { scope: "profile", description: "Players who have opened the app in this world" },
+  completions: { scope: "world", description: "Task completions through POST /complete-task" },
+  levelUps: { scope: "world", description: "Levels reached through XP" },
+  badgesAwarded: { scope: "world", description: "Badges granted by the badge engine" },
+} satisfies Record<string, AnalyticsEventDefinition>;
+
+export type AnalyticsEventName = keyof typeof analyticsEvents;
@@ -0,0 +1,99 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { AnalyticType, Credentials, TrackedAnalytic } from "../../types/index.js";
+import { errorHandler } from "../errorHandler.js";
+import { AnalyticsEventName, analyticsEvents } from "./analyticsEvents.js";
+import { AnalyticsSink, TopiaAnalyticsSink } from "./AnalyticsSink.js";
+
+export * from "./analyticsEvents.js";
+export * from "./AnalyticsSink.js";
+
+let sink: AnalyticsSink = new TopiaAnalyticsSink();
+
+/** Used for every event that isn't attached to a data object write */
+export const getAnalyticsSink = () => sink;
+
+export const setAnalyticsSink = (analyticsSink: AnalyticsSink) => {
+  sink = analyticsSink;
+};
+
+const buffers = new AsyncLocalStorage<TrackedAnalytic[]>();
+
+/** Buffers the events tracked while `fn` runs in `buffer`. The bufferAnalytics middleware does this for each request */
+export const runWithAnalyticsBuffer = <T>(buffer: TrackedAnalytic[], fn: () => T): T => buffers.run(buffer, fn);
+
+export const buildAnalytic = (
+  name: AnalyticsEventName,
+  { profileId, urlSlug, visitorId }: Credentials,
+  incrementBy?: number,
+): AnalyticType => ({
+  analyticName: name,
+  ...(incrementBy !== undefined && { incrementBy }),
+  profileId,
+  // guests have no profile, so they are counted by their per-world visitorId instead
+  ...(analyticsEvents[name].scope === "profile" && { uniqueKey: profileId || `visitor-${visitorId}` }),
+  urlSlug,
+});
+
+/**
+ * Records an analytics event for the visitor in `credentials`. During a request the event is buffered:
+ * the next data object write made with `withAnalytics()` carries it to Topia, and anything still
+ * buffered when the response ends is sent through the sink. Outside a request it is sent straight away.
+ */
+export const trackEvent = async (
+  name: AnalyticsEventName,
+  { credentials, incrementBy }: { credentials: Credentials; incrementBy?: number },
+) => {
+  const tracked = { analytic: buildAnalytic(name, credentials, incrementBy), credentials };
+
+  const buffer = buffers.getStore();
+  if (buffer) {
+    buffer.push(tracked);
+    return;
+  }
+
+  await flushAnalytics([tracked]);
+};
+
+/**
+ * Moves the buffered events onto the options of a data object write, so Topia counts them with it:
+ *
+ * await visitor.updateDataObject(data, withAnalytics({ lock }));
+ *
+ * Topia doesn't count analytics for a write that fails, so the events are dropped along with it.
+ */
+export const withAnalytics = <T extends object>(options: T = {} as T): T & { analytics?: AnalyticType[] } => {
+  const buffered = buffers.getStore()?.splice(0) || [];
+  if (buffered.length === 0) return options;
+
+  const { analytics = [] } = options as { analytics?: AnalyticType[] };
+  return { ...options, analytics: [...analytics, ...buffered.map(({ analytic }) => analytic)] };
+};
+
+/**
+ * Sends events on their own, one call per visitor. Defaults to whatever is buffered for the current
+ * request. Failures are logged, not thrown, so analytics never fail the request that tracked them.
+ */
+export const flushAnalytics = async (tracked: TrackedAnalytic[] = buffers.getStore()?.splice(0) || []) => {
+  const byVisitor = new Map<string, TrackedAnalytic[]>();
+  for (const event of tracked) {
+    const key = `${event.credentials.urlSlug}:${event.credentials.visitorId}`;
+    byVisitor.set(key, [...(byVisitor.get(key) || []), event]);
+  }
+
+  await Promise.all(
+    [...byVisitor.values()].map(async (events) => {
+      try {
+        await sink.send(
+          events.map(({ analytic }) => analytic),
+          events[0].credentials,
+        );
+      } catch (error) {
+        errorHandler({
+          error,
+          functionName: "flushAnalytics",
+          message: "Error sending analytics",
+        });
+      }
+    }),
+  );
+};
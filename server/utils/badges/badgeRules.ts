@@ -0,0 +1,34 @@
+import { BadgeRule } from "../../types/index.js";
+
+/**
+ * Every badge this app awards. Rules are checked by evaluateBadges after each state change, and a
+ * badge is granted the first time its rule passes. Create a BADGE inventory item with the same name
+ * in the ecosystem, otherwise the badge is listed but never granted.
+ */
+export const badgeRules: BadgeRule[] = [
+  {
+    name: "First Steps",
+    description: "Complete the task for the first time.",
+    isEarned: ({ visitorData }) => visitorData.completedCount >= 1,
+  },
+  {
+    name: "Regular",
+    description: "Complete the task 5 times.",
+    isEarned: ({ visitorData }) => visitorData.completedCount >= 5,
+  },
+  {
+    name: "Rising Star",
+    description: "Reach level 5.",
+    isEarned: ({ visitorData }) => visitorData.level >= 5,
+  },
+  {
+    name: "On a Roll",
+    description: "Reach a 3-day streak. Missing a single day doesn't break it.",
+    isEarned: ({ visitorData }) => visitorData.streak.current >= 3,
+  },
+  {
+    name: "Personal Touch",
+    description: "Update your details.",
+    isEarned: ({ event }) => event?.type === "visitor-updated",
+  },
+];
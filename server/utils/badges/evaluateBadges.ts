@@ -0,0 +1,127 @@
+import { VisitorInterface } from "@rtsdk/topia";
+import { BadgeDTO, BadgeEvent, BadgeRule, Credentials, IVisitor } from "../../types/index.js";
+import { trackEvent } from "../analytics/index.js";
+import { errorHandler } from "../errorHandler.js";
+import { getLockId, ignoreLockConflict, withLock } from "../locks/index.js";
+import { logger } from "../logger.js";
+import { standardizeError } from "../standardizeError.js";
+import { Ecosystem } from "../topiaInit.js";
+import { badgeRules } from "./badgeRules.js";
+
+/** How long a badge's grant lock stands, which is also how long a failed grant holds up the next attempt */
+const GRANT_LOCK_WINDOW_MS = 10_000;
+
+type EcosystemInventoryItem = {
+  id: string;
+  name?: string;
+  type?: string;
+  status?: string;
+  description?: string;
+  image_path?: string;
+};
+
+type VisitorInventoryItem = { status?: string; item?: { name?: string; type?: string } };
+
+/** Active BADGE items in the ecosystem, by name */
+const getEcosystemBadges = async (credentials: Credentials) => {
+  const ecosystem = Ecosystem.create({ credentials });
+  await ecosystem.fetchInventoryItems();
+
+  const badges = new Map<string, EcosystemInventoryItem>();
+  for (const item of (ecosystem.inventoryItems || []) as EcosystemInventoryItem[]) {
+    if (item.name && item.type === "BADGE" && item.status === "ACTIVE") badges.set(item.name, item);
+  }
+  return badges;
+};
+
+/** Names of the badges the visitor owns. Inventory belongs to the profile, so it includes badges from other worlds */
+const getOwnedBadgeNames = async (visitor: VisitorInterface) => {
+  await visitor.fetchInventoryItems();
+  return new Set(
+    ((visitor.inventoryItems || []) as VisitorInventoryItem[])
+      .filter(({ status, item }) => status === "ACTIVE" && item?.type === "BADGE" && item.name)
+      .map(({ item }) => item!.name!),
+  );
+};
+
+/**
+ * Grants every badge whose rule passes and that the visitor doesn't own yet, and toasts each one.
+ * Call it after the visitor's data object changes. Resolves with the names of the badges granted.
+ *
+ * Concurrent requests for the same visitor can both see a badge as missing, so each grant first takes a
+ * data object lock on the profile and badge. The lock is held rather than released, but its ID changes every
+ * GRANT_LOCK_WINDOW_MS, so if the grant fails the badge can be granted again once the window is over.
+ */
+export const evaluateBadges = async ({
+  credentials,
+  event,
+  rules = badgeRules,
+  visitor,
+}: {
+  credentials: Credentials;
+  event?: BadgeEvent;
+  rules?: BadgeRule[];
+  visitor: IVisitor;
+}): Promise<string[]> => {
+  try {
+    const passing = rules.filter(({ isEarned }) => isEarned({ visitorData: visitor.dataObject, event }));
+    if (passing.length === 0) return [];
+
+    const owned = await getOwnedBadgeNames(visitor);
+    const unearned = passing.filter(({ name }) => !owned.has(name));
+    if (unearned.length === 0) return [];
+
+    const ecosystemBadges = await getEcosystemBadges(credentials);
+    const { profileId, visitorId } = credentials;
+    const awarded: string[] = [];
+
+    for (const { name } of unearned) {
+      const inventoryItem = ecosystemBadges.get(name);
+      if (!inventoryItem) {
+        logger.warn("Badge earned but there is no active BADGE inventory item with its name", { badgeName: name });
+        continue;
+      }
+
+      const hasLock = await withLock(
+        visitor,
+        getLockId(`badge-${profileId || `visitor-${visitorId}`}-${name}`, GRANT_LOCK_WINDOW_MS),
+        (options) => visitor.updateDataObject({}, options),
+        { window: "once" },
+      )
+        .then(() => true)
+        .catch(ignoreLockConflict);
+      // another request is granting this badge right now
+      if (!hasLock) continue;
+
+      await visitor.grantInventoryItem(inventoryItem, 1);
+      awarded.push(name);
+      await trackEvent("badgesAwarded", { credentials });
+
+      visitor.fireToast({ title: "Badge Awarded", text: `You have earned the ${name} badge!` }).catch((error: any) =>
+        errorHandler({
+          error,
+          functionName: "evaluateBadges",
+          message: "Error firing badge toast",
+        }),
+      );
+    }
+
+    return awarded;
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
+
+/** Every declared badge, in declaration order, with whether the visitor has earned it */
+export const listBadges = async (credentials: Credentials, visitor: VisitorInterface): Promise<BadgeDTO[]> => {
+  try {
+    const [ecosystemBadges, owned] = await Promise.all([getEcosystemBadges(credentials), getOwnedBadgeNames(visitor)]);
+
+    return badgeRules.map(({ name, description }) => {
+      const icon = ecosystemBadges.get(name)?.image_path;
+      return { name, description, ...(icon && { icon }), earned: owned.has(name) };
+    });
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
@@ -0,0 +1,2 @@
+export * from "./badgeRules.js";
+export * from "./evaluateBadges.js";
@@ -0,0 +1,9 @@
+/**
+ * Build metadata. `npm run build` overwrites the compiled copy of this module with the real values
+ * (see scripts/writeBuildInfo.js), so these defaults only apply when running from source.
+ */
+export const buildInfo = {
+  version: "development",
+  commit: "",
+  builtAt: "",
+};
@@ -0,0 +1,141 @@
+import { Router } from "express";
+import { interactiveCredentialsQuery, ObjectSchema, RouteDefinition } from "../../shared/contract/index.js";
+import { getVersion } from "./getVersion.js";
+
+export type RouteGroup = {
+  /** Where the router is mounted, e.g. /api */
+  prefix: string;
+  router: Router;
+  /** The shared contract entries for the routes registered on `router` */
+  routes: Record<string, RouteDefinition>;
+  tag: string;
+};
+
+type Operation = Record<string, unknown>;
+
+const errorResponse = { $ref: "#/components/responses/Error" };
+
+/** Lists the routes registered directly on `router`. Nested routers are passed as their own group */
+const getRegisteredRoutes = (router: Router) =>
+  router.stack
+    .filter((layer) => layer.route)
+    .flatMap((layer) =>
+      Object.keys((layer.route as any).methods).map((method) => ({ method, path: layer.route!.path as string })),
+    );
+
+const toParameters = (location: "path" | "query", schema?: ObjectSchema<any>) =>
+  Object.entries(schema?.shape || {}).map(([name, property]: [string, any]) => ({
+    name,
+    in: location,
+    required: !property.isOptional,
+    schema: property.toJSONSchema(),
+  }));
+
+/** Declared params carry their schema; any other `:param` in the path is documented as a plain string */
+const toPathParameters = (path: string, schema?: ObjectSchema<any>) =>
+  [...path.matchAll(/:(\w+)/g)].map(
+    ([, name]) =>
+      toParameters("path", schema).find((parameter) => parameter.name === name) || {
+        name,
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      },
+  );
+
+const buildOperation = (tag: string, path: string, operationId?: string, route?: RouteDefinition): Operation => {
+  // registered without a contract entry, so there is nothing to describe it with
+  if (!operationId || !route) return { tags: [tag], responses: { default: errorResponse } };
+
+  const { body, credentials = "interactive", description, params, query, response, stream } = route;
+
+  return {
+    tags: [tag],
+    operationId,
+    description,
+    parameters: [
+      ...toPathParameters(path, params),
+      ...(credentials === "interactive"
+        ? Object.keys(interactiveCredentialsQuery.shape).map((name) => ({ $ref: `#/components/parameters/${name}` }))
+        : []),
+      ...(credentials === "webhook"
+        ? [
+            {
+              name: "X-Webhook-Signature",
+              in: "header",
+              required: false,
+              description: "Only checked when WEBHOOK_SIGNING_SECRET is set",
+              schema: { type: "string" },
+            },
+          ]
+        : []),
+      ...toParameters("query", query),
+    ],
+    ...(body && {
+      requestBody: { required: true, content: { "application/json": { schema: body.toJSONSchema() } } },
+    }),
+    responses: {
+      "200": {
+        description: stream ? "A stream of events, each shaped like the schema" : "Success",
+        content: { [stream ? "text/event-stream" : "application/json"]: { schema: response.toJSONSchema() } },
+      },
+      "default": errorResponse,
+    },
+  };
+};
+
+/**
+ * Builds an OpenAPI 3 document from the routes registered on each router, described by their entries in
+ * the shared contract. Routes registered without a contract entry still appear, but without a description.
+ */
+export const buildOpenApiDocument = (groups: RouteGroup[]) => {
+  const paths: Record<string, Record<string, Operation>> = {};
+
+  for (const { prefix, router, routes, tag } of groups) {
+    for (const { method, path } of getRegisteredRoutes(router)) {
+      const [operationId, route] =
+        Object.entries(routes).find(([, route]) => route.method === method && route.path === path) || [];
+
+      const fullPath = `${prefix}${path === "/" ? "" : path}`.replace(/:(\w+)/g, "{$1}") || "/";
+      paths[fullPath] = { ...paths[fullPath], [method]: buildOperation(tag, path, operationId, route) };
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: { title: "SDK App API", version: getVersion() },
+    paths,
+    components: {
+      parameters: Object.fromEntries(
+        toParameters("query", interactiveCredentialsQuery).map((parameter) => [parameter.name, parameter]),
+      ),
+      responses: {
+        Error: {
+          description: "Error. `code` is stable and safe to branch on; `error.details` depends on the code",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", enum: [false] },
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  retryAfter: { type: "number" },
+                  error: {
+                    type: "object",
+                    properties: {
+                      code: { type: "string" },
+                      message: { type: "string" },
+                      details: { type: "object", additionalProperties: true },
+                    },
+                  },
+                },
+                required: ["success", "code", "message", "error"],
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+};
@@ -0,0 +1,66 @@
+import axios from "axios";
+import { buildInfo } from "./buildInfo.js";
+import { leaderboardClient } from "./LeaderboardClient.js";
+import { isTopiaSimulatorEnabled } from "./topiaSimulator/index.js";
+
+export type ReadinessCheck = {
+  status: "ok" | "error" | "skipped";
+  latencyMs?: number;
+  message?: string;
+};
+
+export type ReadinessReport = {
+  status: "ready" | "not_ready";
+  version: typeof buildInfo;
+  checks: Record<"credentials" | "leaderboard" | "topia", ReadinessCheck>;
+};
+
+const timeCheck = async (check: () => Promise<void>): Promise<ReadinessCheck> => {
+  const startedAt = Date.now();
+  try {
+    await check();
+    return { status: "ok", latencyMs: Date.now() - startedAt };
+  } catch (error: any) {
+    // only the error message is reported so upstream URLs and query strings stay out of the response
+    return { status: "error", latencyMs: Date.now() - startedAt, message: error?.message || "Unreachable" };
+  }
+};
+
+const checkCredentials = (): ReadinessCheck => {
+  if (isTopiaSimulatorEnabled()) return { status: "skipped", message: "Topia simulator enabled" };
+
+  const missing = ["INTERACTIVE_KEY", "INTERACTIVE_SECRET"].filter((variable) => !process.env[variable]);
+  if (missing.length > 0) return { status: "error", message: `Missing ${missing.join(", ")}` };
+
+  return { status: "ok" };
+};
+
+const checkTopia = (timeoutMs: number): Promise<ReadinessCheck> | ReadinessCheck => {
+  if (isTopiaSimulatorEnabled()) return { status: "skipped", message: "Topia simulator enabled" };
+
+  const url = `${process.env.INSTANCE_PROTOCOL || "https"}://${process.env.INSTANCE_DOMAIN || "api.topia.io"}`;
+  // any HTTP response means the API is reachable; only network errors and timeouts fail the check
+  return timeCheck(async () => {
+    await axios.get(url, { timeout: timeoutMs, validateStatus: () => true });
+  });
+};
+
+const checkLeaderboard = (timeoutMs: number): Promise<ReadinessCheck> | ReadinessCheck => {
+  if (!leaderboardClient.isConfigured) return { status: "skipped", message: "LEADERBOARD_BASE_URL is not set" };
+  return timeCheck(() => leaderboardClient.ping({ timeoutMs }));
+};
+
+/**
+ * Checks everything the app needs to serve requests. Upstream checks run in parallel and are
+ * bounded by READINESS_TIMEOUT_MS (default 2000) so a hung dependency cannot hang the probe.
+ */
+export const checkReadiness = async (): Promise<ReadinessReport> => {
+  const timeoutMs = Number(process.env.READINESS_TIMEOUT_MS) || 2000;
+
+  const [topia, leaderboard] = await Promise.all([checkTopia(timeoutMs), checkLeaderboard(timeoutMs)]);
+  const checks = { credentials: checkCredentials(), leaderboard, topia };
+
+  const isReady = Object.values(checks).every(({ status }) => status !== "error");
+
+  return { status: isReady ? "ready" : "not_ready", version: buildInfo, checks };
+};
@@ -0,0 +1,81 @@
+import { ValidationError } from "../errors.js";
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** The wall clock in `timezone` at `timestamp`. Months are 1-12 and weekdays 0-6 from Sunday, as in cron */
+export const getZonedTime = (timestamp: number, timezone: string) => {
+  const parts = Object.fromEntries(
+    getFormatter(timezone)
+      .formatToParts(timestamp)
+      .map(({ type, value }) => [type, value]),
+  );
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    month: Number(parts.month),
+    dayOfMonth: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The IANA timezone the client sent with `?timezone=`, e.g. "America/New_York". Visitors whose client
+ * doesn't send one get UTC days; a value Intl doesn't recognise is rejected rather than guessed at.
+ */
+export const getTimezone = (query: any) => {
+  const timezone = query?.timezone;
+  if (!timezone) return DEFAULT_TIMEZONE;
+  if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+    throw new ValidationError(`Unknown timezone: ${timezone}`, { details: { timezone } });
+  }
+  return timezone;
+};
+
+/** The visitor's calendar day at `timestamp`, as YYYY-MM-DD in their timezone */
+export const getDayKey = (timestamp: number, timezone: string) => getZonedTime(timestamp, timezone).day;
+
+/** Whole calendar days from one day key to another, e.g. 1 for yesterday to today */
+export const daysBetween = (fromDay: string, toDay: string) =>
+  Math.round((Date.parse(`${toDay}T00:00:00Z`) - Date.parse(`${fromDay}T00:00:00Z`)) / DAY_MS);
+
+/** Time left until the visitor's next midnight. Assumes a 24 hour day, so it is an hour out across a DST change */
+export const msUntilNextDay = (timestamp: number, timezone: string) => {
+  const { hour, minute, second } = getZonedTime(timestamp, timezone);
+  return DAY_MS - (hour * 3600 + minute * 60 + second) * 1000 - (timestamp % 1000);
+};
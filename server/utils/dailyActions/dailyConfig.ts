@@ -0,0 +1,7 @@
+export const dailyConfig = {
+  /**
+   * Days a visitor can miss without losing their streak. With 1, playing Monday and Wednesday keeps
+   * the streak going; playing Monday and Thursday starts a new one.
+   */
+  graceDays: 1,
+};
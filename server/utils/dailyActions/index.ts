@@ -0,0 +1,3 @@
+export * from "./calendarDays.js";
+export * from "./dailyConfig.js";
+export * from "./recordDailyAction.js";
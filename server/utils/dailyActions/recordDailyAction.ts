@@ -0,0 +1,116 @@
+import { Credentials, DailyActionResult, IVisitor, VisitorStreak } from "../../types/index.js";
+import { ignoreLockConflict, standardizeError, withLock } from "../index.js";
+import { RateLimitError } from "../errors.js";
+import { daysBetween, DEFAULT_TIMEZONE, getDayKey, msUntilNextDay } from "./calendarDays.js";
+import { dailyConfig } from "./dailyConfig.js";
+
+/**
+ * Counts one `action` towards the visitor's day and moves their streak on the first action of each day.
+ * Days are calendar days in `timezone`, so a visitor in Tokyo and one in New York both start afresh at
+ * their own midnight. With a `limit`, the action is rejected with a 429 once it has been performed that
+ * many times today; `retryAfter` is the time until the visitor's next midnight.
+ *
+ * Counts are incremented atomically and day rollovers and streak updates take a lock per visitor and
+ * day, so concurrent requests neither lose counts nor move the streak twice. Pass `now` to control the
+ * clock in tests.
+ */
+export const recordDailyAction = async ({
+  action,
+  credentials,
+  graceDays = dailyConfig.graceDays,
+  limit,
+  now = Date.now,
+  timezone = DEFAULT_TIMEZONE,
+  visitor,
+}: {
+  action: string;
+  credentials: Credentials;
+  graceDays?: number;
+  limit?: number;
+  now?: () => number;
+  timezone?: string;
+  visitor: IVisitor;
+}): Promise<DailyActionResult> => {
+  try {
+    const { urlSlug, visitorId } = credentials;
+    const timestamp = now();
+    const day = getDayKey(timestamp, timezone);
+    const path = `daily.${action}`;
+
+    // without the lock, a request that is slow to see the new day could reset the count after others added to it
+    if (visitor.dataObject.daily?.[action]?.day !== day) {
+      await withLock(
+        visitor,
+        `daily-${action}-${urlSlug}-${visitorId}-${day}`,
+        (options) => visitor.updateDataObject({ [path]: { day, count: 0 } }, options),
+        { window: "once" },
+      ).catch(ignoreLockConflict);
+    }
+
+    await visitor.incrementDataObjectValue(`${path}.count`, 1);
+    await visitor.fetchDataObject();
+    const { count } = visitor.dataObject.daily[action];
+
+    if (limit !== undefined && count > limit) {
+      await visitor.incrementDataObjectValue(`${path}.count`, -1);
+      const retryAfter = Math.max(1, Math.ceil(msUntilNextDay(timestamp, timezone) / 1000));
+      throw new RateLimitError(`Daily ${action} limit of ${limit} reached. Come back tomorrow!`, retryAfter, {
+        details: { action, day, limit, timezone },
+      });
+    }
+
+    const { streak, streakUpdated } = await updateStreak({
+      day,
+      graceDays,
+      lockKey: `streak-${urlSlug}-${visitorId}-${day}`,
+      visitor,
+    });
+
+    return {
+      action,
+      day,
+      count,
+      limit,
+      remaining: limit === undefined ? undefined : limit - count,
+      streak,
+      streakUpdated,
+    };
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
+
+const updateStreak = async ({
+  day,
+  graceDays,
+  lockKey,
+  visitor,
+}: {
+  day: string;
+  graceDays: number;
+  lockKey: string;
+  visitor: IVisitor;
+}) => {
+  const streak: VisitorStreak = visitor.dataObject.streak || { current: 0, longest: 0 };
+  const daysSinceActive = streak.lastActiveDay ? daysBetween(streak.lastActiveDay, day) : Infinity;
+
+  // already counted today, or the visitor's timezone moved them back to a day that was counted
+  if (daysSinceActive <= 0) return { streak, streakUpdated: false };
+
+  const current = daysSinceActive <= graceDays + 1 ? streak.current + 1 : 1;
+  const updated: VisitorStreak = { current, longest: Math.max(streak.longest, current), lastActiveDay: day };
+
+  const streakUpdated = await withLock(
+    visitor,
+    lockKey,
+    (options) => visitor.updateDataObject({ streak: updated }, options),
+    {
+      window: "once",
+    },
+  )
+    .then(() => true)
+    .catch(ignoreLockConflict);
+
+  if (!streakUpdated) await visitor.fetchDataObject();
+  return { streak: streakUpdated ? updated : visitor.dataObject.streak, streakUpdated };
+};
@@ -0,0 +1,39 @@
+import { DataObjectSchema, DataObjectTypes } from "../../types/index.js";
+
+/**
+ * Single source of truth for the shape of every data object this app writes.
+ *
+ * To add a field: add it to the shared type and `defaults`, then bump `schemaVersion`.
+ * Missing top-level fields are filled from `defaults` automatically, so a migration is
+ * only needed when existing values must be renamed, reshaped or removed.
+ */
+export const dataObjectSchemas: { [K in keyof DataObjectTypes]: DataObjectSchema<DataObjectTypes[K]> } = {
+  droppedAsset: {
+    schemaVersion: 1,
+    defaults: () => ({ schemaVersion: 1, droppedAssetCount: 0 }),
+    migrations: [],
+  },
+  user: {
+    schemaVersion: 1,
+    defaults: () => ({ schemaVersion: 1 }),
+    migrations: [],
+  },
+  visitor: {
+    schemaVersion: 4,
+    defaults: () => ({
+      schemaVersion: 4,
+      exampleParam: "",
+      completedCount: 0,
+      xp: 0,
+      level: 1,
+      daily: {},
+      streak: { current: 0, longest: 0 },
+    }),
+    migrations: [],
+  },
+  world: {
+    schemaVersion: 2,
+    defaults: () => ({ schemaVersion: 2, scheduledJobs: {} }),
+    migrations: [],
+  },
+};
@@ -0,0 +1,29 @@
+import { Credentials, DataObjectEntity } from "../../types/index.js";
+import { DroppedAsset, User, Visitor, World } from "../index.js";
+
+export type DataObjectOwner = "world" | "dropped-asset" | "visitor" | "user";
+
+/**
+ * Creates the SDK instance that owns a data object, for tools that read or write any entity by id.
+ * Nothing is fetched here, so a missing entity surfaces as a 404 from `fetchDataObject`.
+ *
+ * @param entityId - urlSlug for worlds, id for dropped assets and visitors, profileId for users
+ */
+export const getDataObjectEntity = (
+  entityType: DataObjectOwner,
+  entityId: string,
+  credentials: Credentials,
+): DataObjectEntity => {
+  const { urlSlug } = credentials;
+
+  switch (entityType) {
+    case "world":
+      return World.create(entityId, { credentials });
+    case "dropped-asset":
+      return DroppedAsset.create(entityId, urlSlug, { credentials });
+    case "visitor":
+      return Visitor.create(Number(entityId), urlSlug, { credentials });
+    case "user":
+      return User.create({ credentials: { ...credentials, profileId: entityId } });
+  }
+};
@@ -0,0 +1,4 @@
+export * from "./dataObjectSchemas.js";
+export * from "./initializeDataObject.js";
+export * from "./upgradeDataObject.js";
+export * from "./getDataObjectEntity.js";
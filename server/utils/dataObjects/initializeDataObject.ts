@@ -0,0 +1,46 @@
+import { DataObjectEntity, DataObjectEntityType, DataObjectTypes } from "../../types/index.js";
+import { LockConflictError } from "../errors.js";
+import { withLock } from "../locks/index.js";
+import { logger } from "../logger.js";
+import { standardizeError } from "../standardizeError.js";
+import { upgradeDataObject } from "./upgradeDataObject.js";
+
+/**
+ * Fetches an entity's data object and initializes or migrates it to the current schema version.
+ * The write is locked per entity and target version so concurrent requests only upgrade once;
+ * a request that loses the lock re-fetches the data object written by the winner.
+ *
+ * @param entityKey - Identifies the entity in the lock ID (e.g. dropped asset id, urlSlug, profileId)
+ */
+export const initializeDataObject = async <K extends DataObjectEntityType>(
+  entity: DataObjectEntity,
+  entityType: K,
+  entityKey: string,
+): Promise<DataObjectTypes[K]> => {
+  try {
+    await entity.fetchDataObject();
+
+    const upgraded = upgradeDataObject(entityType, entity.dataObject);
+
+    if (upgraded) {
+      // one-minute windows, so an upgrade that died mid-write doesn't block the next one for long
+      await withLock(
+        entity,
+        `${entityType}-${entityKey}-v${upgraded.schemaVersion}`,
+        (options) => entity.setDataObject(upgraded, options),
+        { window: 60_000 },
+      ).catch((error) => {
+        if (!(error instanceof LockConflictError)) throw error;
+        logger.warn("Unable to acquire lock, another process may be updating the data object", {
+          lockId: error.details?.lockId,
+        });
+      });
+
+      await entity.fetchDataObject();
+    }
+
+    return entity.dataObject as DataObjectTypes[K];
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
@@ -0,0 +1,25 @@
+import { DataObjectEntityType, DataObjectTypes } from "../../types/index.js";
+import { dataObjectSchemas } from "./dataObjectSchemas.js";
+
+/**
+ * Returns the data object at the current schema version, or null if it is already up to date.
+ * Data objects written before the registry existed have no schemaVersion and are treated as version 0.
+ */
+export const upgradeDataObject = <K extends DataObjectEntityType>(
+  entityType: K,
+  dataObject?: object | null,
+): DataObjectTypes[K] | null => {
+  const { defaults, migrations, schemaVersion } = dataObjectSchemas[entityType];
+
+  if (!dataObject || Object.keys(dataObject).length === 0) return defaults();
+
+  const currentVersion = (dataObject as { schemaVersion?: number }).schemaVersion || 0;
+  if (currentVersion >= schemaVersion) return null;
+
+  const migrated = [...migrations]
+    .sort((a, b) => a.toVersion - b.toVersion)
+    .filter(({ toVersion }) => toVersion > currentVersion && toVersion <= schemaVersion)
+    .reduce((data, { migrate }) => migrate(data), { ...dataObject } as Record<string, any>);
+
+  return { ...defaults(), ...migrated, schemaVersion } as DataObjectTypes[K];
+};
@@ -1,5 +1,6 @@
 import { Credentials, IDroppedAsset } from "../../types/index.js";
 import { DroppedAsset, initializeDroppedAssetDataObject, standardizeError } from "../index.js";
+import { NotFoundError } from "../errors.js";
 
 export const getDroppedAsset = async (credentials: Credentials): Promise<IDroppedAsset> => {
   try {
@@ -7,15 +8,13 @@ export const getDroppedAsset = async (credentials: Credentials): Promise<IDroppe
 
     const droppedAsset = (await DroppedAsset.get(assetId, urlSlug, { credentials })) as IDroppedAsset;
 
+    if (!droppedAsset) throw new NotFoundError("Dropped asset not found");
+
     // If the application will make any updates to a dropped asset's data object we need to
     // first instantiate to ensure it's existence and define it's proper structure.
-    // The same should be true for World, User, and Visitor data objects
+    // The same should be true for World, User, and Visitor data objects (see dataObjects/dataObjectSchemas.ts)
     await initializeDroppedAssetDataObject(droppedAsset);
 
-    if (!droppedAsset) throw "Dropped asset not found";
-
-    await droppedAsset.fetchDataObject();
-
     return droppedAsset;
   } catch (error) {
     throw standardizeError(error);
@@ -1,3 +1,8 @@
+import { ApiErrorResponse } from "../../shared/types/ApiError.js";
+import { CircuitOpenError, RateLimitError } from "./errors.js";
+import { logger } from "./logger.js";
+import { standardizeError } from "./standardizeError.js";
+
 export const errorHandler = ({
   error,
   functionName,
@@ -12,30 +17,46 @@ export const errorHandler = ({
   res?: any;
 }) => {
   try {
-    if (process.env.NODE_ENV === "development") console.error("❌ Error:", error);
+    const appError = standardizeError(error);
 
-    const reqQueryParams = req?.query;
-    if (reqQueryParams?.interactiveNonce) delete reqQueryParams.interactiveNonce;
+    // interactiveNonce and other secrets in the query or body are redacted by the logger
+    const log = appError.status >= 500 ? logger.error : logger.warn;
+    log(message, {
+      controller: functionName,
+      code: appError.code,
+      status: appError.status,
+      requestContext: {
+        requestId: req?.id,
+        reqQueryParams: req?.query,
+        reqBody: req?.body,
+      },
+      error: appError,
+      ...(appError.cause !== undefined && { cause: appError.cause }),
+    });
 
-    console.error(
-      JSON.stringify({
-        errorContext: {
-          message,
-          functionName,
-        },
-        requestContext: {
-          requestId: req?.id,
-          reqQueryParams,
-          reqBody: req?.body,
+    if (res) {
+      const retryAfter =
+        appError instanceof RateLimitError || appError instanceof CircuitOpenError ? appError.retryAfter : undefined;
+      const body: ApiErrorResponse = {
+        success: false,
+        code: appError.code,
+        message,
+        ...(retryAfter !== undefined && { retryAfter }),
+        error: {
+          code: appError.code,
+          message: appError.message,
+          ...(appError.details && { details: appError.details }),
         },
-        error: JSON.stringify(error, Object.getOwnPropertyNames(error)),
-      }),
-    );
-
-    if (res) return res.status(error.status || 500).send({ error, message, success: false });
-    return { error };
+      };
+      if (retryAfter !== undefined) res.set("Retry-After", String(retryAfter));
+      return res.status(appError.status).send(body);
+    }
+    return { error: appError };
   } catch (e) {
-    console.error("❌ Error printing the logs", e);
-    return res.status(500).send({ error: e, message, success: false });
+    // the logger itself may be what threw, so fall back to a plain line on stderr
+    process.stderr.write(
+      `Error logging "${message}" in ${functionName}: ${e instanceof Error ? e.message : String(e)}\n`,
+    );
+    return res?.status(500).send({ error: e, message, success: false });
   }
 };
@@ -0,0 +1,112 @@
+import { ErrorCode } from "../../shared/types/ApiError.js";
+
+type AppErrorOptions = {
+  details?: Record<string, unknown>;
+  cause?: unknown;
+};
+
+/**
+ * Base class for every error the server raises on purpose. `status` is the HTTP status
+ * errorHandler responds with and `code` is the stable, machine-readable value the client branches on.
+ */
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, status = 500, code: ErrorCode = "INTERNAL_ERROR", options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.details = options.details;
+  }
+}
+
+/** Missing or malformed input (400) */
+export class ValidationError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(message, 400, "VALIDATION_ERROR", options);
+  }
+}
+
+/** Credentials are missing or do not match this app (401) */
+export class AuthError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(message, 401, "UNAUTHORIZED", options);
+  }
+}
+
+/** Credentials are valid but the visitor is not allowed to perform the action (403) */
+export class ForbiddenError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(message, 403, "FORBIDDEN", options);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(message, 404, "NOT_FOUND", options);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, options?: AppErrorOptions, code: ErrorCode = "CONFLICT") {
+    super(message, 409, code, options);
+  }
+}
+
+/** Another request holds the data object lock (409) */
+export class LockConflictError extends ConflictError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(message, options, "LOCK_CONFLICT");
+  }
+}
+
+/** The visitor repeated an action before its cooldown ended (429). `retryAfter` is in seconds */
+export class RateLimitError extends AppError {
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number, options?: AppErrorOptions) {
+    super(message, 429, "RATE_LIMITED", options);
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * A call to Topia or another upstream service failed. The upstream status is kept so a
+ * 404 or 401 from the SDK reaches the client as such; anything unusable becomes a 502.
+ */
+export class UpstreamError extends AppError {
+  readonly upstreamStatus?: number;
+
+  constructor(
+    message: string,
+    upstreamStatus?: number,
+    options?: AppErrorOptions,
+    code: ErrorCode = "UPSTREAM_ERROR",
+    status = upstreamStatus && upstreamStatus >= 400 && upstreamStatus < 600 ? upstreamStatus : 502,
+  ) {
+    super(message, status, code, options);
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+/** An upstream call didn't answer within its timeout (504) */
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(message, undefined, options, "UPSTREAM_TIMEOUT", 504);
+  }
+}
+
+/** Calls to an upstream host are paused after repeated failures (503). `retryAfter` is in seconds */
+export class CircuitOpenError extends UpstreamError {
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number, options?: AppErrorOptions) {
+    super(message, undefined, options, "UPSTREAM_UNAVAILABLE", 503);
+    this.retryAfter = retryAfter;
+  }
+}
+
+export const isAppError = (error: unknown): error is AppError => error instanceof AppError;
@@ -0,0 +1,38 @@
+import { EventEmitter } from "events";
+import { GameEvent } from "../../types/index.js";
+
+export type GameEventListener = (event: GameEvent) => void;
+
+/**
+ * Transport behind the event bus. The in-memory adapter only reaches clients connected to the
+ * same server process; a Redis adapter implementing this interface can fan out across instances.
+ */
+export interface EventBusAdapter {
+  publish(channel: string, event: GameEvent): Promise<void>;
+  /** Resolves with a function that removes the listener again */
+  subscribe(channel: string, listener: GameEventListener): Promise<() => Promise<void>>;
+}
+
+export class InMemoryEventBusAdapter implements EventBusAdapter {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // every open SSE connection adds a listener, so Node's default warning at 10 does not apply
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(channel: string, event: GameEvent) {
+    this.emitter.emit(channel, event);
+  }
+
+  async subscribe(channel: string, listener: GameEventListener) {
+    this.emitter.on(channel, listener);
+    return async () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  listenerCount(channel: string) {
+    return this.emitter.listenerCount(channel);
+  }
+}
@@ -0,0 +1,34 @@
+import { Credentials, GameEvent, SharedGameState } from "../../types/index.js";
+import { errorHandler } from "../errorHandler.js";
+import { EventBusAdapter, InMemoryEventBusAdapter } from "./EventBusAdapter.js";
+
+export * from "./EventBusAdapter.js";
+
+let eventBus: EventBusAdapter = new InMemoryEventBusAdapter();
+
+export const getEventBus = () => eventBus;
+
+export const setEventBus = (adapter: EventBusAdapter) => {
+  eventBus = adapter;
+};
+
+/** Events are scoped to a single key asset so instances of the app in the same world don't see each other's state */
+export const getEventChannel = ({ assetId, urlSlug }: Pick<Credentials, "assetId" | "urlSlug">) =>
+  `game-events:${urlSlug}:${assetId}`;
+
+/**
+ * Sends shared state to every client subscribed to the key asset. Failures are logged, not thrown,
+ * so a broken event transport never fails the request that changed the state.
+ */
+export const publishGameState = async (credentials: Credentials, gameState: SharedGameState) => {
+  const event: GameEvent = { type: "game-state", timestamp: Date.now(), gameState };
+  try {
+    await eventBus.publish(getEventChannel(credentials), event);
+  } catch (error) {
+    errorHandler({
+      error,
+      functionName: "publishGameState",
+      message: "Error publishing game state",
+    });
+  }
+};
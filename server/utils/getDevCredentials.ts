@@ -1,10 +1,12 @@
 import { Credentials } from "../types/Credentials.js";
+import { isTopiaSimulatorEnabled, SIMULATOR_WORLD_SLUG } from "./topiaSimulator/index.js";
 
 export const getDevCredentials = (): Credentials => {
-  if (!process.env.API_KEY) {
+  if (!process.env.API_KEY && !isTopiaSimulatorEnabled()) {
     throw new Error("API_KEY is required for dev routes. Add it to your .env file.");
   }
-  if (!process.env.DEVELOPMENT_WORLD_SLUG) {
+  const urlSlug = process.env.DEVELOPMENT_WORLD_SLUG || (isTopiaSimulatorEnabled() ? SIMULATOR_WORLD_SLUG : "");
+  if (!urlSlug) {
     throw new Error("DEVELOPMENT_WORLD_SLUG is required for dev routes. Add it to your .env file.");
   }
 
@@ -17,7 +19,7 @@ export const getDevCredentials = (): Credentials => {
     profileId: "",
     sceneDropId: "",
     uniqueName: "",
-    urlSlug: process.env.DEVELOPMENT_WORLD_SLUG,
+    urlSlug,
     username: "dev",
     visitorId: 0,
   };
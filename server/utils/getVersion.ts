@@ -1,13 +1,3 @@
-import fs from "fs";
+import { buildInfo } from "./buildInfo.js";
 
-export const getVersion = () => {
-  try {
-    const packageJsonContent = fs.readFileSync("./package.json", "utf8");
-    const packageJson = JSON.parse(packageJsonContent);
-    const version = packageJson.version;
-    return version;
-  } catch (error) {
-    console.error("Error reading or parsing package.json:", error);
-    return error;
-  }
-};
+export const getVersion = () => buildInfo.version;
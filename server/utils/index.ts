@@ -1,8 +1,30 @@
+export * from "./analytics/index.js";
+export * from "./badges/index.js";
+export * from "./dailyActions/index.js";
+export * from "./dataObjects/index.js";
 export * from "./droppedAssets/index.js";
-export * from "./cleanReturnPayload.js";
+export * from "./events/index.js";
+export * from "./locks/index.js";
+export * from "./rateLimit/index.js";
+export * from "./resilience/index.js";
+export * from "./scheduler/index.js";
+export * from "./topiaCache/index.js";
+export * from "./visitors/index.js";
+export * from "./webhooks/index.js";
+export * from "./worldSeed/index.js";
+export * from "./xp/index.js";
+export * from "./buildInfo.js";
+export * from "./buildOpenApiDocument.js";
+export * from "./checkReadiness.js";
 export * from "./errorHandler.js";
+export * from "./errors.js";
 export * from "./getCredentials.js";
 export * from "./getVersion.js";
+export * from "./LeaderboardClient.js";
+export * from "./logger.js";
+export * from "./requestContext.js";
+export * from "./serializers/index.js";
+export * from "./stableStringify.js";
 export * from "./standardizeError.js";
 export * from "./getDevCredentials.js";
 export * from "./topiaInit.js";
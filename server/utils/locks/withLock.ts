@@ -0,0 +1,65 @@
+import { DataObjectEntity, DataObjectLockOptions, LockWindow, WithLockOptions } from "../../types/index.js";
+import { LockConflictError } from "../errors.js";
+import { standardizeError } from "../standardizeError.js";
+
+/** Builds the lock ID for `key` under `window`, so every caller names the same lock the same way */
+export const getLockId = (key: string, window: LockWindow = "request", now = Date.now()) => {
+  if (typeof window !== "number") return key;
+  return `${key}-${new Date(Math.floor(now / window) * window).toISOString()}`;
+};
+
+/** Exponential backoff with equal jitter, so requests that collided don't retry in lockstep */
+const getRetryDelay = (retryDelayMs: number, attempt: number) => {
+  const delay = retryDelayMs * 2 ** attempt;
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `fn` with the lock options for `key` and passes them on to the entity's data object write:
+ *
+ * await withLock(visitor, `claim-${visitorId}`, (options) => visitor.updateDataObject({ claimed: true }, options), {
+ *   window: "once",
+ * });
+ *
+ * When the lock is held, the data object is re-fetched and `fn` runs again up to `retries` times, so it
+ * should build its write from `entity.dataObject`. Once retries run out a LockConflictError is thrown,
+ * which errorHandler responds to with a 409. Other errors are rethrown as they are.
+ */
+export const withLock = async <T>(
+  entity: Pick<DataObjectEntity, "fetchDataObject">,
+  key: string,
+  fn: (options: DataObjectLockOptions) => Promise<T>,
+  { window = "request", retries = 0, retryDelayMs = 100, now = Date.now }: WithLockOptions = {},
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const lockId = getLockId(key, window, now());
+
+    try {
+      return await fn({ lock: { lockId, releaseLock: window !== "once" } });
+    } catch (error) {
+      if (standardizeError(error).status !== 409) throw error;
+
+      if (attempt >= retries) {
+        throw new LockConflictError(`Another request holds the lock ${lockId}`, {
+          cause: error,
+          details: { lockId, attempts: attempt + 1 },
+        });
+      }
+    }
+
+    await sleep(getRetryDelay(retryDelayMs, attempt));
+    await entity.fetchDataObject();
+  }
+};
+
+/**
+ * For writes locked with `window: "once"`, where losing the lock means another request already did the work:
+ *
+ * const won = await withLock(...).then(() => true).catch(ignoreLockConflict);
+ */
+export const ignoreLockConflict = (error: unknown) => {
+  if (error instanceof LockConflictError) return false;
+  throw error;
+};
@@ -0,0 +1,95 @@
+import { getRequestContext } from "./requestContext.js";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// keys are matched case-insensitively at any depth; add more with LOG_REDACT_KEYS=key1,key2
+const DEFAULT_REDACT_KEYS = [
+  "apiKey",
+  "authorization",
+  "interactiveNonce",
+  "interactiveSecret",
+  "jwt",
+  "password",
+  "secret",
+  "token",
+];
+
+const getRedactKeys = () =>
+  new Set(
+    [...DEFAULT_REDACT_KEYS, ...(process.env.LOG_REDACT_KEYS || "").split(",")]
+      .map((key) => key.trim().toLowerCase())
+      .filter(Boolean),
+  );
+
+const getMinLevel = () => {
+  const level = (process.env.LOG_LEVEL || "").toLowerCase() as LogLevel;
+  if (LOG_LEVELS[level]) return LOG_LEVELS[level];
+  return process.env.NODE_ENV === "development" ? LOG_LEVELS.debug : LOG_LEVELS.info;
+};
+
+// axios errors carry the whole request, body and secrets included, as JSON strings the key-based redaction can't see into
+const OMITTED_ERROR_KEYS = ["config", "request", "response"];
+
+const serializeError = (error: Error) => ({
+  ...Object.fromEntries(Object.entries(error).filter(([key]) => !OMITTED_ERROR_KEYS.includes(key))),
+  name: error.name,
+  message: error.message,
+  stack: error.stack,
+});
+
+export const redact = (value: unknown, redactKeys = getRedactKeys(), seen = new WeakSet<object>()): unknown => {
+  if (value instanceof Error) return redact(serializeError(value), redactKeys, seen);
+  if (!value || typeof value !== "object") return value;
+  if (seen.has(value)) return "[Circular]";
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map((item) => redact(item, redactKeys, seen));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      redactKeys.has(key.toLowerCase()) && item ? "[REDACTED]" : redact(item, redactKeys, seen),
+    ]),
+  );
+};
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  child: (bindings: LogFields) => Logger;
+}
+
+const createLogger = (bindings: LogFields = {}): Logger => {
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LOG_LEVELS[level] < getMinLevel()) return;
+
+    const entry = redact({
+      level,
+      time: new Date().toISOString(),
+      message,
+      ...getRequestContext(),
+      ...bindings,
+      ...fields,
+    });
+
+    const line = JSON.stringify(entry);
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+  };
+};
+
+export const logger = createLogger();
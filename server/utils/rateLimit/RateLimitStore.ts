@@ -0,0 +1,56 @@
+export type RateLimitHit = {
+  /** Hits recorded for the key in the current window, including this one */
+  count: number;
+  /** Epoch ms when the current window ends and the count resets */
+  resetAt: number;
+};
+
+/**
+ * Where rate limit counters live. The in-memory store only works for a single server process;
+ * implement this interface over Redis or another shared store when running more than one.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits = new Map<string, RateLimitHit>();
+  private readonly now: () => number;
+  private readonly maxKeys: number;
+
+  constructor({ now = Date.now, maxKeys = 10_000 }: { now?: () => number; maxKeys?: number } = {}) {
+    this.now = now;
+    this.maxKeys = maxKeys;
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = this.now();
+    const current = this.hits.get(key);
+
+    if (current && current.resetAt > now) {
+      current.count += 1;
+      return { ...current };
+    }
+
+    if (this.hits.size >= this.maxKeys) this.prune(now);
+
+    const hit = { count: 1, resetAt: now + windowMs };
+    this.hits.set(key, hit);
+    return { ...hit };
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  clear() {
+    this.hits.clear();
+  }
+
+  private prune(now: number) {
+    for (const [key, { resetAt }] of this.hits) {
+      if (resetAt <= now) this.hits.delete(key);
+    }
+  }
+}
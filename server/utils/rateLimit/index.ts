@@ -0,0 +1,12 @@
+import { MemoryRateLimitStore, RateLimitStore } from "./RateLimitStore.js";
+
+export * from "./RateLimitStore.js";
+
+let defaultStore: RateLimitStore = new MemoryRateLimitStore();
+
+/** Used by every rateLimit middleware that doesn't pass its own `store` */
+export const getRateLimitStore = () => defaultStore;
+
+export const setRateLimitStore = (store: RateLimitStore) => {
+  defaultStore = store;
+};
@@ -0,0 +1,14 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface RequestContext {
+  requestId: string;
+  urlSlug?: string;
+  visitorId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/** Runs `fn` with a context that the logger attaches to every log line written during the request */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => storage.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
@@ -0,0 +1,91 @@
+import { CircuitBreakerOptions, CircuitState } from "../../types/index.js";
+import { CircuitOpenError } from "../errors.js";
+import { logger } from "../logger.js";
+import { resilienceConfig } from "./resilienceConfig.js";
+
+/**
+ * Stops calling a host that keeps failing, so requests fail fast with a 503 instead of each one waiting
+ * out a timeout. Only failures that say the host is unwell count: timeouts, network errors and 5xx.
+ * A 404 or 409 is an answer, and resets the count like any other success.
+ */
+export class CircuitBreaker {
+  readonly host: string;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private isTrialInFlight = false;
+
+  constructor(
+    host: string,
+    {
+      failureThreshold = resilienceConfig.failureThreshold,
+      resetTimeoutMs = resilienceConfig.resetTimeoutMs,
+      now = Date.now,
+    }: CircuitBreakerOptions = {},
+  ) {
+    this.host = host;
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+    this.now = now;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /** Throws a CircuitOpenError unless a call to the host may go ahead now */
+  beforeCall(operation: string) {
+    if (this.state === "closed") return;
+
+    const retryAfterMs = this.openedAt + this.resetTimeoutMs - this.now();
+    if (this.state === "open" && retryAfterMs <= 0) this.state = "half-open";
+
+    if (this.state === "half-open" && !this.isTrialInFlight) {
+      this.isTrialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(
+      `${this.host} is unavailable after repeated failures`,
+      Math.max(1, Math.ceil(retryAfterMs / 1000)),
+      { details: { host: this.host, operation } },
+    );
+  }
+
+  recordSuccess() {
+    if (this.state !== "closed") logger.info("Circuit closed", { host: this.host });
+    this.state = "closed";
+    this.failures = 0;
+    this.isTrialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.isTrialInFlight = false;
+    if (this.state === "half-open" || this.failures >= this.failureThreshold) {
+      if (this.state !== "open") logger.warn("Circuit opened", { host: this.host, failures: this.failures });
+      this.state = "open";
+      this.openedAt = this.now();
+    }
+  }
+}
+
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+export const getCircuitBreaker = (host: string) => {
+  let breaker = circuitBreakers.get(host);
+  if (!breaker) {
+    breaker = new CircuitBreaker(host);
+    circuitBreakers.set(host, breaker);
+  }
+  return breaker;
+};
+
+export const getCircuitStates = () =>
+  Object.fromEntries([...circuitBreakers].map(([host, breaker]) => [host, breaker.getState()]));
+
+/** Closes every circuit. For tests */
+export const resetCircuitBreakers = () => circuitBreakers.clear();
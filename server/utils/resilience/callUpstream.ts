@@ -0,0 +1,104 @@
+import { UpstreamCallOptions } from "../../types/index.js";
+import { isAppError, UpstreamError, UpstreamTimeoutError } from "../errors.js";
+import { logger } from "../logger.js";
+import { getCircuitBreaker } from "./CircuitBreaker.js";
+import { resilienceConfig } from "./resilienceConfig.js";
+
+// the request never reached the host, so even a write is safe to send again
+const CONNECTION_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+const NETWORK_ERROR_CODES = [...CONNECTION_ERROR_CODES, "ECONNRESET", "ETIMEDOUT", "ECONNABORTED"];
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// SDK and axios errors carry the upstream HTTP status either directly or on `response`
+const getStatus = (error: any): number | undefined => {
+  const status = error?.status ?? error?.response?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+const isTimeout = (error: any) =>
+  error instanceof UpstreamTimeoutError || (error?.code === "ECONNABORTED" && /timeout/i.test(error.message));
+
+/** Timeouts, network errors and 5xx say the host is unwell. Any other answer, 404 included, says it's up */
+const isHostFailure = (error: any) => {
+  if (isTimeout(error)) return true;
+  const status = getStatus(error);
+  return status === undefined ? !isAppError(error) : status >= 500;
+};
+
+const isRetryable = (error: any, isIdempotent: boolean) => {
+  if (CONNECTION_ERROR_CODES.includes(error?.code)) return true;
+  if (!isIdempotent) return false;
+  return isHostFailure(error) || getStatus(error) === 429;
+};
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, message: string, details: Record<string, unknown>) => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new UpstreamTimeoutError(message, { details })), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/** Turns whatever the SDK or axios threw into an UpstreamError that keeps the upstream status */
+const toUpstreamError = (error: any, host: string, operation: string) => {
+  if (isAppError(error)) return error;
+  if (isTimeout(error)) return new UpstreamTimeoutError(error.message, { cause: error, details: { host, operation } });
+
+  const status = getStatus(error);
+  const message = error?.response?.data?.message || error?.message || `${operation} failed`;
+  return new UpstreamError(message, status, {
+    cause: error,
+    details: { host, operation, ...(NETWORK_ERROR_CODES.includes(error?.code) && { code: error.code }) },
+  });
+};
+
+/**
+ * Calls an upstream service with a timeout per attempt, retries with exponential backoff and the host's
+ * circuit breaker:
+ *
+ * const players = await callUpstream(() => http.get(url), { host, operation: "getTopPlayers", isIdempotent: true });
+ *
+ * Failures are thrown as an UpstreamError, or its UpstreamTimeoutError and CircuitOpenError subclasses, which
+ * errorHandler responds to with the upstream status, a 504 or a 503. A call that timed out isn't cancelled,
+ * so writes are never retried unless the connection was refused: a write that timed out may still land.
+ */
+export const callUpstream = async <T>(
+  fn: () => Promise<T>,
+  {
+    host,
+    operation,
+    isIdempotent,
+    timeoutMs = resilienceConfig.timeoutMs,
+    retries = resilienceConfig.retries,
+    retryDelayMs = resilienceConfig.retryDelayMs,
+    sleep = defaultSleep,
+  }: UpstreamCallOptions,
+): Promise<T> => {
+  const breaker = getCircuitBreaker(host);
+
+  for (let attempt = 0; ; attempt++) {
+    breaker.beforeCall(operation);
+
+    try {
+      const result = await withTimeout(fn(), timeoutMs, `${operation} timed out after ${timeoutMs}ms`, {
+        host,
+        operation,
+      });
+      breaker.recordSuccess();
+      return result;
+    } catch (error: any) {
+      if (isHostFailure(error)) breaker.recordFailure();
+      else breaker.recordSuccess();
+
+      if (attempt < retries && isRetryable(error, isIdempotent)) {
+        const delay = retryDelayMs * 2 ** attempt + Math.floor(Math.random() * retryDelayMs);
+        logger.warn("Retrying upstream call", { host, operation, attempt: attempt + 1, delay, code: error?.code });
+        await sleep(delay);
+        continue;
+      }
+
+      throw toUpstreamError(error, host, operation);
+    }
+  }
+};
@@ -0,0 +1,4 @@
+export * from "./callUpstream.js";
+export * from "./CircuitBreaker.js";
+export * from "./resilienceConfig.js";
+export * from "./withResilience.js";
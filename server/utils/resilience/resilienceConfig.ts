@@ -0,0 +1,9 @@
+export const resilienceConfig = {
+  /** How long a call to Topia or the leaderboard may take, per attempt. Set with UPSTREAM_TIMEOUT_MS */
+  timeoutMs: Number(process.env.UPSTREAM_TIMEOUT_MS) || 10_000,
+  retries: 2,
+  retryDelayMs: 200,
+  /** Consecutive failures after which calls to a host fail fast */
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
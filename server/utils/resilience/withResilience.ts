@@ -0,0 +1,57 @@
+import { callUpstream } from "./callUpstream.js";
+
+// reads by the SDK's naming, e.g. fetchDataObject, fetchDroppedAssetById and get
+const isReadMethod = (name: string) => /^(fetch|get)/.test(name);
+
+// SDK entities are class instances, while details and data objects are plain objects and arrays
+const isEntity = (value: unknown): value is object => {
+  if (!value || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype !== null && prototype !== Object.prototype && prototype !== Array.prototype;
+};
+
+const wrapResult = (value: unknown, host: string): any => {
+  if (Array.isArray(value)) return value.map((item) => wrapResult(item, host));
+  return isEntity(value) ? wrap(value, host) : value;
+};
+
+/**
+ * Proxies an SDK factory or entity so each of its methods calls Topia through callUpstream. Only methods
+ * from the prototype are wrapped: fields set on the instance, like details copied on by the Topia read
+ * cache or a jest.spyOn, are returned as they are. Methods run on the unwrapped instance, so calls they
+ * make to each other aren't timed and retried twice.
+ */
+const wrap = <T extends object>(target: T, host: string): T =>
+  new Proxy(target, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (
+        typeof value !== "function" ||
+        typeof property === "symbol" ||
+        property === "constructor" ||
+        Object.hasOwn(target, property)
+      ) {
+        return value;
+      }
+
+      // factories create entities without calling Topia
+      if (property === "create") return (...args: unknown[]) => wrapResult(value.apply(target, args), host);
+
+      return async (...args: unknown[]) => {
+        const result = await callUpstream(() => value.apply(target, args), {
+          host,
+          operation: `${target.constructor.name}.${property}`,
+          isIdempotent: isReadMethod(property),
+        });
+        return wrapResult(result, host);
+      };
+    },
+  });
+
+/**
+ * Applies timeouts, retries for reads and the circuit breaker for `host` to every call made through
+ * `factory` and the entities it creates or fetches:
+ *
+ * const DroppedAsset = withResilience(new DroppedAssetFactory(topia), "api.topia.io");
+ */
+export const withResilience = <T extends object>(factory: T, host: string): T => wrap(factory, host);
@@ -0,0 +1,22 @@
+import { JobHandler } from "../../types/index.js";
+
+/** The handler for each kind of job, by name. Jobs store only the name, so handlers must be registered at startup */
+export class JobRegistry {
+  private readonly handlers = new Map<string, JobHandler>();
+
+  /** Returns a function that removes the handler again */
+  register(name: string, handler: JobHandler) {
+    this.handlers.set(name, handler);
+    return () => {
+      if (this.handlers.get(name) === handler) this.handlers.delete(name);
+    };
+  }
+
+  get(name: string) {
+    return this.handlers.get(name);
+  }
+
+  clear() {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,71 @@
+import { JobCredentials, ScheduledJob } from "../../types/index.js";
+import { initializeDataObject } from "../dataObjects/index.js";
+import { ignoreLockConflict, withLock } from "../locks/index.js";
+import { World } from "../topiaInit.js";
+import { getAppCredentials } from "./jobCredentials.js";
+
+/**
+ * Where job definitions live. The world data object store persists them with the world, so they survive
+ * restarts and are shared by every server instance; the in-memory store is for tests.
+ */
+export interface ScheduledJobStore {
+  list(credentials: JobCredentials): Promise<ScheduledJob[]>;
+  /** Creates or replaces the job */
+  save(job: ScheduledJob): Promise<void>;
+  /** Resolves false when another server instance already claimed the run of `job` due at `runAt` */
+  claim(job: ScheduledJob, runAt: number): Promise<boolean>;
+}
+
+export class WorldDataObjectJobStore implements ScheduledJobStore {
+  async list(credentials: JobCredentials) {
+    const { urlSlug } = credentials;
+    const world = World.create(urlSlug, { credentials: getAppCredentials(credentials) });
+    const { scheduledJobs = {} } = await initializeDataObject(world, "world", urlSlug);
+    return Object.values(scheduledJobs) as ScheduledJob[];
+  }
+
+  async save(job: ScheduledJob) {
+    const world = World.create(job.urlSlug, { credentials: getAppCredentials(job.credentials) });
+    await initializeDataObject(world, "world", job.urlSlug);
+    await world.updateDataObject({ [`scheduledJobs.${job.id}`]: job });
+  }
+
+  /** The lock is never released, so each run can only be claimed once across instances */
+  async claim(job: ScheduledJob, runAt: number) {
+    const world = World.create(job.urlSlug, { credentials: getAppCredentials(job.credentials) });
+    return withLock(
+      world,
+      `scheduled-job-${job.urlSlug}-${job.id}-${runAt}`,
+      (options) => world.updateDataObject({}, options),
+      { window: "once" },
+    )
+      .then(() => true)
+      .catch(ignoreLockConflict);
+  }
+}
+
+export class MemoryScheduledJobStore implements ScheduledJobStore {
+  private readonly jobs = new Map<string, Map<string, ScheduledJob>>();
+  private readonly claims = new Set<string>();
+
+  async list({ urlSlug }: JobCredentials) {
+    return [...(this.jobs.get(urlSlug)?.values() || [])].map((job) => structuredClone(job));
+  }
+
+  async save(job: ScheduledJob) {
+    if (!this.jobs.has(job.urlSlug)) this.jobs.set(job.urlSlug, new Map());
+    this.jobs.get(job.urlSlug)!.set(job.id, structuredClone(job));
+  }
+
+  async claim(job: ScheduledJob, runAt: number) {
+    const key = `${job.urlSlug}:${job.id}:${runAt}`;
+    if (this.claims.has(key)) return false;
+    this.claims.add(key);
+    return true;
+  }
+
+  clear() {
+    this.jobs.clear();
+    this.claims.clear();
+  }
+}
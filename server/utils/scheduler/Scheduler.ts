@@ -0,0 +1,201 @@
+import { randomUUID } from "crypto";
+import { Credentials, JobCredentials, JobSchedule, ScheduledJob } from "../../types/index.js";
+import { isValidTimezone } from "../dailyActions/calendarDays.js";
+import { errorHandler } from "../errorHandler.js";
+import { ConflictError, NotFoundError, ValidationError } from "../errors.js";
+import { logger } from "../logger.js";
+import { standardizeError } from "../standardizeError.js";
+import { getNextCronRun } from "./cron.js";
+import { canRunJobs, getAppCredentials, toJobCredentials } from "./jobCredentials.js";
+import { JobRegistry } from "./JobRegistry.js";
+import { ScheduledJobStore, WorldDataObjectJobStore } from "./ScheduledJobStore.js";
+
+type SchedulerOptions = {
+  store?: ScheduledJobStore;
+  registry?: JobRegistry;
+  /** How often due jobs are checked for, and so roughly how late a job can run */
+  intervalMs?: number;
+  now?: () => number;
+};
+
+/**
+ * Runs jobs on a cron expression or once after a delay, e.g. "reset the board every Monday" or "close the
+ * round in 10 minutes". Jobs are stored per world, so the scheduler only checks the worlds it has seen:
+ * worlds are watched when a job is scheduled or listed there and when a visitor loads the game state,
+ * which picks jobs up again after a restart. A world is dropped again on the first tick that finds no
+ * scheduled jobs in it. Jobs keep only the world and key asset they were scheduled for, and run with
+ * app-level credentials authorized by the API_KEY, so the scheduler doesn't start without one.
+ *
+ * Each run of a job is claimed with a data object lock before it starts, so when several server instances
+ * watch the same world only one of them runs it. Runs missed while no server was up happen on the next
+ * tick, once.
+ */
+export class Scheduler {
+  private readonly store: ScheduledJobStore;
+  private readonly registry: JobRegistry;
+  private readonly intervalMs: number;
+  private readonly now: () => number;
+  private readonly worlds = new Map<string, JobCredentials>();
+  private timer?: NodeJS.Timeout;
+  private tick?: Promise<void>;
+
+  constructor({
+    store = new WorldDataObjectJobStore(),
+    registry = new JobRegistry(),
+    intervalMs = 30_000,
+    now = Date.now,
+  }: SchedulerOptions = {}) {
+    this.store = store;
+    this.registry = registry;
+    this.intervalMs = intervalMs;
+    this.now = now;
+  }
+
+  /** Checks the world's jobs on the next tick, and on every tick after while it has scheduled jobs */
+  watchWorld(credentials: JobCredentials) {
+    this.worlds.set(credentials.urlSlug, toJobCredentials(credentials));
+  }
+
+  async scheduleJob({
+    credentials,
+    name,
+    payload = {},
+    schedule,
+  }: {
+    credentials: Credentials;
+    name: string;
+    payload?: Record<string, unknown>;
+    schedule: JobSchedule;
+  }): Promise<ScheduledJob> {
+    if (!this.registry.get(name)) throw new ValidationError(`No handler registered for job ${name}`);
+
+    const job: ScheduledJob = {
+      id: randomUUID(),
+      name,
+      urlSlug: credentials.urlSlug,
+      schedule,
+      status: "scheduled",
+      payload,
+      createdAt: this.now(),
+      nextRunAt: this.getFirstRun(schedule),
+      runCount: 0,
+      credentials: toJobCredentials(credentials),
+    };
+
+    await this.store.save(job);
+    this.watchWorld(credentials);
+    return job;
+  }
+
+  /** Every job in the credentials' world, including finished and cancelled ones, oldest first */
+  async listJobs(credentials: Credentials) {
+    this.watchWorld(credentials);
+    const jobs = await this.store.list(credentials);
+    return jobs.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async cancelJob(credentials: Credentials, jobId: string) {
+    const job = (await this.listJobs(credentials)).find(({ id }) => id === jobId);
+    if (!job) throw new NotFoundError(`Scheduled job ${jobId} not found`);
+    if (job.status !== "scheduled") throw new ConflictError(`Scheduled job ${jobId} is already ${job.status}`);
+
+    const cancelled: ScheduledJob = { ...job, status: "cancelled", nextRunAt: undefined };
+    await this.store.save(cancelled);
+    return cancelled;
+  }
+
+  /** Runs every due job in the watched worlds. Called on each tick; tests call it directly */
+  async runDueJobs() {
+    const now = this.now();
+
+    for (const credentials of [...this.worlds.values()]) {
+      let jobs: ScheduledJob[];
+      try {
+        jobs = await this.store.list(credentials);
+      } catch (error) {
+        errorHandler({ error, functionName: "runDueJobs", message: `Error loading jobs for ${credentials.urlSlug}` });
+        continue;
+      }
+
+      // unless it was watched again while its jobs were loading, e.g. because a job was just scheduled there
+      if (!jobs.some(({ status }) => status === "scheduled") && this.worlds.get(credentials.urlSlug) === credentials) {
+        this.worlds.delete(credentials.urlSlug);
+      }
+
+      for (const job of jobs) {
+        if (job.status === "scheduled" && job.nextRunAt !== undefined && job.nextRunAt <= now) {
+          await this.runJob(job, now);
+        }
+      }
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    if (!canRunJobs()) {
+      logger.warn("API_KEY is not set, so scheduled jobs won't run. Add it to your .env file.");
+      return;
+    }
+    this.timer = setInterval(() => {
+      // a slow tick is still running, so skip this one rather than run jobs twice
+      if (this.tick) return;
+      this.tick = this.runDueJobs().finally(() => {
+        this.tick = undefined;
+      });
+    }, this.intervalMs);
+    // don't keep the process alive just for the scheduler
+    this.timer.unref();
+    logger.info("Scheduler started", { intervalMs: this.intervalMs });
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private getFirstRun(schedule: JobSchedule) {
+    if (schedule.type === "delay") {
+      if (!Number.isFinite(schedule.runAt)) throw new ValidationError("runAt must be a timestamp");
+      return schedule.runAt;
+    }
+
+    if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+      throw new ValidationError(`Unknown timezone: ${schedule.timezone}`);
+    }
+    return getNextCronRun(schedule.cron, this.now(), schedule.timezone);
+  }
+
+  private async runJob(job: ScheduledJob, now: number) {
+    try {
+      if (!(await this.store.claim(job, job.nextRunAt!))) return;
+
+      let lastError: string | undefined;
+      try {
+        const handler = this.registry.get(job.name);
+        if (!handler) throw new Error(`No handler registered for job ${job.name}`);
+        await handler({ ...job, credentials: getAppCredentials(job.credentials) });
+      } catch (error) {
+        lastError = standardizeError(error).message;
+        errorHandler({ error, functionName: "runJob", message: `Error running scheduled job ${job.name}` });
+      }
+
+      // read the job again, so a cancel that landed while the handler ran isn't overwritten
+      const current = (await this.store.list(job.credentials)).find(({ id }) => id === job.id);
+      if (!current) return;
+
+      const { schedule } = current;
+      await this.store.save({
+        ...current,
+        ...(current.status === "scheduled" && {
+          status: schedule.type === "cron" ? "scheduled" : lastError ? "failed" : "completed",
+          nextRunAt: schedule.type === "cron" ? getNextCronRun(schedule.cron, now, schedule.timezone) : undefined,
+        }),
+        lastRunAt: now,
+        runCount: current.runCount + 1,
+        lastError,
+      });
+    } catch (error) {
+      errorHandler({ error, functionName: "runJob", message: `Error updating scheduled job ${job.name}` });
+    }
+  }
+}
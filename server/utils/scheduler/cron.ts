@@ -0,0 +1,91 @@
+import { getZonedTime } from "../dailyActions/calendarDays.js";
+import { ValidationError } from "../errors.js";
+
+const MINUTE_MS = 60 * 1000;
+
+/** Far enough to find any valid expression, including "0 0 29 2 *" which only matches in leap years */
+const MAX_ITERATIONS = 100_000;
+
+type CronFields = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Standard cron matches either day field when both are restricted, and only the restricted one otherwise */
+  anyDayOfMonth: boolean;
+  anyWeekday: boolean;
+};
+
+const parseField = (field: string, min: number, max: number, expression: string) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new ValidationError(`Invalid cron expression "${expression}": can't parse "${part}"`);
+
+    const [, , start, end, step] = match;
+    const from = start === undefined ? min : Number(start);
+    const to = start === undefined ? max : end !== undefined ? Number(end) : step !== undefined ? max : from;
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new ValidationError(`Invalid cron expression "${expression}": "${part}" must be within ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += increment) values.add(value);
+  }
+
+  return values;
+};
+
+/** Parses a five-field expression: minute, hour, day of month, month and weekday (0-7, both 0 and 7 are Sunday) */
+export const parseCron = (expression: string): CronFields => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, weekday] = fields;
+  const weekdays = parseField(weekday, 0, 7, expression);
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes: parseField(minute, 0, 59, expression),
+    hours: parseField(hour, 0, 23, expression),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, expression),
+    months: parseField(month, 1, 12, expression),
+    weekdays,
+    anyDayOfMonth: dayOfMonth === "*",
+    anyWeekday: weekday === "*",
+  };
+};
+
+/**
+ * The first minute after `after` that matches `expression` on the wall clock in `timezone`. Days and
+ * hours that can't match are skipped whole, so even yearly expressions are found in a few hundred steps.
+ */
+export const getNextCronRun = (expression: string, after: number, timezone = "UTC") => {
+  const cron = parseCron(expression);
+  let timestamp = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const { month, dayOfMonth, weekday, hour, minute } = getZonedTime(timestamp, timezone);
+
+    const dayOfMonthMatches = cron.daysOfMonth.has(dayOfMonth);
+    const weekdayMatches = cron.weekdays.has(weekday);
+    const dayMatches =
+      cron.anyDayOfMonth || cron.anyWeekday ? dayOfMonthMatches && weekdayMatches : dayOfMonthMatches || weekdayMatches;
+
+    if (!cron.months.has(month) || !dayMatches) {
+      timestamp += (24 * 60 - (hour * 60 + minute)) * MINUTE_MS;
+    } else if (!cron.hours.has(hour)) {
+      timestamp += (60 - minute) * MINUTE_MS;
+    } else if (!cron.minutes.has(minute)) {
+      timestamp += MINUTE_MS;
+    } else {
+      return timestamp;
+    }
+  }
+
+  throw new ValidationError(`Cron expression "${expression}" never matches`);
+};
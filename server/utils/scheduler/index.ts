@@ -0,0 +1,29 @@
+import { JobHandler } from "../../types/index.js";
+import { JobRegistry } from "./JobRegistry.js";
+import { Scheduler } from "./Scheduler.js";
+
+export * from "./cron.js";
+export * from "./jobCredentials.js";
+export * from "./JobRegistry.js";
+export * from "./ScheduledJobStore.js";
+export * from "./Scheduler.js";
+
+export const jobRegistry = new JobRegistry();
+
+/**
+ * registerJobHandler("reset-board", async ({ credentials, payload }) => {
+ *   const world = World.create(credentials.urlSlug, { credentials });
+ *   ...
+ * });
+ *
+ * getScheduler().scheduleJob({ credentials, name: "reset-board", schedule: { type: "cron", cron: "0 9 * * 1" } });
+ */
+export const registerJobHandler = (name: string, handler: JobHandler) => jobRegistry.register(name, handler);
+
+let scheduler = new Scheduler({ registry: jobRegistry });
+
+export const getScheduler = () => scheduler;
+
+export const setScheduler = (instance: Scheduler) => {
+  scheduler = instance;
+};
@@ -0,0 +1,34 @@
+import { Credentials, JobCredentials } from "../../types/index.js";
+import { isTopiaSimulatorEnabled } from "../topiaSimulator/index.js";
+
+export const toJobCredentials = ({ assetId, interactivePublicKey, urlSlug }: JobCredentials): JobCredentials => ({
+  assetId,
+  interactivePublicKey,
+  urlSlug,
+});
+
+/** Jobs can only reach Topia with the API_KEY, as there's no visitor whose nonce they could use */
+export const canRunJobs = () => Boolean(process.env.API_KEY) || isTopiaSimulatorEnabled();
+
+/**
+ * Credentials for the app itself rather than a visitor, as jobs run with no one in the world. Like the dev
+ * routes (see getDevCredentials), Topia authorizes these calls by the API_KEY the SDK is initialized with in
+ * topiaInit, so no nonce or visitor is sent. Visitor nonces are never stored for later use.
+ */
+export const getAppCredentials = ({ assetId, interactivePublicKey, urlSlug }: JobCredentials): Credentials => {
+  if (!canRunJobs()) throw new Error("API_KEY is required for scheduled jobs. Add it to your .env file.");
+
+  return {
+    assetId,
+    displayName: "",
+    identityId: "",
+    interactiveNonce: "",
+    interactivePublicKey,
+    profileId: "",
+    sceneDropId: "",
+    uniqueName: "",
+    urlSlug,
+    username: "",
+    visitorId: 0,
+  };
+};
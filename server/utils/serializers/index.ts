@@ -0,0 +1,4 @@
+export * from "./serializeDroppedAsset.js";
+export * from "./serializeScheduledJob.js";
+export * from "./serializeVisitor.js";
+export * from "./serializeWorld.js";
@@ -0,0 +1,19 @@
+import { DroppedAssetDTO } from "../../types/index.js";
+
+/**
+ * Copies only the fields the client needs. SDK instances carry `topia`, `credentials`, `jwt` and
+ * `requestOptions`, so controllers must never return them directly.
+ */
+export const serializeDroppedAsset = (droppedAsset: Record<string, any>): DroppedAssetDTO => ({
+  id: droppedAsset.id,
+  assetId: droppedAsset.assetId,
+  assetName: droppedAsset.assetName,
+  bottomLayerURL: droppedAsset.bottomLayerURL,
+  clickableLink: droppedAsset.clickableLink,
+  dataObject: droppedAsset.dataObject,
+  isInteractive: droppedAsset.isInteractive,
+  position: droppedAsset.position && { x: droppedAsset.position.x, y: droppedAsset.position.y },
+  sceneDropId: droppedAsset.sceneDropId,
+  topLayerURL: droppedAsset.topLayerURL,
+  uniqueName: droppedAsset.uniqueName,
+});
@@ -0,0 +1,4 @@
+import { ScheduledJob, ScheduledJobDTO } from "../../types/index.js";
+
+/** Leaves out the credentials the job runs with */
+export const serializeScheduledJob = ({ credentials, ...job }: ScheduledJob): ScheduledJobDTO => job;
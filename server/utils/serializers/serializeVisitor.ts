@@ -0,0 +1,9 @@
+import { VisitorDTO } from "../../types/index.js";
+
+export const serializeVisitor = (visitor: Record<string, any>): VisitorDTO => ({
+  visitorId: visitor.id,
+  displayName: visitor.displayName,
+  isAdmin: Boolean(visitor.isAdmin),
+  profileId: visitor.profileId,
+  username: visitor.username,
+});
@@ -0,0 +1,7 @@
+import { WorldDTO } from "../../types/index.js";
+
+export const serializeWorld = (world: Record<string, any>): WorldDTO => ({
+  urlSlug: world.urlSlug,
+  description: world.description,
+  name: world.name,
+});
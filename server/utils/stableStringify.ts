@@ -0,0 +1,7 @@
+/** JSON with sorted keys, so objects compare equal regardless of key order */
+export const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested,
+  );
@@ -1,27 +1,48 @@
+import { AppError, UpstreamError, isAppError } from "./errors.js";
+
+// SDK and axios errors carry the upstream HTTP status either directly or on `response`
+const getUpstreamStatus = (error: any): number | undefined => {
+  const status = error?.status ?? error?.response?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
 /**
  * Creates a standardized error object from various error types
  * This helps provide consistent error formatting across the application
  */
-export const standardizeError = (error: unknown): Error => {
-  // If error is already an Error instance, return it directly
-  if (error instanceof Error) {
+export const standardizeError = (error: unknown): AppError => {
+  // If error is already an AppError, return it directly
+  if (isAppError(error)) {
     return error;
   }
 
-  // If error is a string, create a new Error with that message
+  // Errors from the SDK or other HTTP calls keep their upstream status
+  const upstreamStatus = getUpstreamStatus(error);
+  if (upstreamStatus !== undefined) {
+    const message =
+      (error as any).message || (error as any).response?.data?.message || `Upstream request failed (${upstreamStatus})`;
+    return new UpstreamError(message, upstreamStatus, {
+      cause: error,
+      ...((error as any).url && { details: { url: (error as any).url, method: (error as any).method } }),
+    });
+  }
+
+  // If error is an Error instance, keep its message and stack as the cause
+  if (error instanceof Error) {
+    return new AppError(error.message, 500, "INTERNAL_ERROR", { cause: error });
+  }
+
+  // If error is a string, create a new error with that message
   if (typeof error === "string") {
-    return new Error(error);
+    return new AppError(error);
   }
 
   // If error is an object, try to extract useful information
   if (typeof error === "object" && error !== null) {
     const message = (error as any).message || JSON.stringify(error);
-    const newError = new Error(message);
-    // Add original error as property for debugging
-    (newError as any).originalError = error;
-    return newError;
+    return new AppError(message, 500, "INTERNAL_ERROR", { cause: error });
   }
 
   // Fallback for other error types
-  return new Error(`Unknown error: ${String(error)}`);
+  return new AppError(`Unknown error: ${String(error)}`);
 };
@@ -0,0 +1,94 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { TopiaCacheStats } from "../../types/index.js";
+
+type Details = Record<string, unknown>;
+
+const scopes = new AsyncLocalStorage<Map<string, Promise<Details>>>();
+
+/** Dedupes identical reads made while `fn` runs. The scopeTopiaCache middleware does this for each request */
+export const runWithTopiaCacheScope = <T>(fn: () => T): T => scopes.run(new Map(), fn);
+
+/**
+ * The fields a fetch added or changed on `entity`, which leaves out credentials and other SDK internals.
+ * The data object is left out too: it changes far more often than details, so it is always fetched.
+ */
+const getFetchedDetails = (entity: object, before: Details): Details =>
+  Object.fromEntries(
+    Object.entries(entity).filter(
+      ([key, value]) => key !== "dataObject" && typeof value !== "function" && before[key] !== value,
+    ),
+  );
+
+const matchesKey = (key: string, prefix: string) => key === prefix || key.startsWith(`${prefix}:`);
+
+/**
+ * Caches the details of Topia entities, keyed like `droppedAsset:<urlSlug>:<id>`. A read first looks for
+ * the same key earlier in the request, then in the TTL cache, and only then fetches. Details are copied
+ * onto the caller's entity, so every read gets its own instance with its own credentials.
+ */
+export class TopiaReadCache {
+  private readonly entries = new Map<string, { details: Details; expiresAt: number }>();
+  private readonly now: () => number;
+  private stats = { requestHits: 0, ttlHits: 0, misses: 0, invalidations: 0 };
+
+  constructor({ now = Date.now }: { now?: () => number } = {}) {
+    this.now = now;
+  }
+
+  /** Fills `entity` with the details for `key`, calling `fetch` to load them onto it when they aren't cached */
+  async fill<T extends object>(
+    key: string,
+    entity: T,
+    fetch: () => Promise<unknown>,
+    { ttlMs = 0 }: { ttlMs?: number } = {},
+  ): Promise<T> {
+    const scope = scopes.getStore();
+    const pending = scope?.get(key);
+    if (pending) this.stats.requestHits++;
+
+    const details = pending || this.load(key, entity, fetch, ttlMs);
+    if (scope && !pending) {
+      scope.set(key, details);
+      // a failed read is retried by the next caller instead of failing it too
+      details.catch(() => scope.get(key) === details && scope.delete(key));
+    }
+
+    return Object.assign(entity, structuredClone(await details));
+  }
+
+  /** Drops `key` and every key under it, e.g. `droppedAsset:<urlSlug>` for all of a world's dropped assets */
+  invalidate(key: string) {
+    this.stats.invalidations++;
+    for (const cached of this.entries.keys()) if (matchesKey(cached, key)) this.entries.delete(cached);
+
+    const scope = scopes.getStore();
+    for (const scoped of scope?.keys() || []) if (matchesKey(scoped, key)) scope!.delete(scoped);
+  }
+
+  getStats(): TopiaCacheStats {
+    return { ...this.stats, size: this.entries.size };
+  }
+
+  clear() {
+    this.entries.clear();
+    this.stats = { requestHits: 0, ttlHits: 0, misses: 0, invalidations: 0 };
+  }
+
+  private async load(key: string, entity: object, fetch: () => Promise<unknown>, ttlMs: number) {
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > this.now()) {
+      this.stats.ttlHits++;
+      return cached.details;
+    }
+
+    this.stats.misses++;
+    const before: Details = { ...entity };
+    await fetch();
+
+    const details = structuredClone(getFetchedDetails(entity, before));
+    if (ttlMs > 0) this.entries.set(key, { details, expiresAt: this.now() + ttlMs });
+    return details;
+  }
+}
+
+export const topiaCache = new TopiaReadCache();
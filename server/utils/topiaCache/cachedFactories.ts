@@ -0,0 +1,54 @@
+import { topiaCacheConfig } from "./topiaCacheConfig.js";
+import { topiaCache } from "./TopiaReadCache.js";
+
+type DroppedAssetFactoryLike = {
+  create(id: string, urlSlug: string, options?: any): { fetchDroppedAssetById(): Promise<unknown> };
+};
+type VisitorFactoryLike = { create(id: number, urlSlug: string, options?: any): { fetchVisitor(): Promise<unknown> } };
+type WorldFactoryLike = { create(urlSlug: string, options?: any): { fetchDetails(): Promise<unknown> } };
+
+const fill = <T extends object>(key: string, entity: T, fetch: () => Promise<unknown>, ttlMs = 0) =>
+  topiaCacheConfig.enabled ? topiaCache.fill(key, entity, fetch, { ttlMs }) : fetch().then(() => entity);
+
+/** Delegates everything to `factory` except the methods in `overrides` */
+const extendFactory = <T extends object>(factory: T, overrides: object): T =>
+  Object.assign(Object.create(factory), overrides);
+
+export const getDroppedAssetCacheKey = (urlSlug: string, droppedAssetId?: string) =>
+  droppedAssetId ? `droppedAsset:${urlSlug}:${droppedAssetId}` : `droppedAsset:${urlSlug}`;
+
+export const getWorldCacheKey = (urlSlug: string) => `world:${urlSlug}`;
+
+/** `DroppedAsset.get` reads asset details through the cache, with a short TTL */
+export const cacheDroppedAssetReads = <T extends DroppedAssetFactoryLike>(factory: T): T =>
+  extendFactory(factory, {
+    get: async (id: string, urlSlug: string, options?: object) => {
+      const droppedAsset = factory.create(id, urlSlug, options);
+      return fill(
+        getDroppedAssetCacheKey(urlSlug, id),
+        droppedAsset,
+        () => droppedAsset.fetchDroppedAssetById(),
+        topiaCacheConfig.droppedAssetTtlMs,
+      );
+    },
+  });
+
+/** `Visitor.get` is deduped within a request only, since visitors move and gain or lose admin rights */
+export const cacheVisitorReads = <T extends VisitorFactoryLike>(factory: T): T =>
+  extendFactory(factory, {
+    get: async (id: number, urlSlug: string, options?: object) => {
+      const visitor = factory.create(id, urlSlug, options);
+      return fill(`visitor:${urlSlug}:${id}`, visitor, () => visitor.fetchVisitor());
+    },
+  });
+
+/** `fetchDetails` on worlds from `World.create` reads through the cache, with a short TTL */
+export const cacheWorldReads = <T extends WorldFactoryLike>(factory: T): T =>
+  extendFactory(factory, {
+    create: (urlSlug: string, options?: object) => {
+      const world = factory.create(urlSlug, options);
+      const fetchDetails = world.fetchDetails.bind(world);
+      world.fetchDetails = () => fill(getWorldCacheKey(urlSlug), world, fetchDetails, topiaCacheConfig.worldTtlMs);
+      return world;
+    },
+  });
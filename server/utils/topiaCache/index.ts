@@ -0,0 +1,18 @@
+import { getDroppedAssetCacheKey, getWorldCacheKey } from "./cachedFactories.js";
+import { topiaCache } from "./TopiaReadCache.js";
+
+export * from "./cachedFactories.js";
+export * from "./topiaCacheConfig.js";
+export * from "./TopiaReadCache.js";
+
+export const getTopiaCacheStats = () => topiaCache.getStats();
+
+/** Call after moving, re-layering or deleting a dropped asset, so the next read sees the change */
+export const invalidateDroppedAsset = (urlSlug: string, droppedAssetId: string) =>
+  topiaCache.invalidate(getDroppedAssetCacheKey(urlSlug, droppedAssetId));
+
+/** Drops the world's details and every dropped asset cached for it */
+export const invalidateWorld = (urlSlug: string) => {
+  topiaCache.invalidate(getWorldCacheKey(urlSlug));
+  topiaCache.invalidate(getDroppedAssetCacheKey(urlSlug));
+};
@@ -0,0 +1,8 @@
+export const topiaCacheConfig = {
+  /** Set TOPIA_CACHE=false to read straight through to Topia, e.g. while chasing a stale read */
+  enabled: process.env.TOPIA_CACHE !== "false",
+  /** Position, layers, uniqueName and the like. Data objects are never cached */
+  droppedAssetTtlMs: 10_000,
+  /** Name, description and other world details */
+  worldTtlMs: 30_000,
+};
@@ -1,7 +1,20 @@
 import dotenv from "dotenv";
 dotenv.config({ path: "../.env" });
 
-import { Topia, AssetFactory, DroppedAssetFactory, UserFactory, VisitorFactory, WorldFactory } from "@rtsdk/topia";
+import {
+  Topia,
+  AssetFactory,
+  DroppedAssetFactory,
+  EcosystemFactory,
+  UserFactory,
+  VisitorFactory,
+  WorldActivityFactory,
+  WorldFactory,
+} from "@rtsdk/topia";
+import { logger } from "./logger.js";
+import { withResilience } from "./resilience/index.js";
+import { cacheDroppedAssetReads, cacheVisitorReads, cacheWorldReads } from "./topiaCache/index.js";
+import { isTopiaSimulatorEnabled, seedTopiaSimulator, simulatorSdk } from "./topiaSimulator/index.js";
 
 const config = {
   apiDomain: process.env.INSTANCE_DOMAIN || "api.topia.io",
@@ -11,12 +24,45 @@ const config = {
   interactiveSecret: process.env.INTERACTIVE_SECRET,
 };
 
-const myTopiaInstance = new Topia(config);
+const topiaSdk = {
+  Topia,
+  AssetFactory,
+  DroppedAssetFactory,
+  EcosystemFactory,
+  UserFactory,
+  VisitorFactory,
+  WorldActivityFactory,
+  WorldFactory,
+};
+
+// The simulator implements the subset of the SDK this app uses, so it is typed as the SDK for callers
+const sdk = isTopiaSimulatorEnabled() ? (simulatorSdk as unknown as typeof topiaSdk) : topiaSdk;
+
+const myTopiaInstance = new sdk.Topia(config);
+
+if (isTopiaSimulatorEnabled()) {
+  const { keyAsset, urlSlug, visitor } = seedTopiaSimulator();
+  logger.warn("Topia simulator enabled. No requests will be sent to the Topia API.", {
+    controller: "topiaInit",
+    urlSlug,
+    assetId: keyAsset.id,
+    visitorId: visitor.id,
+  });
+} else {
+  // config is redacted by the logger, so only the presence of keys is visible in the logs
+  logger.info("Topia SDK initialized", { controller: "topiaInit", config });
+}
 
-const Asset = new AssetFactory(myTopiaInstance);
-const DroppedAsset = new DroppedAssetFactory(myTopiaInstance);
-const User = new UserFactory(myTopiaInstance);
-const Visitor = new VisitorFactory(myTopiaInstance);
-const World = new WorldFactory(myTopiaInstance);
+// calls to Topia time out, reads are retried and a failing API trips a circuit breaker (see utils/resilience).
+// Reads of dropped assets, visitors and world details also go through the Topia read cache (see utils/topiaCache)
+const Asset = withResilience(new sdk.AssetFactory(myTopiaInstance), config.apiDomain);
+const DroppedAsset = cacheDroppedAssetReads(
+  withResilience(new sdk.DroppedAssetFactory(myTopiaInstance), config.apiDomain),
+);
+const Ecosystem = new sdk.EcosystemFactory(myTopiaInstance);
+const User = new sdk.UserFactory(myTopiaInstance);
+const Visitor = cacheVisitorReads(withResilience(new sdk.VisitorFactory(myTopiaInstance), config.apiDomain));
+const World = cacheWorldReads(withResilience(new sdk.WorldFactory(myTopiaInstance), config.apiDomain));
+const WorldActivity = new sdk.WorldActivityFactory(myTopiaInstance);
 
-export { Asset, DroppedAsset, User, Visitor, World };
+export { Asset, DroppedAsset, Ecosystem, User, Visitor, World, WorldActivity };
@@ -0,0 +1,268 @@
+export type Position = { x: number; y: number };
+
+export type DataObjectLock = { lockId: string; releaseLock?: boolean };
+
+/** The analytics descriptor Topia accepts with data object writes and updatePublicKeyAnalytics */
+export type SimulatedAnalytic = {
+  analyticName: string;
+  incrementBy?: number;
+  profileId?: string;
+  uniqueKey?: string;
+  urlSlug?: string;
+};
+
+export interface SimulatedDroppedAssetState {
+  id: string;
+  assetId: string;
+  assetName?: string;
+  bottomLayerURL?: string;
+  clickableLink?: string;
+  clickType?: string;
+  dataObject: Record<string, any>;
+  interactivePublicKey?: string;
+  isInteractive?: boolean;
+  position: Position;
+  sceneDropId?: string;
+  topLayerURL?: string;
+  uniqueName?: string;
+  urlSlug: string;
+}
+
+export interface SimulatedVisitorState {
+  id: number;
+  dataObject: Record<string, any>;
+  displayName: string;
+  isAdmin: boolean;
+  moveTo: Position;
+  profileId: string;
+  urlSlug: string;
+  username: string;
+}
+
+export interface SimulatedWorldState {
+  urlSlug: string;
+  dataObject: Record<string, any>;
+  description: string;
+  droppedAssets: Map<string, SimulatedDroppedAssetState>;
+  name: string;
+  visitors: Map<number, SimulatedVisitorState>;
+}
+
+export interface SimulatedUserState {
+  profileId: string;
+  dataObject: Record<string, any>;
+  inventoryItems: SimulatedUserInventoryItem[];
+}
+
+/** An item defined in the ecosystem, e.g. a badge that can be granted to visitors */
+export interface SimulatedInventoryItem {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  description?: string;
+  image_path?: string;
+}
+
+/** An item a user owns, shaped like the SDK's visitor inventory entries */
+export interface SimulatedUserInventoryItem {
+  id: string;
+  item_id: string;
+  quantity: number;
+  status: string;
+  item: { id: string; name: string; type: string; image_url?: string };
+}
+
+export interface SimulatedToast {
+  urlSlug: string;
+  visitorId?: number;
+  groupId?: string;
+  title: string;
+  text?: string;
+}
+
+export interface SimulatedParticle {
+  urlSlug: string;
+  visitorId?: number;
+  name: string;
+  duration?: number;
+  position?: Position;
+}
+
+/** Mirrors the shape of SDK errors so standardizeError maps simulator failures to the same status codes */
+export class SimulatorError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SimulatorError";
+    this.status = status;
+  }
+}
+
+/**
+ * In-memory state behind the Topia simulator. Worlds are created on first access; dropped assets
+ * and visitors must be added (or dropped) before they can be fetched, just like in a real world.
+ *
+ * Locks follow the Topia API: a write with `lock.lockId` fails with a 409 while another write holds
+ * the same lockId. `releaseLock: true` frees it once the write completes, otherwise it is held for
+ * `lockTtlMs`.
+ *
+ * Analytics sent with a write are recorded in `analytics` once the write succeeds, as Topia only counts
+ * them when it does.
+ *
+ * Reads of details and data objects are counted in `reads` and, with `latencyMs`, take that long, so
+ * benchmarks can show what a round trip saved is worth. Writes are never delayed.
+ */
+export class SimulatorStore {
+  lockTtlMs = 60_000;
+  latencyMs = 0;
+  reads = 0;
+  analytics: SimulatedAnalytic[] = [];
+  inventoryItems: SimulatedInventoryItem[] = [];
+  particles: SimulatedParticle[] = [];
+  toasts: SimulatedToast[] = [];
+  users = new Map<string, SimulatedUserState>();
+  worlds = new Map<string, SimulatedWorldState>();
+
+  private locks = new Map<string, number>();
+  private nextId = 1;
+
+  getWorld(urlSlug: string) {
+    let world = this.worlds.get(urlSlug);
+    if (!world) {
+      world = {
+        urlSlug,
+        dataObject: {},
+        description: "",
+        droppedAssets: new Map(),
+        name: urlSlug,
+        visitors: new Map(),
+      };
+      this.worlds.set(urlSlug, world);
+    }
+    return world;
+  }
+
+  getUser(profileId: string) {
+    let user = this.users.get(profileId);
+    if (!user) {
+      user = { profileId, dataObject: {}, inventoryItems: [] };
+      this.users.set(profileId, user);
+    }
+    return user;
+  }
+
+  getDroppedAsset(urlSlug: string, droppedAssetId: string) {
+    const droppedAsset = this.getWorld(urlSlug).droppedAssets.get(droppedAssetId);
+    if (!droppedAsset) throw new SimulatorError(`Dropped asset ${droppedAssetId} not found in ${urlSlug}`, 404);
+    return droppedAsset;
+  }
+
+  getVisitor(urlSlug: string, visitorId: number) {
+    const visitor = this.getWorld(urlSlug).visitors.get(Number(visitorId));
+    if (!visitor) throw new SimulatorError(`Visitor ${visitorId} not found in ${urlSlug}`, 404);
+    return visitor;
+  }
+
+  addDroppedAsset(
+    urlSlug: string,
+    droppedAsset: Partial<Omit<SimulatedDroppedAssetState, "urlSlug">> = {},
+  ): SimulatedDroppedAssetState {
+    const state: SimulatedDroppedAssetState = {
+      assetId: "webImageAsset",
+      dataObject: {},
+      position: { x: 0, y: 0 },
+      ...droppedAsset,
+      id: droppedAsset.id || this.generateId("dropped-asset"),
+      urlSlug,
+    };
+    this.getWorld(urlSlug).droppedAssets.set(state.id, state);
+    return state;
+  }
+
+  addVisitor(urlSlug: string, visitor: Partial<Omit<SimulatedVisitorState, "urlSlug">> = {}): SimulatedVisitorState {
+    const id = visitor.id ?? this.nextId++;
+    const state: SimulatedVisitorState = {
+      dataObject: {},
+      displayName: `Visitor ${id}`,
+      isAdmin: false,
+      moveTo: { x: 0, y: 0 },
+      profileId: `profile-${id}`,
+      username: `visitor-${id}`,
+      ...visitor,
+      id,
+      urlSlug,
+    };
+    this.getWorld(urlSlug).visitors.set(id, state);
+    return state;
+  }
+
+  addInventoryItem(item: Partial<SimulatedInventoryItem> & { name: string }): SimulatedInventoryItem {
+    const state: SimulatedInventoryItem = {
+      type: "BADGE",
+      status: "ACTIVE",
+      ...item,
+      id: item.id || this.generateId("inventory-item"),
+    };
+    this.inventoryItems.push(state);
+    return state;
+  }
+
+  generateId(prefix: string) {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  /** Counts a read. Only returns a promise when there is latency to wait out, so reads without it stay synchronous */
+  read(): Promise<void> | undefined {
+    this.reads++;
+    if (this.latencyMs > 0) return new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+  }
+
+  /** Runs a data object write under its lock and records the analytics sent with it */
+  async writeDataObject<T>(
+    { analytics, lock }: { analytics?: SimulatedAnalytic[]; lock?: DataObjectLock },
+    write: () => T,
+  ) {
+    const result = await this.withLock(lock, write);
+    this.analytics.push(...(analytics || []));
+    return result;
+  }
+
+  /** Runs a data object write while holding `lock`, if one is given */
+  async withLock<T>(lock: DataObjectLock | undefined, write: () => T) {
+    if (!lock) return write();
+
+    const heldUntil = this.locks.get(lock.lockId);
+    if (heldUntil && heldUntil > Date.now()) {
+      throw new SimulatorError(`Lock already acquired: ${lock.lockId}`, 409);
+    }
+
+    this.locks.set(lock.lockId, Date.now() + this.lockTtlMs);
+    try {
+      return write();
+    } finally {
+      if (lock.releaseLock) this.locks.delete(lock.lockId);
+    }
+  }
+
+  isLocked(lockId: string) {
+    return (this.locks.get(lockId) || 0) > Date.now();
+  }
+
+  reset() {
+    this.lockTtlMs = 60_000;
+    this.latencyMs = 0;
+    this.reads = 0;
+    this.analytics = [];
+    this.inventoryItems = [];
+    this.locks.clear();
+    this.nextId = 1;
+    this.particles = [];
+    this.toasts = [];
+    this.users.clear();
+    this.worlds.clear();
+  }
+}
+
+export const topiaSimulator = new SimulatorStore();
@@ -0,0 +1,307 @@
+import {
+  DataObjectLock,
+  Position,
+  SimulatedAnalytic,
+  SimulatedDroppedAssetState,
+  SimulatedInventoryItem,
+  SimulatedParticle,
+  SimulatedToast,
+  SimulatedUserInventoryItem,
+  SimulatorError,
+  topiaSimulator,
+} from "./SimulatorStore.js";
+
+type DataObjectOptions = { analytics?: SimulatedAnalytic[]; lock?: DataObjectLock; [key: string]: unknown };
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const setPath = (target: Record<string, any>, path: string, value: unknown) => {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let current = target;
+  for (const key of keys) {
+    if (typeof current[key] !== "object" || current[key] === null) current[key] = {};
+    current = current[key];
+  }
+  current[last] = value;
+};
+
+const getPath = (target: Record<string, any>, path: string) =>
+  path.split(".").reduce<any>((current, key) => current?.[key], target);
+
+/**
+ * Shared data object behavior for every simulated entity. Writes go to the store so that other
+ * instances of the same entity see them on their next fetch, just like the real API.
+ */
+abstract class SimulatedDataObjectEntity {
+  dataObject?: Record<string, any>;
+
+  protected abstract getStoredEntity(): { dataObject: Record<string, any> };
+
+  async fetchDataObject() {
+    const latency = topiaSimulator.read();
+    if (latency) await latency;
+    this.dataObject = clone(this.getStoredEntity().dataObject);
+  }
+
+  async setDataObject(dataObject: object | null | undefined, options: DataObjectOptions = {}) {
+    const stored = this.getStoredEntity();
+    await topiaSimulator.writeDataObject(options, () => {
+      stored.dataObject = clone({ ...dataObject });
+    });
+    this.dataObject = clone(stored.dataObject);
+  }
+
+  /** Supports dot-notation paths, e.g. `{ "profiles.abc.highScore": 100 }` */
+  async updateDataObject(dataObject: object, options: DataObjectOptions = {}) {
+    const stored = this.getStoredEntity();
+    await topiaSimulator.writeDataObject(options, () => {
+      for (const [path, value] of Object.entries(dataObject)) setPath(stored.dataObject, path, clone(value));
+    });
+    this.dataObject = clone(stored.dataObject);
+  }
+
+  async incrementDataObjectValue(path: string, amount: number, options: DataObjectOptions = {}) {
+    const stored = this.getStoredEntity();
+    await topiaSimulator.writeDataObject(options, () => {
+      setPath(stored.dataObject, path, (Number(getPath(stored.dataObject, path)) || 0) + amount);
+    });
+    this.dataObject = clone(stored.dataObject);
+  }
+}
+
+export class SimulatedAsset {
+  id: string;
+
+  constructor(id: string) {
+    this.id = id;
+  }
+}
+
+export class SimulatedDroppedAsset extends SimulatedDataObjectEntity {
+  id: string;
+  urlSlug: string;
+  assetId?: string;
+  assetName?: string;
+  bottomLayerURL?: string;
+  clickableLink?: string;
+  clickType?: string;
+  interactivePublicKey?: string;
+  isInteractive?: boolean;
+  position?: Position;
+  sceneDropId?: string;
+  topLayerURL?: string;
+  uniqueName?: string;
+
+  constructor(id: string, urlSlug: string) {
+    super();
+    this.id = id;
+    this.urlSlug = urlSlug;
+  }
+
+  protected getStoredEntity() {
+    return topiaSimulator.getDroppedAsset(this.urlSlug, this.id);
+  }
+
+  /** Copies the stored details onto this instance, the same way the SDK populates fetched assets */
+  hydrate(state: SimulatedDroppedAssetState = this.getStoredEntity()) {
+    Object.assign(this, clone(state));
+    return this;
+  }
+
+  async fetchDroppedAssetById() {
+    const latency = topiaSimulator.read();
+    if (latency) await latency;
+    this.hydrate();
+  }
+
+  async deleteDroppedAsset() {
+    this.getStoredEntity();
+    topiaSimulator.getWorld(this.urlSlug).droppedAssets.delete(this.id);
+  }
+
+  async updatePosition(x: number, y: number) {
+    this.getStoredEntity().position = { x, y };
+    this.position = { x, y };
+  }
+
+  async updateWebImageLayers(bottomLayerURL: string, topLayerURL: string) {
+    Object.assign(this.getStoredEntity(), { bottomLayerURL, topLayerURL });
+    Object.assign(this, { bottomLayerURL, topLayerURL });
+  }
+}
+
+export class SimulatedVisitor extends SimulatedDataObjectEntity {
+  id: number;
+  urlSlug: string;
+  displayName?: string;
+  inventoryItems?: SimulatedUserInventoryItem[];
+  isAdmin?: boolean;
+  moveTo?: Position;
+  profileId?: string;
+  username?: string;
+
+  constructor(id: number, urlSlug: string) {
+    super();
+    this.id = Number(id);
+    this.urlSlug = urlSlug;
+  }
+
+  protected getStoredEntity() {
+    return topiaSimulator.getVisitor(this.urlSlug, this.id);
+  }
+
+  async fetchVisitor() {
+    const latency = topiaSimulator.read();
+    if (latency) await latency;
+    const { dataObject, ...details } = this.getStoredEntity();
+    Object.assign(this, clone(details));
+  }
+
+  async updatePublicKeyAnalytics(analytics: SimulatedAnalytic[]) {
+    this.getStoredEntity();
+    topiaSimulator.analytics.push(...analytics);
+  }
+
+  async fireToast({ groupId, title, text }: Omit<SimulatedToast, "urlSlug" | "visitorId">) {
+    this.getStoredEntity();
+    topiaSimulator.toasts.push({ urlSlug: this.urlSlug, visitorId: this.id, groupId, title, text });
+  }
+
+  async triggerParticle({ name, duration }: Omit<SimulatedParticle, "urlSlug" | "visitorId" | "position">) {
+    this.getStoredEntity();
+    topiaSimulator.particles.push({ urlSlug: this.urlSlug, visitorId: this.id, name, duration });
+  }
+
+  /** Inventory belongs to the visitor's profile, so it is shared across worlds */
+  async fetchInventoryItems() {
+    const { profileId } = this.getStoredEntity();
+    this.inventoryItems = clone(topiaSimulator.getUser(profileId).inventoryItems);
+    return this.inventoryItems;
+  }
+
+  async grantInventoryItem(item: { id: string }, quantity = 1) {
+    const ecosystemItem = topiaSimulator.inventoryItems.find(({ id }) => id === item.id);
+    if (!ecosystemItem) throw new SimulatorError(`Inventory item ${item.id} not found in ecosystem`, 404);
+
+    const { inventoryItems } = topiaSimulator.getUser(this.getStoredEntity().profileId);
+    const owned = inventoryItems.find(({ item_id }) => item_id === item.id);
+    if (owned) {
+      owned.quantity += quantity;
+      return clone(owned);
+    }
+
+    const { id, name, type, image_path } = ecosystemItem;
+    const granted: SimulatedUserInventoryItem = {
+      id: topiaSimulator.generateId("user-inventory-item"),
+      item_id: id,
+      quantity,
+      status: "ACTIVE",
+      item: { id, name, type, image_url: image_path },
+    };
+    inventoryItems.push(granted);
+    return clone(granted);
+  }
+
+  async moveVisitor({ x, y }: { shouldTeleportVisitor?: boolean; x: number; y: number }) {
+    this.getStoredEntity().moveTo = { x, y };
+    this.moveTo = { x, y };
+  }
+}
+
+export class SimulatedWorld extends SimulatedDataObjectEntity {
+  urlSlug: string;
+  description?: string;
+  droppedAssets?: Record<string, SimulatedDroppedAsset>;
+  name?: string;
+
+  constructor(urlSlug: string) {
+    super();
+    this.urlSlug = urlSlug;
+  }
+
+  protected getStoredEntity() {
+    return topiaSimulator.getWorld(this.urlSlug);
+  }
+
+  async fetchDetails() {
+    const latency = topiaSimulator.read();
+    if (latency) await latency;
+    const { name, description } = this.getStoredEntity();
+    Object.assign(this, { name, description });
+  }
+
+  async fetchDroppedAssets() {
+    const droppedAssets = [...this.getStoredEntity().droppedAssets.values()];
+    this.droppedAssets = Object.fromEntries(
+      droppedAssets.map((state) => [state.id, new SimulatedDroppedAsset(state.id, this.urlSlug).hydrate(state)]),
+    );
+    return this.droppedAssets;
+  }
+
+  async fetchDroppedAssetsWithUniqueName({
+    uniqueName,
+    isPartial = false,
+  }: {
+    uniqueName: string;
+    isPartial?: boolean;
+  }) {
+    return [...this.getStoredEntity().droppedAssets.values()]
+      .filter((state) => (isPartial ? state.uniqueName?.includes(uniqueName) : state.uniqueName === uniqueName))
+      .map((state) => new SimulatedDroppedAsset(state.id, this.urlSlug).hydrate(state));
+  }
+
+  async fetchDroppedAssetsBySceneDropId({ sceneDropId, uniqueName }: { sceneDropId: string; uniqueName?: string }) {
+    return [...this.getStoredEntity().droppedAssets.values()]
+      .filter((state) => state.sceneDropId === sceneDropId && (!uniqueName || state.uniqueName === uniqueName))
+      .map((state) => new SimulatedDroppedAsset(state.id, this.urlSlug).hydrate(state));
+  }
+
+  async fireToast({ groupId, title, text }: Omit<SimulatedToast, "urlSlug" | "visitorId">) {
+    topiaSimulator.toasts.push({ urlSlug: this.urlSlug, groupId, title, text });
+  }
+
+  async triggerParticle({ name, duration, position }: Omit<SimulatedParticle, "urlSlug" | "visitorId">) {
+    topiaSimulator.particles.push({ urlSlug: this.urlSlug, name, duration, position });
+  }
+}
+
+export class SimulatedWorldActivity {
+  urlSlug: string;
+
+  constructor(urlSlug: string) {
+    this.urlSlug = urlSlug;
+  }
+
+  async currentVisitors(_shouldIncludeAdminPermissions?: boolean) {
+    const visitors = [...topiaSimulator.getWorld(this.urlSlug).visitors.values()];
+    return Object.fromEntries(
+      visitors.map(({ dataObject, ...details }) => [
+        details.id,
+        Object.assign(new SimulatedVisitor(details.id, this.urlSlug), clone(details)),
+      ]),
+    );
+  }
+}
+
+export class SimulatedEcosystem {
+  inventoryItems: SimulatedInventoryItem[] = [];
+
+  async fetchInventoryItems() {
+    this.inventoryItems = clone(topiaSimulator.inventoryItems);
+    return this.inventoryItems;
+  }
+}
+
+export class SimulatedUser extends SimulatedDataObjectEntity {
+  profileId: string;
+
+  constructor(profileId: string) {
+    super();
+    this.profileId = profileId;
+  }
+
+  protected getStoredEntity() {
+    return topiaSimulator.getUser(this.profileId);
+  }
+}
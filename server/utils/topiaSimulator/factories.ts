@@ -0,0 +1,141 @@
+import { Credentials } from "../../types/index.js";
+import {
+  SimulatedAsset,
+  SimulatedDroppedAsset,
+  SimulatedEcosystem,
+  SimulatedUser,
+  SimulatedVisitor,
+  SimulatedWorld,
+  SimulatedWorldActivity,
+} from "./entities.js";
+import { Position, SimulatorError, topiaSimulator } from "./SimulatorStore.js";
+
+type FactoryOptions = { credentials?: Partial<Credentials>; [key: string]: unknown };
+
+type DropOptions = {
+  clickableLink?: string;
+  clickType?: string;
+  interactivePublicKey?: string;
+  isInteractive?: boolean;
+  layer0?: string;
+  layer1?: string;
+  position: Position;
+  sceneDropId?: string;
+  uniqueName?: string;
+  urlSlug: string;
+  [key: string]: unknown;
+};
+
+/** Stand-ins for the @rtsdk/topia classes the app uses, backed by `topiaSimulator` instead of the Topia API */
+export class Topia {
+  config: object;
+
+  constructor(config: object) {
+    this.config = config;
+  }
+}
+
+export class AssetFactory {
+  constructor(_topia: Topia) {}
+
+  create(id: string, _options?: FactoryOptions) {
+    return new SimulatedAsset(id);
+  }
+}
+
+export class DroppedAssetFactory {
+  constructor(_topia: Topia) {}
+
+  create(id: string, urlSlug: string, _options?: FactoryOptions) {
+    return new SimulatedDroppedAsset(id, urlSlug);
+  }
+
+  async get(id: string, urlSlug: string, _options?: FactoryOptions) {
+    const droppedAsset = new SimulatedDroppedAsset(id, urlSlug);
+    await droppedAsset.fetchDroppedAssetById();
+    return droppedAsset;
+  }
+
+  async getWithUniqueName(uniqueName: string, urlSlug: string, _interactiveSecret?: string, _credentials?: object) {
+    const state = [...topiaSimulator.getWorld(urlSlug).droppedAssets.values()].find(
+      (droppedAsset) => droppedAsset.uniqueName === uniqueName,
+    );
+    if (!state) throw new SimulatorError(`Dropped asset with uniqueName ${uniqueName} not found in ${urlSlug}`, 404);
+    return new SimulatedDroppedAsset(state.id, urlSlug).hydrate(state);
+  }
+
+  async drop(asset: { id: string }, { layer0, layer1, position, urlSlug, ...options }: DropOptions) {
+    const state = topiaSimulator.addDroppedAsset(urlSlug, {
+      assetId: asset.id,
+      bottomLayerURL: layer0,
+      clickableLink: options.clickableLink,
+      clickType: options.clickType,
+      interactivePublicKey: options.interactivePublicKey,
+      isInteractive: options.isInteractive,
+      position,
+      sceneDropId: options.sceneDropId,
+      topLayerURL: layer1,
+      uniqueName: options.uniqueName,
+    });
+    return new SimulatedDroppedAsset(state.id, urlSlug).hydrate(state);
+  }
+}
+
+export class EcosystemFactory {
+  constructor(_topia: Topia) {}
+
+  create(_options?: FactoryOptions) {
+    return new SimulatedEcosystem();
+  }
+}
+
+export class UserFactory {
+  constructor(_topia: Topia) {}
+
+  create({ credentials, profileId }: { credentials?: Partial<Credentials>; profileId?: string } = {}) {
+    const id = profileId || credentials?.profileId;
+    if (!id) throw new SimulatorError("profileId is required", 400);
+    return new SimulatedUser(id);
+  }
+}
+
+export class VisitorFactory {
+  constructor(_topia: Topia) {}
+
+  create(id: number, urlSlug: string, _options?: FactoryOptions) {
+    return new SimulatedVisitor(id, urlSlug);
+  }
+
+  async get(id: number, urlSlug: string, _options?: FactoryOptions) {
+    const visitor = new SimulatedVisitor(id, urlSlug);
+    await visitor.fetchVisitor();
+    return visitor;
+  }
+}
+
+export class WorldActivityFactory {
+  constructor(_topia: Topia) {}
+
+  create(urlSlug: string, _options?: FactoryOptions) {
+    return new SimulatedWorldActivity(urlSlug);
+  }
+}
+
+export class WorldFactory {
+  constructor(_topia: Topia) {}
+
+  create(urlSlug: string, _options?: FactoryOptions) {
+    return new SimulatedWorld(urlSlug);
+  }
+
+  async deleteDroppedAssets(
+    urlSlug: string,
+    droppedAssetIds: string[],
+    _interactiveSecret?: string,
+    _credentials?: object,
+  ) {
+    const { droppedAssets } = topiaSimulator.getWorld(urlSlug);
+    for (const id of droppedAssetIds) droppedAssets.delete(id);
+    return { success: true };
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  AssetFactory,
+  DroppedAssetFactory,
+  EcosystemFactory,
+  Topia,
+  UserFactory,
+  VisitorFactory,
+  WorldActivityFactory,
+  WorldFactory,
+} from "./factories.js";
+import { topiaSimulator } from "./SimulatorStore.js";
+
+export * from "./SimulatorStore.js";
+
+/**
+ * Set TOPIA_SIMULATOR=true to run the server against the in-memory simulator instead of the Topia API.
+ * Ignored with NODE_ENV=production, where the server refuses to start with it set instead.
+ */
+export const isTopiaSimulatorEnabled = () =>
+  process.env.TOPIA_SIMULATOR === "true" && process.env.NODE_ENV !== "production";
+
+export const simulatorSdk = {
+  AssetFactory,
+  DroppedAssetFactory,
+  EcosystemFactory,
+  Topia,
+  UserFactory,
+  VisitorFactory,
+  WorldActivityFactory,
+  WorldFactory,
+};
+
+export const SIMULATOR_WORLD_SLUG = "simulator-world";
+export const SIMULATOR_KEY_ASSET_ID = "simulator-key-asset";
+export const SIMULATOR_VISITOR_ID = 1;
+
+/**
+ * Seeds a world with a key asset and an admin visitor so `npm run dev` works without an API key.
+ * Open the client with `?assetId=simulator-key-asset&visitorId=1&urlSlug=<urlSlug>&interactivePublicKey=<INTERACTIVE_KEY>&interactiveNonce=dev`.
+ */
+export const seedTopiaSimulator = (urlSlug = process.env.DEVELOPMENT_WORLD_SLUG || SIMULATOR_WORLD_SLUG) => {
+  topiaSimulator.getWorld(urlSlug).name = "Simulator World";
+
+  const keyAsset = topiaSimulator.addDroppedAsset(urlSlug, {
+    id: SIMULATOR_KEY_ASSET_ID,
+    assetName: "Key Asset",
+    interactivePublicKey: process.env.INTERACTIVE_KEY,
+    isInteractive: true,
+    position: { x: 0, y: 0 },
+    uniqueName: "simulator-key-asset",
+  });
+
+  const visitor = topiaSimulator.addVisitor(urlSlug, {
+    id: SIMULATOR_VISITOR_ID,
+    displayName: "Simulator Admin",
+    isAdmin: true,
+    profileId: "simulator-profile",
+    username: "simulator-admin",
+  });
+
+  return { keyAsset, urlSlug, visitor };
+};
@@ -0,0 +1,20 @@
+import { Credentials, IVisitor } from "../../types/index.js";
+import { initializeVisitorDataObject, standardizeError, Visitor } from "../index.js";
+import { NotFoundError } from "../errors.js";
+
+export const getVisitor = async (credentials: Credentials): Promise<IVisitor> => {
+  try {
+    const { urlSlug, visitorId } = credentials;
+
+    const visitor = (await Visitor.get(visitorId, urlSlug, { credentials })) as IVisitor;
+
+    if (!visitor) throw new NotFoundError("Visitor not found");
+
+    // visitor data is per visitor per world, so it must be initialized before the first read or update
+    await initializeVisitorDataObject(visitor, urlSlug);
+
+    return visitor;
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
@@ -0,0 +1,2 @@
+export * from "./getVisitor.js";
+export * from "./initializeVisitorDataObject.js";
@@ -0,0 +1,6 @@
+import { IVisitor } from "../../types/VisitorTypes.js";
+import { initializeDataObject } from "../dataObjects/index.js";
+
+export const initializeVisitorDataObject = async (visitor: IVisitor, urlSlug: string) => {
+  return initializeDataObject(visitor, "visitor", `${urlSlug}-${visitor.id}`);
+};
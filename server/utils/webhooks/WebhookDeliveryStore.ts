@@ -0,0 +1,46 @@
+/**
+ * Remembers which webhook deliveries have been handled. The in-memory store only works for a single
+ * server process; implement this interface over Redis or another shared store when running more than one.
+ */
+export interface WebhookDeliveryStore {
+  /** Resolves false when `deliveryId` was already claimed and its claim has not expired */
+  claim(deliveryId: string, ttlMs: number): Promise<boolean>;
+  /** Frees a claim so a redelivery runs the handlers again, e.g. after they failed */
+  release(deliveryId: string): Promise<void>;
+}
+
+export class MemoryWebhookDeliveryStore implements WebhookDeliveryStore {
+  private readonly claims = new Map<string, number>();
+  private readonly now: () => number;
+  private readonly maxKeys: number;
+
+  constructor({ now = Date.now, maxKeys = 10_000 }: { now?: () => number; maxKeys?: number } = {}) {
+    this.now = now;
+    this.maxKeys = maxKeys;
+  }
+
+  async claim(deliveryId: string, ttlMs: number) {
+    const now = this.now();
+    const expiresAt = this.claims.get(deliveryId);
+    if (expiresAt && expiresAt > now) return false;
+
+    if (this.claims.size >= this.maxKeys) this.prune(now);
+
+    this.claims.set(deliveryId, now + ttlMs);
+    return true;
+  }
+
+  async release(deliveryId: string) {
+    this.claims.delete(deliveryId);
+  }
+
+  clear() {
+    this.claims.clear();
+  }
+
+  private prune(now: number) {
+    for (const [deliveryId, expiresAt] of this.claims) {
+      if (expiresAt <= now) this.claims.delete(deliveryId);
+    }
+  }
+}
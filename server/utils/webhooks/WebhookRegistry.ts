@@ -0,0 +1,25 @@
+import { WebhookEventType, WebhookHandler } from "../../types/index.js";
+
+/** Handlers per webhook event type, run in the order they were registered */
+export class WebhookRegistry {
+  private readonly handlers = new Map<WebhookEventType, WebhookHandler<any>[]>();
+
+  /** Returns a function that removes the handler again */
+  on<T extends WebhookEventType>(type: T, handler: WebhookHandler<T>) {
+    this.handlers.set(type, [...this.getHandlers(type), handler]);
+    return () => {
+      this.handlers.set(
+        type,
+        this.getHandlers(type).filter((registered) => registered !== handler),
+      );
+    };
+  }
+
+  getHandlers<T extends WebhookEventType>(type: T): WebhookHandler<T>[] {
+    return this.handlers.get(type) || [];
+  }
+
+  clear() {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { Credentials, WebhookEvent, WebhookEventType, WebhookHandler } from "../../types/index.js";
+import { AuthError, UpstreamError } from "../errors.js";
+import { getCredentials } from "../getCredentials.js";
+import { stableStringify } from "../stableStringify.js";
+import { Visitor } from "../topiaInit.js";
+import { MemoryWebhookDeliveryStore, WebhookDeliveryStore } from "./WebhookDeliveryStore.js";
+import { WebhookRegistry } from "./WebhookRegistry.js";
+
+export * from "./WebhookDeliveryStore.js";
+export * from "./WebhookRegistry.js";
+export * from "./webhookSignature.js";
+
+/** Topia retries failed deliveries for a while; a redelivery after this long runs the handlers again */
+const DELIVERY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const webhookRegistry = new WebhookRegistry();
+
+/**
+ * registerWebhookHandler("zone-enter", async ({ credentials }) => {
+ *   const visitor = await Visitor.create(credentials.visitorId, credentials.urlSlug, { credentials });
+ *   ...
+ * });
+ */
+export const registerWebhookHandler = <T extends WebhookEventType>(type: T, handler: WebhookHandler<T>) =>
+  webhookRegistry.on(type, handler);
+
+let deliveryStore: WebhookDeliveryStore = new MemoryWebhookDeliveryStore();
+
+export const getWebhookDeliveryStore = () => deliveryStore;
+
+export const setWebhookDeliveryStore = (store: WebhookDeliveryStore) => {
+  deliveryStore = store;
+};
+
+/**
+ * Builds a typed event from a payload validated against the contract. The credentials go through
+ * getCredentials, so a payload for another app's public key is rejected just like an iframe request
+ * would be; verifyWebhookCredentials then confirms them with Topia.
+ */
+export const parseWebhookEvent = (type: WebhookEventType, body: any): WebhookEvent => {
+  const credentials = getCredentials(body);
+  // the nonce makes every payload unique, so the same fields mean Topia redelivered the same event. Only
+  // declared fields are left in the body and keys are sorted, so whitespace or extra fields don't change it
+  const deliveryId = `${type}:${createHash("sha256").update(stableStringify(body)).digest("hex")}`;
+  const base = { credentials, deliveryId, receivedAt: Date.now() };
+
+  if (type === "world-trigger") return { ...base, type, dataObject: body.dataObject || {} };
+  return { ...base, type, zone: { droppedAssetId: credentials.assetId, uniqueName: credentials.uniqueName } };
+};
+
+/**
+ * Confirms the payload's visitor and nonce with Topia, through the SDK and so the app's interactive
+ * secret. The public key alone proves nothing, since anyone can read it from an iframe URL. Fails closed:
+ * credentials Topia rejects are a 401, and when Topia can't be reached the delivery fails so it's retried.
+ */
+export const verifyWebhookCredentials = async (credentials: Credentials) => {
+  try {
+    await Visitor.get(credentials.visitorId, credentials.urlSlug, { credentials });
+  } catch (error) {
+    if (error instanceof UpstreamError && [401, 403, 404].includes(error.upstreamStatus!)) {
+      throw new AuthError("Topia did not accept the webhook's credentials", { cause: error });
+    }
+    throw error;
+  }
+};
+
+// deliveries this process is running handlers for, so a concurrent redelivery can wait for the outcome
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Runs every handler registered for the event, once per delivery. When a handler throws the delivery is
+ * released before rethrowing, so Topia's retry runs the handlers again. A redelivery that arrives while
+ * the first is still running waits for it, and runs the handlers itself if the first one failed.
+ */
+export const dispatchWebhookEvent = async (
+  event: WebhookEvent,
+): Promise<{ duplicate: boolean; handlerCount: number }> => {
+  const handlers = webhookRegistry.getHandlers(event.type) as WebhookHandler[];
+
+  if (!(await deliveryStore.claim(event.deliveryId, DELIVERY_TTL_MS))) {
+    const running = inFlight.get(event.deliveryId);
+    if (running && !(await running.then(() => true).catch(() => false))) return dispatchWebhookEvent(event);
+    return { duplicate: true, handlerCount: 0 };
+  }
+
+  // settles only after a failed delivery is released, so a waiting redelivery can claim it again
+  const run = (async () => {
+    try {
+      for (const handler of handlers) await handler(event);
+    } catch (error) {
+      await deliveryStore.release(event.deliveryId);
+      throw error;
+    }
+  })();
+  inFlight.set(event.deliveryId, run);
+
+  try {
+    await run;
+  } finally {
+    inFlight.delete(event.deliveryId);
+  }
+
+  return { duplicate: false, handlerCount: handlers.length };
+};
@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { IncomingMessage } from "http";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+
+/** `sha256=<hex HMAC of the raw body>`, the format expected in the X-Webhook-Signature header */
+export const signWebhookPayload = (rawBody: Buffer | string, secret: string) =>
+  `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+
+export const isValidWebhookSignature = (rawBody: Buffer, signature: string | undefined, secret: string) => {
+  if (!signature) return false;
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/**
+ * `verify` option for express.json. Signatures are computed over the exact bytes Topia sent, which
+ * re-serializing the parsed body would not reproduce.
+ *
+ * app.use(express.json({ verify: captureRawBody }));
+ */
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buffer: Buffer) => {
+  (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buffer;
+};
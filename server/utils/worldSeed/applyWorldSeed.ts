@@ -0,0 +1,104 @@
+import { Credentials, IDroppedAsset } from "../../types/index.js";
+import { Asset, DroppedAsset, World } from "../topiaInit.js";
+import { standardizeError } from "../standardizeError.js";
+import { invalidateDroppedAsset } from "../topiaCache/index.js";
+import { SeededAsset, WorldSeedManifest } from "./manifest.js";
+import { ExistingSeededAsset, WORLD_SEED_MARKER, WorldSeedChange } from "./planWorldSeed.js";
+
+/** Fetches the dropped assets whose uniqueName is in the manifest, with the data objects that say which were seeded */
+export const fetchExistingSeededAssets = async (
+  manifest: WorldSeedManifest,
+  credentials: Credentials,
+): Promise<ExistingSeededAsset[]> => {
+  try {
+    const world = World.create(credentials.urlSlug, { credentials });
+    await world.fetchDroppedAssets();
+
+    const seeded = new Map(manifest.assets.map((asset) => [asset.uniqueName, asset]));
+    const droppedAssets = (Object.values(world.droppedAssets || {}) as IDroppedAsset[]).filter(
+      ({ uniqueName }) => uniqueName && seeded.has(uniqueName),
+    );
+
+    return Promise.all(
+      droppedAssets.map(async (droppedAsset) => {
+        await droppedAsset.fetchDataObject();
+        const storedDataObject = (droppedAsset.dataObject || {}) as unknown as Record<string, unknown>;
+        const { [WORLD_SEED_MARKER]: isSeeded, ...dataObject } = storedDataObject;
+        return {
+          id: droppedAsset.id!,
+          uniqueName: droppedAsset.uniqueName!,
+          isSeeded: isSeeded === true,
+          position: droppedAsset.position && { x: droppedAsset.position.x!, y: droppedAsset.position.y! },
+          layer0: droppedAsset.bottomLayerURL,
+          layer1: droppedAsset.topLayerURL,
+          clickableLink: droppedAsset.clickableLink,
+          sceneDropId: droppedAsset.sceneDropId,
+          dataObject,
+        };
+      }),
+    );
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
+
+const withSeedMarker = (dataObject: unknown) => ({
+  ...(dataObject as Record<string, unknown> | undefined),
+  [WORLD_SEED_MARKER]: true,
+});
+
+const dropSeededAsset = async (asset: SeededAsset, credentials: Credentials) => {
+  const { clickableLink, dataObject, layer0, layer1, position, sceneDropId, uniqueName } = asset;
+
+  const webImageAsset = await Asset.create("webImageAsset", { credentials });
+  const droppedAsset = await DroppedAsset.drop(webImageAsset, {
+    position,
+    urlSlug: credentials.urlSlug,
+    isInteractive: true,
+    interactivePublicKey: process.env.INTERACTIVE_KEY,
+    uniqueName,
+    ...(layer0 && { layer0 }),
+    ...(layer1 && { layer1 }),
+    ...(sceneDropId && { sceneDropId }),
+    ...(clickableLink && { clickableLink, clickType: "link" }),
+  });
+
+  await droppedAsset.setDataObject(withSeedMarker(dataObject));
+};
+
+const deleteSeededAsset = async ({ id }: ExistingSeededAsset, credentials: Credentials) => {
+  await DroppedAsset.create(id, credentials.urlSlug, { credentials }).deleteDroppedAsset();
+  invalidateDroppedAsset(credentials.urlSlug, id);
+};
+
+/** Applies a plan from planWorldSeed or planWorldTeardown, one change at a time */
+export const applyWorldSeedChanges = async (changes: WorldSeedChange[], credentials: Credentials) => {
+  try {
+    for (const change of changes) {
+      switch (change.action) {
+        case "create":
+          await dropSeededAsset(change.asset, credentials);
+          break;
+        case "update": {
+          const { asset, existing, fields } = change;
+          const droppedAsset = DroppedAsset.create(existing.id, credentials.urlSlug, { credentials });
+          if (fields.includes("position")) await droppedAsset.updatePosition(asset.position.x, asset.position.y);
+          if (fields.includes("layers"))
+            await droppedAsset.updateWebImageLayers(asset.layer0 || "", asset.layer1 || "");
+          if (fields.includes("dataObject")) await droppedAsset.setDataObject(withSeedMarker(asset.dataObject));
+          invalidateDroppedAsset(credentials.urlSlug, existing.id);
+          break;
+        }
+        case "replace":
+          for (const existing of change.existing) await deleteSeededAsset(existing, credentials);
+          await dropSeededAsset(change.asset, credentials);
+          break;
+        case "delete":
+          await deleteSeededAsset(change.existing, credentials);
+          break;
+      }
+    }
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
@@ -0,0 +1,3 @@
+export * from "./applyWorldSeed.js";
+export * from "./manifest.js";
+export * from "./planWorldSeed.js";
@@ -0,0 +1,47 @@
+import { parse as parseYaml } from "yaml";
+import { Infer, s } from "../../../shared/contract/index.js";
+import { ValidationError } from "../errors.js";
+
+const seededAssetSchema = s.object({
+  /** Identifies the asset across runs, so it must be unique within the manifest */
+  uniqueName: s.string(),
+  position: s.object({ x: s.number(), y: s.number() }),
+  layer0: s.string().optional(),
+  layer1: s.string().optional(),
+  clickableLink: s.string().optional(),
+  sceneDropId: s.string().optional(),
+  /** Written with setDataObject along with the seed marker, replacing whatever the asset had */
+  dataObject: s.opaque().optional(),
+});
+
+export const worldSeedManifestSchema = s.object({ assets: s.array(seededAssetSchema) });
+
+export type SeededAsset = Infer<typeof seededAssetSchema>;
+export type WorldSeedManifest = Infer<typeof worldSeedManifestSchema>;
+
+/** Parses a JSON or YAML manifest (chosen by file extension) and validates it */
+export const parseWorldSeedManifest = (text: string, fileName: string): WorldSeedManifest => {
+  let input: unknown;
+  try {
+    input = fileName.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ValidationError(`${fileName} is not valid ${fileName.endsWith(".json") ? "JSON" : "YAML"}`, {
+      cause: error,
+    });
+  }
+
+  const result = worldSeedManifestSchema.parse(input);
+  if (!result.success) {
+    throw new ValidationError(`${fileName}: ${result.issues.map(({ message }) => message).join(", ")}`, {
+      details: { issues: result.issues },
+    });
+  }
+
+  const uniqueNames = result.data.assets.map(({ uniqueName }) => uniqueName);
+  const duplicates = uniqueNames.filter((uniqueName, index) => uniqueNames.indexOf(uniqueName) !== index);
+  if (duplicates.length > 0) {
+    throw new ValidationError(`${fileName}: uniqueNames must be unique, found ${[...new Set(duplicates)].join(", ")}`);
+  }
+
+  return result.data;
+};
@@ -0,0 +1,104 @@
+import { SeededAsset, WorldSeedManifest } from "./manifest.js";
+import { stableStringify } from "../stableStringify.js";
+
+/**
+ * Data object key set on every asset the seeder drops. Only assets that have it are updated, replaced or torn
+ * down, so ones placed by hand or by the app are left alone even when they share a manifest uniqueName.
+ */
+export const WORLD_SEED_MARKER = "worldSeed";
+
+/** What the world currently has for a manifest uniqueName */
+export interface ExistingSeededAsset {
+  id: string;
+  uniqueName: string;
+  /** Whether the seeder dropped it, see WORLD_SEED_MARKER */
+  isSeeded: boolean;
+  position?: { x: number; y: number };
+  layer0?: string;
+  layer1?: string;
+  clickableLink?: string;
+  sceneDropId?: string;
+  /** Without the seed marker */
+  dataObject?: Record<string, unknown>;
+}
+
+export type WorldSeedChange =
+  | { action: "create"; asset: SeededAsset }
+  | {
+      action: "update";
+      asset: SeededAsset;
+      existing: ExistingSeededAsset;
+      fields: ("position" | "layers" | "dataObject")[];
+    }
+  | { action: "replace"; asset: SeededAsset; existing: ExistingSeededAsset[]; reason: string }
+  | { action: "unchanged"; asset: SeededAsset; existing: ExistingSeededAsset }
+  | { action: "delete"; existing: ExistingSeededAsset };
+
+const planAsset = (asset: SeededAsset, matches: ExistingSeededAsset[]): WorldSeedChange => {
+  if (matches.length === 0) return { action: "create", asset };
+  if (matches.length > 1) {
+    return { action: "replace", asset, existing: matches, reason: `${matches.length} assets share this uniqueName` };
+  }
+
+  const [existing] = matches;
+
+  // the SDK can't change these in place, so the asset is dropped again
+  const differs = (key: "clickableLink" | "sceneDropId") => (asset[key] || "") !== (existing[key] || "");
+  if (differs("clickableLink")) return { action: "replace", asset, existing: matches, reason: "clickableLink changed" };
+  if (differs("sceneDropId")) return { action: "replace", asset, existing: matches, reason: "sceneDropId changed" };
+
+  const fields: ("position" | "layers" | "dataObject")[] = [];
+  if (existing.position?.x !== asset.position.x || existing.position?.y !== asset.position.y) fields.push("position");
+  if ((asset.layer0 || "") !== (existing.layer0 || "") || (asset.layer1 || "") !== (existing.layer1 || "")) {
+    fields.push("layers");
+  }
+  if (asset.dataObject && stableStringify(asset.dataObject) !== stableStringify(existing.dataObject || {})) {
+    fields.push("dataObject");
+  }
+
+  return fields.length > 0 ? { action: "update", asset, existing, fields } : { action: "unchanged", asset, existing };
+};
+
+/** Compares the manifest with the seeded assets already in the world. Nothing is written */
+export const planWorldSeed = (manifest: WorldSeedManifest, existing: ExistingSeededAsset[]): WorldSeedChange[] =>
+  manifest.assets.map((asset) =>
+    planAsset(
+      asset,
+      existing.filter(({ isSeeded, uniqueName }) => isSeeded && uniqueName === asset.uniqueName),
+    ),
+  );
+
+/** Every asset the seeder dropped whose uniqueName is in the manifest */
+export const planWorldTeardown = (manifest: WorldSeedManifest, existing: ExistingSeededAsset[]): WorldSeedChange[] => {
+  const uniqueNames = new Set(manifest.assets.map(({ uniqueName }) => uniqueName));
+  return existing
+    .filter(({ isSeeded, uniqueName }) => isSeeded && uniqueNames.has(uniqueName))
+    .map((asset) => ({ action: "delete", existing: asset }));
+};
+
+const formatPosition = (position?: { x: number; y: number }) => (position ? `(${position.x}, ${position.y})` : "(?)");
+
+/** One line per change, prefixed like a diff: + create, ~ update, ! replace, = unchanged, - delete */
+export const formatWorldSeedPlan = (changes: WorldSeedChange[]) =>
+  changes
+    .map((change) => {
+      switch (change.action) {
+        case "create":
+          return `+ create  ${change.asset.uniqueName} at ${formatPosition(change.asset.position)}`;
+        case "update": {
+          const details = change.fields.map((field) =>
+            field === "position"
+              ? `position ${formatPosition(change.existing.position)} -> ${formatPosition(change.asset.position)}`
+              : field,
+          );
+          return `~ update  ${change.asset.uniqueName}: ${details.join(", ")}`;
+        }
+        case "replace":
+          return `! replace ${change.asset.uniqueName}: ${change.reason}`;
+        case "unchanged":
+          return `= unchanged ${change.asset.uniqueName}`;
+        case "delete":
+          return `- delete  ${change.existing.uniqueName} (${change.existing.id})`;
+      }
+    })
+    .join("\n");
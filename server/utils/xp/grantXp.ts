@@ -0,0 +1,72 @@
+import { Credentials, IVisitor, XpGrant } from "../../types/index.js";
+import { errorHandler, leaderboardClient, standardizeError, trackEvent, World } from "../index.js";
+import { ignoreLockConflict, withLock } from "../locks/index.js";
+import { getLevelForXp } from "./levelCurves.js";
+import { XpAction, xpActions, xpConfig } from "./xpConfig.js";
+
+const logSideEffectError = (message: string) => (error: unknown) =>
+  errorHandler({ error, functionName: "grantXp", message });
+
+/**
+ * Adds the XP for `action` to the visitor's data object and recalculates their level. The increment is
+ * atomic, so concurrent grants never lose XP. Reaching a new level takes a lock per visitor and level,
+ * so only one request celebrates it: particles at the visitor and a toast, both through World.
+ *
+ * Particles, toasts and the optional leaderboard push never fail the grant.
+ */
+export const grantXp = async ({
+  action,
+  credentials,
+  visitor,
+}: {
+  action: XpAction;
+  credentials: Credentials;
+  visitor: IVisitor;
+}): Promise<XpGrant> => {
+  try {
+    const { urlSlug, visitorId } = credentials;
+    const xpGranted = xpActions[action];
+    const previousLevel = visitor.dataObject.level || 1;
+
+    await visitor.incrementDataObjectValue("xp", xpGranted);
+    await visitor.fetchDataObject();
+
+    const xp = visitor.dataObject.xp || 0;
+    const level = getLevelForXp(xp, xpConfig.levelCurve);
+
+    let leveledUp = false;
+    if (level > (visitor.dataObject.level || 1)) {
+      // another request that reached this level at the same time may be celebrating it instead
+      leveledUp = await withLock(
+        visitor,
+        `level-up-${urlSlug}-${visitorId}-${level}`,
+        (options) => visitor.updateDataObject({ level }, options),
+        { window: "once" },
+      )
+        .then(() => true)
+        .catch(ignoreLockConflict);
+    }
+
+    if (leveledUp) {
+      await trackEvent("levelUps", { credentials });
+
+      const world = World.create(urlSlug, { credentials });
+      world
+        .triggerParticle({ name: xpConfig.levelUpParticle, duration: 3, position: visitor.moveTo })
+        .catch(logSideEffectError("Error triggering level up particles"));
+      await world
+        .fireToast({ title: "You've leveled up!", text: "Congratulations! You've reached a new level." })
+        .catch(logSideEffectError("Error firing level up toast"));
+    }
+
+    if (xpConfig.pushToLeaderboard && leaderboardClient.isConfigured) {
+      await leaderboardClient
+        .incrementPlayerStats({ credentials, incrementBy: xpGranted })
+        .catch(logSideEffectError("Error posting XP to Leaderboard"));
+    }
+
+    return { action, xpGranted, xp, level, previousLevel, leveledUp };
+  } catch (error) {
+    throw standardizeError(error);
+  }
+};
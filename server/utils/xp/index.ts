@@ -0,0 +1,3 @@
+export * from "./grantXp.js";
+export * from "./levelCurves.js";
+export * from "./xpConfig.js";
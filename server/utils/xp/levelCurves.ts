@@ -0,0 +1,40 @@
+import { LevelCurve } from "../../types/index.js";
+
+/** Each level needs `baseXp * (level - 1) ^ exponent` XP in total, e.g. 10, 28, 52, 80... for 10 and 1.5 */
+export const quadraticLevelCurve = ({
+  baseXp,
+  exponent,
+  maxLevel,
+}: {
+  baseXp: number;
+  exponent: number;
+  maxLevel: number;
+}): LevelCurve => ({
+  maxLevel,
+  xpForLevel: (level) => (level <= 1 ? 0 : Math.floor(baseXp * Math.pow(level - 1, exponent))),
+});
+
+/** Hand-tuned totals, where `thresholds[0]` is the XP needed for level 2 */
+export const thresholdLevelCurve = (thresholds: number[]): LevelCurve => ({
+  maxLevel: thresholds.length + 1,
+  xpForLevel: (level) => (level <= 1 ? 0 : thresholds[Math.min(level, thresholds.length + 1) - 2]),
+});
+
+export const getLevelForXp = (xp: number, curve: LevelCurve) => {
+  let level = 1;
+  while (level < curve.maxLevel && xp >= curve.xpForLevel(level + 1)) level++;
+  return level;
+};
+
+/** Where the visitor is within their current level, for progress bars */
+export const getLevelProgress = (xp: number, curve: LevelCurve) => {
+  const level = getLevelForXp(xp, curve);
+  const xpForCurrentLevel = curve.xpForLevel(level);
+  const xpForNextLevel = level < curve.maxLevel ? curve.xpForLevel(level + 1) : xpForCurrentLevel;
+  const progress =
+    xpForNextLevel > xpForCurrentLevel
+      ? Math.min((xp - xpForCurrentLevel) / (xpForNextLevel - xpForCurrentLevel), 1)
+      : 1;
+
+  return { level, xpForCurrentLevel, xpForNextLevel, progress };
+};
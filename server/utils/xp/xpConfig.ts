@@ -0,0 +1,19 @@
+import { quadraticLevelCurve } from "./levelCurves.js";
+
+/**
+ * XP awarded per named action. grantXp only accepts these names, so XP amounts are decided here
+ * and never by the client.
+ */
+export const xpActions = {
+  "task-completed": 10,
+};
+
+export type XpAction = keyof typeof xpActions;
+
+export const xpConfig = {
+  /** 10 XP for level 2, then 28, 52, 80... up to level 50 */
+  levelCurve: quadraticLevelCurve({ baseXp: 10, exponent: 1.5, maxLevel: 50 }),
+  /** Also add granted XP to the visitor's leaderboard score when LEADERBOARD_BASE_URL is set */
+  pushToLeaderboard: true,
+  levelUpParticle: "whiteStar_burst",
+};
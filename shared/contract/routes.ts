@@ -0,0 +1,393 @@
+/**
+ * Every API route's query, body and response, declared once for the server's validateRequest
+ * middleware, the OpenAPI document and the client's apiClient. Interactive credentials (assetId,
+ * visitorId, urlSlug, ...) are sent with every request by backendAPI and checked by getCredentials,
+ * so routes only declare them via `credentials` instead of repeating them in `query`.
+ */
+import { BadgeDTO } from "../types/Badge.js";
+import { DroppedAssetDTO } from "../types/DroppedAsset.js";
+import { DroppedAssetDataObject } from "../types/DroppedAssetData.js";
+import { GameEvent } from "../types/GameEvent.js";
+import { LeaderboardEntry } from "../types/Leaderboard.js";
+import { JobSchedule, ScheduledJobDTO } from "../types/ScheduledJob.js";
+import { VisitorDTO } from "../types/Visitor.js";
+import { VisitorDataObject } from "../types/VisitorData.js";
+import { WorldDTO } from "../types/World.js";
+import { ObjectSchema, s, Schema } from "./schema.js";
+
+export interface RouteDefinition {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  /** Relative to the router the route is mounted on, e.g. /api or /api/dev */
+  path: string;
+  /** Required for every `:param` in `path` */
+  params?: ObjectSchema<any>;
+  /** Shown in the OpenAPI document. Required in practice: tests/openapi.test.ts fails without it */
+  description?: string;
+  /**
+   * How the route authenticates. Defaults to "interactive", the query parameters every iframe request
+   * carries; "dev" routes use the API_KEY from .env, "webhook" routes send the same credentials in the
+   * body, which are confirmed with Topia (plus an X-Webhook-Signature when WEBHOOK_SIGNING_SECRET is set),
+   * and "none" routes are public.
+   */
+  credentials?: "interactive" | "dev" | "webhook" | "none";
+  query?: ObjectSchema<any>;
+  body?: ObjectSchema<any>;
+  /** For `stream` routes this describes a single Server-Sent Event rather than the response body */
+  response: Schema<any>;
+  stream?: boolean;
+}
+
+const defineRoutes = <T extends Record<string, RouteDefinition>>(routes: T) => routes;
+
+export const droppedAssetSchema: Schema<DroppedAssetDTO> = s.object({
+  id: s.string(),
+  assetId: s.string().optional(),
+  assetName: s.string().optional(),
+  bottomLayerURL: s.string().optional(),
+  clickableLink: s.string().optional(),
+  dataObject: s.opaque<DroppedAssetDataObject>().optional(),
+  isInteractive: s.boolean().optional(),
+  position: s.object({ x: s.number(), y: s.number() }).optional(),
+  sceneDropId: s.string().optional(),
+  topLayerURL: s.string().optional(),
+  uniqueName: s.string().optional(),
+});
+
+export const badgeSchema: Schema<BadgeDTO> = s.object({
+  name: s.string(),
+  description: s.string({ minLength: 0 }),
+  icon: s.string().optional(),
+  earned: s.boolean(),
+});
+
+export const leaderboardEntrySchema: Schema<LeaderboardEntry> = s.object({
+  rank: s.number(),
+  profileId: s.string(),
+  displayName: s.string(),
+  score: s.number(),
+});
+
+export const scheduledJobSchema: Schema<ScheduledJobDTO> = s.object({
+  id: s.string(),
+  name: s.string(),
+  urlSlug: s.string(),
+  schedule: s.opaque<JobSchedule>(),
+  status: s.enum(["scheduled", "completed", "failed", "cancelled"]),
+  payload: s.opaque<Record<string, unknown>>(),
+  createdAt: s.number(),
+  nextRunAt: s.number().optional(),
+  lastRunAt: s.number().optional(),
+  runCount: s.number(),
+  lastError: s.string().optional(),
+});
+
+export const visitorSchema: Schema<VisitorDTO> = s.object({
+  visitorId: s.number(),
+  displayName: s.string().optional(),
+  isAdmin: s.boolean(),
+  profileId: s.string().optional(),
+  username: s.string().optional(),
+});
+
+export const visitorDataSchema: Schema<VisitorDataObject> = s.object({
+  schemaVersion: s.number(),
+  exampleParam: s.string({ minLength: 0 }),
+  completedCount: s.number(),
+  xp: s.number(),
+  level: s.number(),
+  daily: s.opaque<VisitorDataObject["daily"]>(),
+  streak: s.object({ current: s.number(), longest: s.number(), lastActiveDay: s.string().optional() }),
+});
+
+export const worldSchema: Schema<WorldDTO> = s.object({
+  urlSlug: s.string(),
+  description: s.string().optional(),
+  name: s.string().optional(),
+});
+
+/** The query parameters Topia appends to the iframe URL, see getCredentials */
+export const interactiveCredentialsQuery = s.object({
+  assetId: s.string().optional(),
+  displayName: s.string().optional(),
+  identityId: s.string().optional(),
+  interactiveNonce: s.string(),
+  interactivePublicKey: s.string(),
+  profileId: s.string().optional(),
+  sceneDropId: s.string().optional(),
+  uniqueName: s.string().optional(),
+  urlSlug: s.string(),
+  username: s.string().optional(),
+  visitorId: s.number({ coerce: true, integer: true }),
+});
+
+export const apiRoutes = defineRoutes({
+  getRoot: {
+    method: "get",
+    path: "/",
+    description: "Confirms the API is reachable.",
+    credentials: "none",
+    response: s.object({ message: s.string() }),
+  },
+  getHealth: {
+    method: "get",
+    path: "/system/health",
+    description: "App version, start time, whether each environment value is set and Topia read cache counters.",
+    credentials: "none",
+    response: s.object({
+      appVersion: s.string(),
+      status: s.literal("OK"),
+      serverStartDate: s.string(),
+      envs: s.object({
+        NODE_ENV: s.boolean(),
+        INSTANCE_DOMAIN: s.boolean(),
+        INTERACTIVE_KEY: s.boolean(),
+        S3_BUCKET: s.boolean(),
+      }),
+      topiaCache: s.object({
+        requestHits: s.number(),
+        ttlHits: s.number(),
+        misses: s.number(),
+        invalidations: s.number(),
+        size: s.number(),
+      }),
+    }),
+  },
+  getLiveness: {
+    method: "get",
+    path: "/system/live",
+    description: "Liveness probe. Responds as long as the process can serve requests.",
+    credentials: "none",
+    response: s.object({ status: s.literal("OK"), uptimeSeconds: s.number() }),
+  },
+  getReadiness: {
+    method: "get",
+    path: "/system/ready",
+    description: "Readiness probe. Checks credentials, Topia and the leaderboard; responds 503 when any check fails.",
+    credentials: "none",
+    response: s.object({
+      status: s.enum(["ready", "not_ready"]),
+      version: s.object({
+        version: s.string(),
+        commit: s.string({ minLength: 0 }),
+        builtAt: s.string({ minLength: 0 }),
+      }),
+      checks: s.opaque(),
+    }),
+  },
+  getOpenApiDocument: {
+    method: "get",
+    path: "/system/openapi.json",
+    description: "This OpenAPI document. Only served in development.",
+    credentials: "none",
+    response: s.opaque(),
+  },
+  getGameState: {
+    method: "get",
+    path: "/game-state",
+    description:
+      "Key asset details, the visitor's data, whether they are an admin and whether the leaderboard is set up. Also fires a particle effect at the key asset. Limited to 10 requests a minute.",
+    response: s.object({
+      droppedAsset: droppedAssetSchema,
+      isAdmin: s.boolean(),
+      isLeaderboardEnabled: s.boolean(),
+      visitorData: visitorDataSchema,
+      success: s.literal(true),
+    }),
+  },
+  completeTask: {
+    method: "post",
+    path: "/complete-task",
+    description:
+      "Completes the task: awards XP, leaderboard stats and badges, moves the visitor's daily streak and fires a toast. Days follow `timezone`, an IANA name that defaults to UTC. Limited to 10 a day; the 429 carries `retryAfter`, the seconds until the visitor's midnight.",
+    query: s.object({ timezone: s.string().optional() }),
+    response: s.object({ visitorData: visitorDataSchema, success: s.literal(true) }),
+  },
+  getVisitor: {
+    method: "get",
+    path: "/visitor",
+    description: "The visitor and their data object in this world, initialized on first access.",
+    response: s.object({ visitor: visitorSchema, visitorData: visitorDataSchema, success: s.literal(true) }),
+  },
+  updateVisitor: {
+    method: "patch",
+    path: "/visitor",
+    description: "Updates fields of the visitor's data object. Only the fields sent are changed.",
+    body: s.object({ exampleParam: s.string({ minLength: 0, maxLength: 100 }).optional() }),
+    response: s.object({ visitorData: visitorDataSchema, success: s.literal(true) }),
+  },
+  getLeaderboard: {
+    method: "get",
+    path: "/leaderboard",
+    description: "Top players for this key asset. `limit` defaults to 10 and is capped at 100.",
+    query: s.object({ limit: s.number({ coerce: true, integer: true, min: 1 }).optional() }),
+    response: s.object({ leaderboard: s.array(leaderboardEntrySchema), success: s.literal(true) }),
+  },
+  getBadges: {
+    method: "get",
+    path: "/badges",
+    description: "Every badge the app awards, with `earned` set for those the visitor already has.",
+    response: s.object({ badges: s.array(badgeSchema), success: s.literal(true) }),
+  },
+  getEvents: {
+    method: "get",
+    path: "/events",
+    description:
+      "Server-Sent Events stream of shared game state for the key asset, starting with a `connected` event. The visitor is confirmed with Topia first.",
+    // optional for other routes, but the stream is scoped to the key asset
+    query: s.object({ assetId: s.string() }),
+    response: s.opaque<GameEvent>(),
+    stream: true,
+  },
+  dropAsset: {
+    method: "post",
+    path: "/dropped-asset",
+    description: "Admin only. Drops a copy of the key asset near it, sharing its uniqueName.",
+    response: s.object({ droppedAsset: droppedAssetSchema, success: s.literal(true) }),
+  },
+  removeDroppedAssets: {
+    method: "post",
+    path: "/remove-dropped-assets",
+    description: "Admin only. Removes every asset sharing the key asset's uniqueName, except the key asset itself.",
+    response: s.object({ removedCount: s.number(), success: s.literal(true) }),
+  },
+  fireToast: {
+    method: "put",
+    path: "/world/fire-toast",
+    description: "Admin only. Shows a toast to every visitor in the world.",
+    body: s.object({
+      groupId: s.string().optional(),
+      title: s.string({ maxLength: 100 }),
+      text: s.string({ maxLength: 500 }).optional(),
+    }),
+    response: s.object({ success: s.literal(true) }),
+  },
+  listScheduledJobs: {
+    method: "get",
+    path: "/world/jobs",
+    description: "Admin only. Every job scheduled in the world, including finished and cancelled ones, oldest first.",
+    response: s.object({ jobs: s.array(scheduledJobSchema), success: s.literal(true) }),
+  },
+  cancelScheduledJob: {
+    method: "delete",
+    path: "/world/jobs/:jobId",
+    description: "Admin only. Stops a scheduled job from running again. Responds 409 when it has already finished.",
+    params: s.object({ jobId: s.string() }),
+    response: s.object({ job: scheduledJobSchema, success: s.literal(true) }),
+  },
+});
+
+const dataObjectEntityParams = s.object({
+  entityType: s.enum(["world", "dropped-asset", "visitor", "user"]),
+  entityId: s.string(),
+});
+
+/** Mounted at /api/dev in development when API_KEY is set or the Topia simulator is enabled */
+export const devApiRoutes = defineRoutes({
+  getWorldInfo: {
+    method: "get",
+    path: "/world-info",
+    description: "Details of DEVELOPMENT_WORLD_SLUG.",
+    credentials: "dev",
+    response: s.object({ world: worldSchema, success: s.literal(true) }),
+  },
+  dropAsset: {
+    method: "post",
+    path: "/drop-asset",
+    description: "Drops a web image asset into DEVELOPMENT_WORLD_SLUG.",
+    credentials: "dev",
+    body: s.object({
+      position: s.object({ x: s.number(), y: s.number() }),
+      layer0: s.string().optional(),
+      layer1: s.string().optional(),
+      uniqueName: s.string().optional(),
+      clickableLink: s.string().optional(),
+      sceneDropId: s.string().optional(),
+    }),
+    response: s.object({ droppedAsset: droppedAssetSchema, success: s.literal(true) }),
+  },
+  listDroppedAssets: {
+    method: "get",
+    path: "/dropped-assets",
+    description:
+      "Every dropped asset in DEVELOPMENT_WORLD_SLUG, or only those with `uniqueName` (a substring match when `isPartial` is true).",
+    credentials: "dev",
+    query: s.object({ uniqueName: s.string().optional(), isPartial: s.boolean({ coerce: true }).optional() }),
+    response: s.object({ droppedAssets: s.array(droppedAssetSchema), success: s.literal(true) }),
+  },
+  moveDroppedAsset: {
+    method: "put",
+    path: "/dropped-assets/:droppedAssetId/position",
+    description: "Moves a dropped asset to `x`, `y`.",
+    credentials: "dev",
+    params: s.object({ droppedAssetId: s.string() }),
+    body: s.object({ x: s.number(), y: s.number() }),
+    response: s.object({ droppedAsset: droppedAssetSchema, success: s.literal(true) }),
+  },
+  deleteDroppedAsset: {
+    method: "delete",
+    path: "/dropped-assets/:droppedAssetId",
+    description: "Removes a dropped asset from the world.",
+    credentials: "dev",
+    params: s.object({ droppedAssetId: s.string() }),
+    response: s.object({ success: s.literal(true) }),
+  },
+  getDataObject: {
+    method: "get",
+    path: "/data-objects/:entityType/:entityId",
+    description:
+      "Reads any data object. `entityId` is the urlSlug for worlds, the id for dropped assets and visitors, and the profileId for users.",
+    credentials: "dev",
+    params: dataObjectEntityParams,
+    response: s.object({ dataObject: s.opaque(), success: s.literal(true) }),
+  },
+  setDataObject: {
+    method: "put",
+    path: "/data-objects/:entityType/:entityId",
+    description: "Overwrites any data object with `dataObject`. Nothing is merged or migrated.",
+    credentials: "dev",
+    params: dataObjectEntityParams,
+    body: s.object({ dataObject: s.opaque() }),
+    response: s.object({ dataObject: s.opaque(), success: s.literal(true) }),
+  },
+  listVisitors: {
+    method: "get",
+    path: "/visitors",
+    description: "Visitors currently in DEVELOPMENT_WORLD_SLUG.",
+    credentials: "dev",
+    response: s.object({ visitors: s.array(visitorSchema), success: s.literal(true) }),
+  },
+});
+
+export const webhookEventTypes = ["zone-enter", "zone-exit", "world-trigger"] as const;
+
+/** Mounted at /api/webhooks. Topia calls these, so they are not part of the client's apiClient */
+export const webhookRoutes = defineRoutes({
+  receiveWebhook: {
+    method: "post",
+    path: "/:event",
+    description:
+      "Receives a Topia webhook and runs the handlers registered for `event`, once Topia has confirmed the visitor and nonce in the body. Redelivered payloads are acknowledged without running them again.",
+    credentials: "webhook",
+    params: s.object({ event: s.enum(webhookEventTypes) }),
+    // webhooks carry the interactive credentials in the body instead of the query
+    body: s.object({ ...interactiveCredentialsQuery.shape, dataObject: s.opaque().optional() }),
+    response: s.object({ duplicate: s.boolean(), handlerCount: s.number(), success: s.literal(true) }),
+  },
+});
+
+export type ApiRoutes = typeof apiRoutes;
+export type ApiRouteName = keyof ApiRoutes;
+
+/** Routes that return JSON, i.e. everything the client calls through apiClient rather than EventSource */
+export type JsonRouteName = { [K in ApiRouteName]: ApiRoutes[K] extends { stream: true } ? never : K }[ApiRouteName];
+
+export type RequestInput<R> = (R extends { params: Schema<infer P> } ? { params: P } : {}) &
+  (R extends { query: Schema<infer Q> } ? { query?: Q } : {}) &
+  (R extends { body: Schema<infer B> } ? { body: B } : {});
+
+/** The input is only required when the route declares path params or a body */
+export type RequestArgs<R> = R extends { params: Schema<unknown> } | { body: Schema<unknown> }
+  ? [input: RequestInput<R>]
+  : [input?: RequestInput<R>];
+
+export type ResponseOf<R> = R extends { response: Schema<infer T> } ? T : never;
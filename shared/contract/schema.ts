@@ -0,0 +1,226 @@
+/**
+ * A small runtime schema builder shared by the client and server. Each schema validates unknown input
+ * and carries the static type it produces, so a shape is declared once and both sides infer from it.
+ */
+
+export type ValidationIssue = { path: string; message: string };
+
+/** The subset of JSON Schema (as used by OpenAPI 3) that these schemas produce */
+export type JsonSchema = Record<string, unknown>;
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; issues: ValidationIssue[] };
+
+export abstract class Schema<T> {
+  readonly isOptional: boolean = false;
+
+  /** Whether "" is a value rather than a missing one. Optional fields treat "" as absent unless it is */
+  get acceptsEmptyString() {
+    return false;
+  }
+
+  /** Validates `input`, pushing any problems onto `issues`. The return value is only used when there are none */
+  abstract check(input: unknown, path: string, issues: ValidationIssue[]): T;
+
+  abstract toJSONSchema(): JsonSchema;
+
+  parse(input: unknown, path = ""): ParseResult<T> {
+    const issues: ValidationIssue[] = [];
+    const data = this.check(input, path, issues);
+    return issues.length > 0 ? { success: false, issues } : { success: true, data };
+  }
+
+  optional(): Schema<T | undefined> {
+    return new OptionalSchema(this);
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const describe = (path: string) => path || "value";
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true;
+
+  constructor(readonly inner: Schema<T>) {
+    super();
+  }
+
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    if (input === undefined || input === null || (input === "" && !this.inner.acceptsEmptyString)) return undefined;
+    return this.inner.check(input, path, issues);
+  }
+
+  toJSONSchema() {
+    return this.inner.toJSONSchema();
+  }
+}
+
+/** Strings must be non-empty unless `minLength: 0` is given */
+export class StringSchema extends Schema<string> {
+  constructor(readonly options: { minLength?: number; maxLength?: number } = {}) {
+    super();
+  }
+
+  get acceptsEmptyString() {
+    return this.options.minLength === 0;
+  }
+
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    const { minLength = 1, maxLength } = this.options;
+    if (input === undefined || input === null || (input === "" && minLength > 0)) {
+      issues.push({ path, message: `${describe(path)} is required` });
+    } else if (typeof input !== "string") {
+      issues.push({ path, message: `${describe(path)} must be a string` });
+    } else if (input.length < minLength || (maxLength !== undefined && input.length > maxLength)) {
+      issues.push({ path, message: `${describe(path)} must be ${minLength}-${maxLength ?? "∞"} characters` });
+    }
+    return input as string;
+  }
+
+  toJSONSchema() {
+    const { minLength = 1, maxLength } = this.options;
+    return { type: "string", minLength, maxLength };
+  }
+}
+
+/** Query strings are always strings, so `coerce` converts numeric strings before checking */
+export class NumberSchema extends Schema<number> {
+  constructor(readonly options: { coerce?: boolean; integer?: boolean; min?: number; max?: number } = {}) {
+    super();
+  }
+
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    const { coerce, integer, min, max } = this.options;
+    const value = coerce && typeof input === "string" && input.trim() !== "" ? Number(input) : input;
+
+    if (value === undefined || value === null) {
+      issues.push({ path, message: `${describe(path)} is required` });
+    } else if (typeof value !== "number" || Number.isNaN(value)) {
+      issues.push({ path, message: `${describe(path)} must be a number` });
+    } else if (integer && !Number.isInteger(value)) {
+      issues.push({ path, message: `${describe(path)} must be an integer` });
+    } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      issues.push({ path, message: `${describe(path)} must be between ${min ?? "-∞"} and ${max ?? "∞"}` });
+    }
+    return value as number;
+  }
+
+  toJSONSchema() {
+    const { integer, min, max } = this.options;
+    return { type: integer ? "integer" : "number", minimum: min, maximum: max };
+  }
+}
+
+/** `coerce` accepts the query string values "true" and "false" */
+export class BooleanSchema extends Schema<boolean> {
+  constructor(readonly options: { coerce?: boolean } = {}) {
+    super();
+  }
+
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    const value = this.options.coerce && (input === "true" || input === "false") ? input === "true" : input;
+    if (typeof value !== "boolean") issues.push({ path, message: `${describe(path)} must be a boolean` });
+    return value as boolean;
+  }
+
+  toJSONSchema() {
+    return { type: "boolean" };
+  }
+}
+
+export class EnumSchema<T extends string | number | boolean> extends Schema<T> {
+  constructor(readonly values: readonly T[]) {
+    super();
+  }
+
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    if (!this.values.includes(input as T)) {
+      issues.push({ path, message: `${describe(path)} must be one of: ${this.values.join(", ")}` });
+    }
+    return input as T;
+  }
+
+  toJSONSchema() {
+    return { type: typeof this.values[0], enum: [...this.values] };
+  }
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  constructor(readonly item: Schema<T>) {
+    super();
+  }
+
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    if (!Array.isArray(input)) {
+      issues.push({ path, message: `${describe(path)} must be an array` });
+      return [];
+    }
+    return input.map((item, index) => this.item.check(item, `${path}[${index}]`, issues));
+  }
+
+  toJSONSchema() {
+    return { type: "array", items: this.item.toJSONSchema() };
+  }
+}
+
+/** Keys that are not in the shape are dropped, so only declared fields reach a handler or component */
+export class ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  constructor(readonly shape: S) {
+    super();
+  }
+
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      issues.push({ path, message: `${describe(path)} must be an object` });
+      return {} as InferShape<S>;
+    }
+
+    const output: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const value = schema.check((input as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+      if (value !== undefined) output[key] = value;
+    }
+    return output as InferShape<S>;
+  }
+
+  toJSONSchema() {
+    const required = Object.keys(this.shape).filter((key) => !this.shape[key].isOptional);
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(this.shape).map(([key, schema]) => [key, schema.toJSONSchema()])),
+      ...(required.length > 0 && { required }),
+    };
+  }
+}
+
+/** Any JSON object, passed through unchecked. Used for data objects, whose fields are filled in lazily */
+export class OpaqueObjectSchema<T> extends Schema<T> {
+  check(input: unknown, path: string, issues: ValidationIssue[]) {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      issues.push({ path, message: `${describe(path)} must be an object` });
+    }
+    return input as T;
+  }
+
+  toJSONSchema() {
+    return { type: "object", additionalProperties: true };
+  }
+}
+
+export const s = {
+  array: <T>(item: Schema<T>) => new ArraySchema(item),
+  boolean: (options?: BooleanSchema["options"]) => new BooleanSchema(options),
+  enum: <const T extends string | number | boolean>(values: readonly T[]) => new EnumSchema<T>(values),
+  literal: <const T extends string | number | boolean>(value: T) => new EnumSchema<T>([value]),
+  number: (options?: NumberSchema["options"]) => new NumberSchema(options),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+  opaque: <T = Record<string, unknown>>() => new OpaqueObjectSchema<T>(),
+  string: (options?: StringSchema["options"]) => new StringSchema(options),
+};
@@ -0,0 +1,29 @@
+/**
+ * Shared types between client and server for error responses
+ */
+
+export type ErrorCode =
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "LOCK_CONFLICT"
+  | "RATE_LIMITED"
+  | "UPSTREAM_ERROR"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+export interface ApiErrorResponse {
+  success: false;
+  code: ErrorCode;
+  message: string;
+  /** Seconds until the request may be retried, only set on RATE_LIMITED and UPSTREAM_UNAVAILABLE responses */
+  retryAfter?: number;
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Shared types between client and server for badges. Every badge declared in server/utils/badges
+ * is listed, whether or not the visitor has earned it yet.
+ */
+
+export interface BadgeDTO {
+  name: string;
+  description: string;
+  /** Image of the matching inventory item in the ecosystem, if it has one */
+  icon?: string;
+  earned: boolean;
+}
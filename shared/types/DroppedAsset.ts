@@ -0,0 +1,19 @@
+/**
+ * Shared types between client and server for dropped assets as returned by the API.
+ * Built by serializeDroppedAsset, never by spreading an SDK instance.
+ */
+import { DroppedAssetDataObject } from "./DroppedAssetData.js";
+
+export interface DroppedAssetDTO {
+  id: string;
+  assetId?: string;
+  assetName?: string;
+  bottomLayerURL?: string;
+  clickableLink?: string;
+  dataObject?: DroppedAssetDataObject;
+  isInteractive?: boolean;
+  position?: { x: number; y: number };
+  sceneDropId?: string;
+  topLayerURL?: string;
+  uniqueName?: string;
+}
@@ -0,0 +1,8 @@
+/**
+ * Shared types between client and server for dropped asset (key asset) data
+ */
+
+export interface DroppedAssetDataObject {
+  schemaVersion: number;
+  droppedAssetCount: number;
+}
@@ -0,0 +1,13 @@
+/**
+ * Shared types between client and server for events streamed from GET /api/events
+ */
+import { DroppedAssetDTO } from "./DroppedAsset.js";
+
+/** State that is the same for every visitor of a key asset, so it is safe to broadcast */
+export interface SharedGameState {
+  droppedAsset?: DroppedAssetDTO;
+}
+
+export type GameEvent =
+  | { type: "connected"; timestamp: number }
+  | { type: "game-state"; timestamp: number; gameState: SharedGameState };
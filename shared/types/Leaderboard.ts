@@ -0,0 +1,10 @@
+/**
+ * Shared types between client and server for leaderboard standings
+ */
+
+export interface LeaderboardEntry {
+  rank: number;
+  profileId: string;
+  displayName: string;
+  score: number;
+}
@@ -0,0 +1,24 @@
+/**
+ * Shared types between client and server for scheduled jobs, see server/utils/scheduler
+ */
+
+/** `cron` repeats on a five-field expression in `timezone`; `delay` runs once at `runAt` (epoch ms) */
+export type JobSchedule = { type: "cron"; cron: string; timezone?: string } | { type: "delay"; runAt: number };
+
+export type ScheduledJobStatus = "scheduled" | "completed" | "failed" | "cancelled";
+
+export interface ScheduledJobDTO {
+  id: string;
+  /** The registered handler that runs the job */
+  name: string;
+  urlSlug: string;
+  schedule: JobSchedule;
+  status: ScheduledJobStatus;
+  payload: Record<string, unknown>;
+  createdAt: number;
+  /** Unset once a delayed job has run or any job is cancelled */
+  nextRunAt?: number;
+  lastRunAt?: number;
+  runCount: number;
+  lastError?: string;
+}
@@ -0,0 +1,7 @@
+/**
+ * Shared types between client and server for user data
+ */
+
+export interface UserDataObject {
+  schemaVersion: number;
+}
@@ -0,0 +1,12 @@
+/**
+ * Shared types between client and server for visitors as returned by the API.
+ * Built by serializeVisitor, never by spreading an SDK instance.
+ */
+
+export interface VisitorDTO {
+  visitorId: number;
+  displayName?: string;
+  isAdmin: boolean;
+  profileId?: string;
+  username?: string;
+}
@@ -2,6 +2,29 @@
  * Shared types between client and server for visitor data
  */
 
+/** Times an action was performed on the visitor's current calendar day */
+export interface DailyActionCount {
+  /** YYYY-MM-DD in the visitor's timezone */
+  day: string;
+  count: number;
+}
+
+export interface VisitorStreak {
+  /** Consecutive days the visitor has been active, allowing for the configured grace days */
+  current: number;
+  longest: number;
+  lastActiveDay?: string;
+}
+
 export interface VisitorDataObject {
+  schemaVersion: number;
   exampleParam: string;
+  /** Times the visitor has completed the task through POST /complete-task */
+  completedCount: number;
+  /** Total XP from every action, see server/utils/xp */
+  xp: number;
+  level: number;
+  /** Per-action counts for today, see server/utils/dailyActions */
+  daily: Record<string, DailyActionCount>;
+  streak: VisitorStreak;
 }
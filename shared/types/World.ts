@@ -0,0 +1,10 @@
+/**
+ * Shared types between client and server for worlds as returned by the API.
+ * Built by serializeWorld, never by spreading an SDK instance.
+ */
+
+export interface WorldDTO {
+  urlSlug: string;
+  description?: string;
+  name?: string;
+}
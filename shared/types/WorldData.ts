@@ -0,0 +1,11 @@
+import { ScheduledJobDTO } from "./ScheduledJob.js";
+
+/**
+ * Shared types between client and server for world data
+ */
+
+export interface WorldDataObject {
+  schemaVersion: number;
+  /** By job id. The server also stores the credentials each job runs with, which are never sent to the client */
+  scheduledJobs: Record<string, ScheduledJobDTO>;
+}